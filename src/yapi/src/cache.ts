@@ -0,0 +1,288 @@
+import { createHash } from 'node:crypto';
+import { readFileSync, writeFileSync, mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { ConfigurationError } from './errors.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('Cache');
+
+// --- Cache Entries & Stores ---
+
+export interface CacheEntry {
+  value: unknown;
+  storedAt: number;  // epoch ms
+  expiresAt: number; // epoch ms
+}
+
+/**
+ * Storage backend for cached YAPI responses. Implementations only store entries;
+ * expiry and key construction are handled by YapiCache.
+ */
+export interface CacheStore {
+  get(key: string): CacheEntry | undefined;
+  set(key: string, entry: CacheEntry): void;
+  delete(key: string): boolean;
+  keys(): string[];
+}
+
+/**
+ * In-memory LRU store: reads refresh recency, the least recently used entry is evicted first.
+ */
+export class LruCacheStore implements CacheStore {
+  protected readonly entries = new Map<string, CacheEntry>();
+
+  constructor(private readonly maxEntries: number = 1000) {}
+
+  get(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry) {
+      // Map preserves insertion order; re-inserting marks the entry as most recently used
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  delete(key: string): boolean {
+    return this.entries.delete(key);
+  }
+
+  keys(): string[] {
+    return [...this.entries.keys()];
+  }
+}
+
+// Delay before changes are flushed to disk, so bursts of writes cost a single save
+const FILE_FLUSH_DELAY_MS = 1000;
+
+/**
+ * LRU store persisted to a JSON file so the cache survives restarts.
+ * The file is loaded once on construction and rewritten shortly after changes.
+ */
+export class FileCacheStore extends LruCacheStore {
+  private flushTimer?: NodeJS.Timeout;
+
+  constructor(private readonly filePath: string, maxEntries?: number) {
+    super(maxEntries);
+    this.load();
+    // Persist pending changes when the process exits (writes must be synchronous here)
+    process.once('exit', () => {
+      if (this.flushTimer) {
+        clearTimeout(this.flushTimer);
+        this.flush();
+      }
+    });
+  }
+
+  private load(): void {
+    let raw: string;
+    try {
+      raw = readFileSync(this.filePath, 'utf8');
+    } catch {
+      return; // No cache file yet
+    }
+    try {
+      const now = Date.now();
+      const stored = JSON.parse(raw) as Record<string, CacheEntry>;
+      for (const [key, entry] of Object.entries(stored)) {
+        if (entry && typeof entry.expiresAt === 'number' && entry.expiresAt > now) {
+          super.set(key, entry);
+        }
+      }
+      log.info(`Loaded ${this.entries.size} entries from ${this.filePath}`);
+    } catch (error) {
+      log.warning(`Ignoring unreadable cache file ${this.filePath}`, { error });
+    }
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) return;
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = undefined;
+      this.flush();
+    }, FILE_FLUSH_DELAY_MS);
+    // Never keep the process alive just to persist the cache
+    this.flushTimer.unref();
+  }
+
+  /**
+   * Writes the current entries to disk immediately.
+   */
+  flush(): void {
+    try {
+      mkdirSync(dirname(this.filePath), { recursive: true });
+      writeFileSync(this.filePath, JSON.stringify(Object.fromEntries(this.entries)), 'utf8');
+    } catch (error) {
+      log.error(`Failed to write cache file ${this.filePath}`, { error });
+    }
+  }
+
+  override set(key: string, entry: CacheEntry): void {
+    super.set(key, entry);
+    this.scheduleFlush();
+  }
+
+  override delete(key: string): boolean {
+    const deleted = super.delete(key);
+    if (deleted) this.scheduleFlush();
+    return deleted;
+  }
+}
+
+// --- TTL Policy ---
+
+/**
+ * Time-to-live in seconds per API path (relative to /api). 0 disables caching for that path.
+ * Interface details are also revalidated against the up_time reported by the menu,
+ * so they can safely live longer than the menu itself.
+ */
+export type CacheTtls = Record<string, number>;
+
+export const DEFAULT_CACHE_TTLS: CacheTtls = {
+  '/project/get': 600,
+  '/interface/list_menu': 300,
+  '/interface/list_cat': 300,
+  '/interface/get': 3600,
+};
+
+type CacheParams = Record<string, string | number | undefined> | undefined;
+
+/**
+ * Per-project view of a (possibly shared) CacheStore. Keys are namespaced by instance URL
+ * and token, so several projects can share one store without seeing each other's data.
+ */
+export class YapiCache {
+  private readonly prefix: string;
+
+  constructor(
+    private readonly store: CacheStore,
+    baseUrl: string,
+    token: string,
+    private readonly ttls: CacheTtls = DEFAULT_CACHE_TTLS
+  ) {
+    // Hash rather than embed the token so it never lands in a cache file
+    this.prefix = createHash('sha256').update(`${baseUrl}\n${token}`).digest('hex').slice(0, 16) + ':';
+  }
+
+  private key(apiPath: string, params: CacheParams): string {
+    const query = Object.entries(params ?? {})
+      .filter(([, value]) => value !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([name, value]) => `${name}=${value}`)
+      .join('&');
+    return `${this.prefix}${apiPath}?${query}`;
+  }
+
+  isCacheable(apiPath: string): boolean {
+    return (this.ttls[apiPath] ?? 0) > 0;
+  }
+
+  /**
+   * Returns a copy of the cached value, or undefined when missing or expired.
+   */
+  get<T>(apiPath: string, params: CacheParams): T | undefined {
+    if (!this.isCacheable(apiPath)) return undefined;
+    const key = this.key(apiPath, params);
+    const entry = this.store.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+      this.store.delete(key);
+      return undefined;
+    }
+    // Callers (e.g. getInterfaceDetails) mutate responses; never hand out the stored object
+    return structuredClone(entry.value) as T;
+  }
+
+  set(apiPath: string, params: CacheParams, value: unknown): void {
+    if (!this.isCacheable(apiPath)) return;
+    const now = Date.now();
+    this.store.set(this.key(apiPath, params), {
+      value: structuredClone(value),
+      storedAt: now,
+      expiresAt: now + this.ttls[apiPath] * 1000,
+    });
+  }
+
+  /**
+   * Reads the cached value without copying or expiring it (used for up_time revalidation).
+   */
+  peek(apiPath: string, params: CacheParams): unknown {
+    return this.store.get(this.key(apiPath, params))?.value;
+  }
+
+  delete(apiPath: string, params: CacheParams): boolean {
+    return this.store.delete(this.key(apiPath, params));
+  }
+
+  /**
+   * Removes this project's entries, optionally only those of one API path.
+   * @returns The number of removed entries.
+   */
+  invalidate(apiPath?: string): number {
+    const prefix = apiPath ? `${this.prefix}${apiPath}?` : this.prefix;
+    let removed = 0;
+    for (const key of this.store.keys()) {
+      if (key.startsWith(prefix) && this.store.delete(key)) removed++;
+    }
+    return removed;
+  }
+}
+
+// --- Configuration ---
+
+export interface CacheConfig {
+  mode?: string;        // YAPI_CACHE: 'memory' (default), 'file' or 'off'
+  filePath?: string;    // YAPI_CACHE_FILE
+  maxEntries?: string;  // YAPI_CACHE_MAX_ENTRIES
+}
+
+/**
+ * Builds the shared cache store from configuration; returns undefined when caching is off.
+ */
+export function createCacheStore(config: CacheConfig): CacheStore | undefined {
+  const mode = (config.mode || 'memory').toLowerCase();
+  const maxEntries = config.maxEntries ? parseInt(config.maxEntries, 10) : undefined;
+  if (maxEntries !== undefined && (isNaN(maxEntries) || maxEntries <= 0)) {
+    throw new ConfigurationError(`Invalid YAPI_CACHE_MAX_ENTRIES: "${config.maxEntries}". Must be a positive integer.`);
+  }
+  switch (mode) {
+    case 'off':
+      return undefined;
+    case 'memory':
+      return new LruCacheStore(maxEntries);
+    case 'file':
+      if (!config.filePath) {
+        throw new ConfigurationError("YAPI_CACHE_FILE must be set when YAPI_CACHE is 'file'.");
+      }
+      return new FileCacheStore(config.filePath, maxEntries);
+    default:
+      throw new ConfigurationError(`Invalid YAPI_CACHE mode: "${config.mode}". Use 'memory', 'file' or 'off'.`);
+  }
+}
+
+/**
+ * Merges "path=seconds" overrides (YAPI_CACHE_TTLS) into the default TTLs.
+ */
+export function parseCacheTtls(ttls?: string): CacheTtls {
+  const result: CacheTtls = { ...DEFAULT_CACHE_TTLS };
+  for (const item of (ttls ?? '').split(',').map(part => part.trim()).filter(Boolean)) {
+    const [rawPath, rawSeconds] = item.split('=');
+    const seconds = Number(rawSeconds);
+    if (!rawPath || !Number.isFinite(seconds) || seconds < 0) {
+      throw new ConfigurationError(`Invalid YAPI_CACHE_TTLS entry "${item}". Expected "/api/path=seconds".`);
+    }
+    const apiPath = rawPath.trim().replace(/^\/?(api\/)?/, '/');
+    result[apiPath] = seconds;
+  }
+  return result;
+}
@@ -0,0 +1,220 @@
+import { YapiService } from './yapiService.js';
+import { YapiProjectRegistry } from './projectRegistry.js';
+import { YapiCategory } from './schemas.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('ChangeFeed');
+
+// Window reported when no start time is given
+const DEFAULT_WINDOW_HOURS = 24;
+
+export interface RecentChange {
+  id: number;
+  method: string;
+  path: string;
+  title: string;
+  status?: string;
+  catid: number;
+  category: string;
+  /** `added` if the interface was created in the window, `updated` otherwise */
+  change: 'added' | 'updated';
+  added_at: string;
+  updated_at: string;
+  /** Last editor (`edit_uid`), or the creator (`uid`) if YAPI recorded no editor */
+  author_uid: number;
+  /** Creator of the interface */
+  uid: number;
+}
+
+export interface RecentChangesResult {
+  since: string;
+  /** Number of changed interfaces, before `limit` is applied */
+  total: number;
+  changes: RecentChange[];
+}
+
+export interface RecentChangesOptions {
+  /** Unix seconds; interfaces with `up_time >= since` are reported (default: 24 hours ago) */
+  since?: number;
+  categoryId?: number;
+  limit?: number;
+}
+
+function isoTime(seconds: number): string {
+  return new Date(seconds * 1000).toISOString();
+}
+
+/**
+ * Reports the interfaces added or updated since a point in time, newest first. The menu is
+ * fetched fresh (bypassing the cache) because the point of the feed is to see recent edits.
+ */
+export async function listRecentChanges(yapiService: YapiService, options: RecentChangesOptions): Promise<RecentChangesResult> {
+  const since = options.since ?? Math.floor(Date.now() / 1000) - DEFAULT_WINDOW_HOURS * 3600;
+  const menu = await yapiService.getProjectInterfaceMenu(true);
+  const changes: RecentChange[] = [];
+  for (const category of menu) {
+    if (options.categoryId !== undefined && category._id !== options.categoryId) continue;
+    for (const item of category.list ?? []) {
+      if (item.up_time < since) continue;
+      changes.push({
+        id: item._id,
+        method: item.method,
+        path: item.path,
+        title: item.title,
+        status: item.status,
+        catid: item.catid,
+        category: category.name,
+        change: item.add_time >= since ? 'added' : 'updated',
+        added_at: isoTime(item.add_time),
+        updated_at: isoTime(item.up_time),
+        author_uid: item.edit_uid || item.uid,
+        uid: item.uid,
+      });
+    }
+  }
+  changes.sort((a, b) => b.updated_at.localeCompare(a.updated_at) || b.id - a.id);
+  return {
+    since: isoTime(since),
+    total: changes.length,
+    changes: options.limit === undefined ? changes : changes.slice(0, options.limit),
+  };
+}
+
+// --- Background polling ---
+
+/**
+ * What changed in a project's menu between two polls.
+ */
+export interface MenuChangeEvent {
+  alias: string;
+  /** Interfaces that were added, updated, moved or removed */
+  interfaceIds: number[];
+  /** Categories whose interface list changed (old and new category of moved interfaces) */
+  categoryIds: number[];
+  /** Interfaces or categories were added or removed, so the resource list changed */
+  listChanged: boolean;
+}
+
+export type MenuChangeListener = (event: MenuChangeEvent) => void;
+
+interface MenuState {
+  categories: Set<number>;
+  interfaces: Map<number, { catid: number; up_time: number }>;
+}
+
+function toMenuState(menu: YapiCategory[]): MenuState {
+  const interfaces = new Map<number, { catid: number; up_time: number }>();
+  for (const category of menu) {
+    for (const item of category.list ?? []) interfaces.set(item._id, { catid: item.catid, up_time: item.up_time });
+  }
+  return { categories: new Set(menu.map(category => category._id)), interfaces };
+}
+
+function diffMenuStates(alias: string, previous: MenuState, current: MenuState): MenuChangeEvent | undefined {
+  const interfaceIds = new Set<number>();
+  const categoryIds = new Set<number>();
+  let listChanged = previous.categories.size !== current.categories.size
+    || [...current.categories].some(id => !previous.categories.has(id));
+  for (const [id, item] of current.interfaces) {
+    const before = previous.interfaces.get(id);
+    if (before && before.up_time === item.up_time && before.catid === item.catid) continue;
+    interfaceIds.add(id);
+    categoryIds.add(item.catid);
+    if (before) {
+      categoryIds.add(before.catid);
+    } else {
+      listChanged = true;
+    }
+  }
+  for (const [id, item] of previous.interfaces) {
+    if (current.interfaces.has(id)) continue;
+    interfaceIds.add(id);
+    categoryIds.add(item.catid);
+    listChanged = true;
+  }
+  if (interfaceIds.size === 0 && !listChanged) return undefined;
+  return { alias, interfaceIds: [...interfaceIds], categoryIds: [...categoryIds], listChanged };
+}
+
+/**
+ * Polls the menu of every configured (non-offline) project and tells listeners what changed.
+ * Polling only runs while someone listens; the first poll records a baseline.
+ */
+export class ChangeWatcher {
+  private readonly listeners = new Set<MenuChangeListener>();
+  private readonly states = new Map<string, MenuState>();
+  private timer?: NodeJS.Timeout;
+  private polling = false;
+
+  /**
+   * @param intervalMs - Time between polls; `0` disables polling.
+   */
+  constructor(private readonly projects: YapiProjectRegistry, private readonly intervalMs: number) {}
+
+  isEnabled(): boolean {
+    return this.intervalMs > 0;
+  }
+
+  /**
+   * Registers a listener and starts polling if it is the first one.
+   * @returns A function removing the listener again.
+   */
+  subscribe(listener: MenuChangeListener): () => void {
+    this.listeners.add(listener);
+    this.schedule(this.states.size === 0 ? 0 : this.intervalMs);
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) this.stop();
+    };
+  }
+
+  stop(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    // The next subscriber starts from a new baseline
+    this.states.clear();
+  }
+
+  private schedule(delayMs: number): void {
+    if (!this.isEnabled() || this.timer || this.listeners.size === 0) return;
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      void this.poll().then(() => this.schedule(this.intervalMs));
+    }, delayMs);
+    this.timer.unref();
+  }
+
+  private async poll(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+    try {
+      for (const { alias, offlineFile } of this.projects.list()) {
+        // Stopped while polling: do not record a baseline for the next subscriber
+        if (this.listeners.size === 0) break;
+        // Exports do not change while they are served
+        if (offlineFile) continue;
+        let current: MenuState;
+        try {
+          current = toMenuState(await this.projects.get(alias).getProjectInterfaceMenu(true));
+        } catch (error) {
+          log.warning(`Failed to poll interface menu of project '${alias}'`, { error });
+          continue;
+        }
+        const previous = this.states.get(alias);
+        this.states.set(alias, current);
+        const event = previous && diffMenuStates(alias, previous, current);
+        if (!event) continue;
+        log.info(`Project '${alias}' changed: ${event.interfaceIds.length} interface(s)`);
+        for (const listener of this.listeners) {
+          try {
+            listener(event);
+          } catch (error) {
+            log.error('Change listener failed', { error });
+          }
+        }
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * Maps over `items` with at most `limit` invocations of `fn` in flight at once.
+ * Results keep the order of the input; the first rejection rejects the whole call.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const worker = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  return results;
+}
+
+/**
+ * Client-side limiter for outgoing requests: caps the number of requests in flight and,
+ * optionally, how many may start per second. Waiters are served in FIFO order.
+ */
+export class RequestLimiter {
+  private active = 0;
+  private lastStartedAt = 0;
+  private readonly queue: Array<() => void> = [];
+  private readonly minIntervalMs: number;
+
+  constructor(private readonly maxConcurrent: number, maxPerSecond: number = 0) {
+    this.minIntervalMs = maxPerSecond > 0 ? 1000 / maxPerSecond : 0;
+  }
+
+  private async acquire(): Promise<void> {
+    if (this.active < this.maxConcurrent) {
+      this.active++;
+    } else {
+      // The slot is handed over directly by release(), so `active` stays unchanged
+      await new Promise<void>(resolve => this.queue.push(resolve));
+    }
+    // Space out request starts to honour the per-second rate
+    const wait = this.lastStartedAt + this.minIntervalMs - Date.now();
+    this.lastStartedAt = Math.max(Date.now(), this.lastStartedAt + this.minIntervalMs);
+    if (wait > 0) {
+      await new Promise(resolve => setTimeout(resolve, wait));
+    }
+  }
+
+  private release(): void {
+    const next = this.queue.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+
+  async run<T>(fn: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      return await fn();
+    } finally {
+      this.release();
+    }
+  }
+}
@@ -0,0 +1,270 @@
+import { YapiInterfaceDetail } from './schemas.js';
+import { ProjectSnapshot } from './snapshot.js';
+import { JsonSchema } from './typescriptGenerator.js';
+import { inferSchemaFromValue } from './openapi.js';
+
+// Parts of an interface contract that are compared
+export type ContractLocation =
+  | 'req_params'
+  | 'req_query'
+  | 'req_headers'
+  | 'req_body_type'
+  | 'req_body_form'
+  | 'req_body'
+  | 'res_body_type'
+  | 'res_body';
+
+export type FieldChangeKind = 'added' | 'removed' | 'type_changed' | 'became_required' | 'became_optional';
+
+export interface FieldChange {
+  location: ContractLocation;
+  // Parameter name, or a path such as "$.data.list[].id" for bodies
+  field: string;
+  change: FieldChangeKind;
+  before?: string;
+  after?: string;
+  breaking: boolean;
+}
+
+export interface InterfaceRef {
+  id: number;
+  method: string;
+  path: string;
+  title: string;
+}
+
+export interface InterfaceContractChange extends InterfaceRef {
+  breaking: boolean;
+  changes: FieldChange[];
+}
+
+export interface SnapshotDiff {
+  base: { label: string; created_at: string };
+  target: { label: string; created_at: string };
+  summary: {
+    added: number;
+    removed: number;
+    changed: number;
+    breaking_changes: number;
+  };
+  added: InterfaceRef[];
+  // Removing an interface is always breaking
+  removed: InterfaceRef[];
+  changed: InterfaceContractChange[];
+}
+
+export interface SnapshotDiffOptions {
+  baseLabel: string;
+  targetLabel: string;
+  /** Drop non-breaking changes (and interfaces that only have those) from the result */
+  breakingOnly?: boolean;
+}
+
+interface FieldShape {
+  type: string;
+  required: boolean;
+}
+
+type Side = 'request' | 'response';
+
+// JSON Schemas from YAPI have no $ref, but guard against pathological nesting anyway
+const MAX_SCHEMA_DEPTH = 32;
+
+function interfaceKey(detail: Pick<YapiInterfaceDetail, 'method' | 'path'>): string {
+  return `${detail.method.toUpperCase()} ${detail.path}`;
+}
+
+function toRef(detail: YapiInterfaceDetail): InterfaceRef {
+  return { id: detail._id, method: detail.method.toUpperCase(), path: detail.path, title: detail.title };
+}
+
+// --- Field Extraction ---
+
+interface ParamRow {
+  name: string;
+  required?: string | null;
+  type?: string | null;
+}
+
+function paramFields(rows: ParamRow[] | undefined, requiredByDefault: boolean, typed: boolean): Map<string, FieldShape> {
+  const fields = new Map<string, FieldShape>();
+  for (const row of rows ?? []) {
+    fields.set(row.name, {
+      type: typed ? (row.type || 'text') : 'string',
+      required: row.required === undefined || row.required === null ? requiredByDefault : row.required === '1',
+    });
+  }
+  return fields;
+}
+
+function schemaType(schema: JsonSchema): string {
+  if (Array.isArray(schema.type)) return [...schema.type].sort().join('|');
+  if (schema.type) return schema.type;
+  if (schema.properties) return 'object';
+  if (schema.items) return 'array';
+  if (schema.oneOf || schema.anyOf) return 'union';
+  return 'any';
+}
+
+function collectSchemaFields(schema: JsonSchema, path: string, required: boolean, fields: Map<string, FieldShape>, depth: number): void {
+  fields.set(path, { type: schemaType(schema), required });
+  if (depth >= MAX_SCHEMA_DEPTH) return;
+  const requiredNames = new Set(schema.required ?? []);
+  for (const [name, child] of Object.entries(schema.properties ?? {})) {
+    collectSchemaFields(child, `${path}.${name}`, requiredNames.has(name), fields, depth + 1);
+  }
+  const items = Array.isArray(schema.items) ? schema.items[0] : schema.items;
+  if (items) {
+    collectSchemaFields(items, `${path}[]`, true, fields, depth + 1);
+  }
+}
+
+/**
+ * Flattens a body (parsed JSON Schema, parsed JSON sample or raw text) into field paths.
+ * Samples carry no required information, so their fields count as optional.
+ */
+function bodyFields(body: unknown, isJsonSchema: boolean | undefined): Map<string, FieldShape> {
+  const fields = new Map<string, FieldShape>();
+  if (body === null || body === undefined || body === '') return fields;
+  if (typeof body === 'string') {
+    fields.set('$', { type: 'string', required: true });
+    return fields;
+  }
+  const schema = isJsonSchema ? body as JsonSchema : inferSchemaFromValue(body);
+  collectSchemaFields(schema, '$', true, fields, 0);
+  if (!isJsonSchema) {
+    for (const shape of fields.values()) shape.required = false;
+  }
+  return fields;
+}
+
+// --- Comparison ---
+
+function isBreaking(side: Side, change: FieldChangeKind, required: boolean): boolean {
+  switch (change) {
+    case 'added':
+      // New response fields are additive; new request fields only break callers when required
+      return side === 'request' && required;
+    case 'removed':
+    case 'type_changed':
+      return true;
+    case 'became_required':
+      return side === 'request';
+    case 'became_optional':
+      // Callers may rely on a response field that can now be missing
+      return side === 'response';
+  }
+}
+
+function isDescendant(field: string, ancestors: string[]): boolean {
+  return ancestors.some(ancestor => field.startsWith(`${ancestor}.`) || field.startsWith(`${ancestor}[]`));
+}
+
+function compareFields(location: ContractLocation, side: Side, before: Map<string, FieldShape>, after: Map<string, FieldShape>): FieldChange[] {
+  const changes: FieldChange[] = [];
+  // Children of an added/removed object are implied by their parent and not reported separately
+  const reported: string[] = [];
+  const push = (field: string, change: FieldChangeKind, required: boolean, beforeValue?: string, afterValue?: string) => {
+    changes.push({ location, field, change, before: beforeValue, after: afterValue, breaking: isBreaking(side, change, required) });
+  };
+
+  for (const [field, shape] of before) {
+    if (isDescendant(field, reported)) continue;
+    const next = after.get(field);
+    if (!next) {
+      push(field, 'removed', shape.required, shape.type);
+      reported.push(field);
+    } else if (next.type !== shape.type) {
+      push(field, 'type_changed', next.required, shape.type, next.type);
+    } else if (next.required !== shape.required) {
+      push(field, next.required ? 'became_required' : 'became_optional', next.required);
+    }
+  }
+  for (const [field, shape] of after) {
+    if (before.has(field) || isDescendant(field, reported)) continue;
+    push(field, 'added', shape.required, undefined, shape.type);
+    reported.push(field);
+  }
+  return changes;
+}
+
+function compareValue(location: ContractLocation, before: string | null | undefined, after: string | null | undefined): FieldChange[] {
+  if ((before ?? '') === (after ?? '')) return [];
+  return [{ location, field: location, change: 'type_changed', before: before ?? undefined, after: after ?? undefined, breaking: true }];
+}
+
+function requestBodyFields(detail: YapiInterfaceDetail): { form: Map<string, FieldShape>; body: Map<string, FieldShape> } {
+  // Same rule as the type generator: form rows only apply to form bodies
+  return detail.req_body_type === 'form'
+    ? { form: paramFields(detail.req_body_form, false, true), body: new Map() }
+    : { form: new Map(), body: bodyFields(detail.req_body_other, detail.req_body_is_json_schema) };
+}
+
+/**
+ * Compares the contract of two versions of the same interface (path params, query, headers,
+ * request body and response body) and flags changes that break existing callers.
+ */
+export function diffInterface(before: YapiInterfaceDetail, after: YapiInterfaceDetail): FieldChange[] {
+  const beforeRequest = requestBodyFields(before);
+  const afterRequest = requestBodyFields(after);
+  return [
+    // Path parameters are always required
+    ...compareFields('req_params', 'request', paramFields(before.req_params, true, false), paramFields(after.req_params, true, false)),
+    ...compareFields('req_query', 'request', paramFields(before.req_query, false, false), paramFields(after.req_query, false, false)),
+    ...compareFields('req_headers', 'request', paramFields(before.req_headers, false, false), paramFields(after.req_headers, false, false)),
+    ...compareValue('req_body_type', before.req_body_type, after.req_body_type),
+    ...compareFields('req_body_form', 'request', beforeRequest.form, afterRequest.form),
+    ...compareFields('req_body', 'request', beforeRequest.body, afterRequest.body),
+    ...compareValue('res_body_type', before.res_body_type, after.res_body_type),
+    ...compareFields('res_body', 'response', bodyFields(before.res_body, before.res_body_is_json_schema), bodyFields(after.res_body, after.res_body_is_json_schema)),
+  ];
+}
+
+function indexByKey(snapshot: ProjectSnapshot): Map<string, YapiInterfaceDetail> {
+  return new Map(Object.values(snapshot.interfaces).map(detail => [interfaceKey(detail), detail]));
+}
+
+/**
+ * Diffs two project snapshots. Interfaces are matched by method + path, so the diff also
+ * works across projects or instances (e.g. staging vs. production) where IDs differ.
+ */
+export function diffSnapshots(base: ProjectSnapshot, target: ProjectSnapshot, options: SnapshotDiffOptions): SnapshotDiff {
+  const baseInterfaces = indexByKey(base);
+  const targetInterfaces = indexByKey(target);
+
+  const added: InterfaceRef[] = [];
+  const removed: InterfaceRef[] = [];
+  const changed: InterfaceContractChange[] = [];
+
+  for (const [key, before] of baseInterfaces) {
+    const after = targetInterfaces.get(key);
+    if (!after) {
+      removed.push(toRef(before));
+      continue;
+    }
+    let changes = diffInterface(before, after);
+    if (options.breakingOnly) changes = changes.filter(change => change.breaking);
+    if (changes.length > 0) {
+      changed.push({ ...toRef(after), breaking: changes.some(change => change.breaking), changes });
+    }
+  }
+  if (!options.breakingOnly) {
+    for (const [key, after] of targetInterfaces) {
+      if (!baseInterfaces.has(key)) added.push(toRef(after));
+    }
+  }
+
+  return {
+    base: { label: options.baseLabel, created_at: base.created_at },
+    target: { label: options.targetLabel, created_at: target.created_at },
+    summary: {
+      added: added.length,
+      removed: removed.length,
+      changed: changed.length,
+      breaking_changes: removed.length + changed.reduce((count, item) => count + item.changes.filter(change => change.breaking).length, 0),
+    },
+    added,
+    removed,
+    changed,
+  };
+}
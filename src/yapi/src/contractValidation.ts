@@ -0,0 +1,278 @@
+import { YapiInterfaceDetail } from './schemas.js';
+import { JsonSchema } from './typescriptGenerator.js';
+
+/**
+ * One mismatch between a payload and the documented contract.
+ * `path` is "$..." inside bodies, or "query.<name>" / "headers.<name>" / "form.<name>" for parameter rows.
+ */
+export interface ContractViolation {
+  path: string;
+  message: string;
+}
+
+// JSON Schemas from YAPI have no $ref, but guard against pathological nesting anyway
+const MAX_SCHEMA_DEPTH = 32;
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  // Every integer is also a number
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+function describe(value: unknown): string {
+  const text = JSON.stringify(value);
+  return text === undefined ? String(value) : text.length > 60 ? `${text.slice(0, 57)}...` : text;
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Validates a value against the JSON Schema subset YAPI's schema editor produces (draft-04 style):
+ * type, required, properties, additionalProperties, items, enum, const, string/number/array bounds,
+ * pattern and oneOf/anyOf/allOf. Unknown keywords are ignored.
+ */
+export function validateAgainstSchema(schema: JsonSchema, value: unknown, path: string = '$', depth: number = 0): ContractViolation[] {
+  if (depth > MAX_SCHEMA_DEPTH) return [];
+  const violations: ContractViolation[] = [];
+  const fail = (message: string) => violations.push({ path, message });
+
+  const types = schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type : [schema.type];
+  if (types.length > 0 && !types.some(type => matchesType(value, type))) {
+    fail(`expected ${types.join(' | ')}, got ${typeOf(value)}`);
+    return violations; // Nested checks would only repeat the type mismatch
+  }
+  if (schema.const !== undefined && !isEqual(schema.const, value)) {
+    fail(`expected constant ${describe(schema.const)}, got ${describe(value)}`);
+  }
+  if (schema.enum && !schema.enum.some(option => isEqual(option, value))) {
+    fail(`expected one of ${schema.enum.map(describe).join(', ')}, got ${describe(value)}`);
+  }
+
+  if (typeof value === 'string') {
+    if (typeof schema.minLength === 'number' && value.length < schema.minLength) fail(`shorter than minLength ${schema.minLength}`);
+    if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) fail(`longer than maxLength ${schema.maxLength}`);
+    if (typeof schema.pattern === 'string') {
+      try {
+        if (!new RegExp(schema.pattern).test(value)) fail(`does not match pattern ${schema.pattern}`);
+      } catch {
+        // Patterns that are not valid JavaScript regular expressions are skipped
+      }
+    }
+  }
+
+  if (typeof value === 'number') {
+    // Draft-04 uses boolean exclusiveMinimum/exclusiveMaximum next to minimum/maximum; later drafts use numbers
+    const { minimum, maximum, exclusiveMinimum, exclusiveMaximum } = schema as Record<string, unknown>;
+    if (typeof minimum === 'number' && (exclusiveMinimum === true ? value <= minimum : value < minimum)) {
+      fail(`must be ${exclusiveMinimum === true ? '>' : '>='} ${minimum}`);
+    }
+    if (typeof maximum === 'number' && (exclusiveMaximum === true ? value >= maximum : value > maximum)) {
+      fail(`must be ${exclusiveMaximum === true ? '<' : '<='} ${maximum}`);
+    }
+    if (typeof exclusiveMinimum === 'number' && value <= exclusiveMinimum) fail(`must be > ${exclusiveMinimum}`);
+    if (typeof exclusiveMaximum === 'number' && value >= exclusiveMaximum) fail(`must be < ${exclusiveMaximum}`);
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) fail(`fewer than minItems ${schema.minItems}`);
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) fail(`more than maxItems ${schema.maxItems}`);
+    if (Array.isArray(schema.items)) {
+      schema.items.forEach((itemSchema, index) => {
+        if (index < value.length) violations.push(...validateAgainstSchema(itemSchema, value[index], `${path}[${index}]`, depth + 1));
+      });
+    } else if (schema.items) {
+      const itemSchema = schema.items;
+      value.forEach((item, index) => violations.push(...validateAgainstSchema(itemSchema, item, `${path}[${index}]`, depth + 1)));
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    const record = value as Record<string, unknown>;
+    for (const name of schema.required ?? []) {
+      if (!Object.hasOwn(record, name) || record[name] === undefined) violations.push({ path: `${path}.${name}`, message: 'required field is missing' });
+    }
+    const properties = schema.properties ?? {};
+    for (const [name, propValue] of Object.entries(record)) {
+      // Own keys only: "constructor" or "toString" must not pick up Object.prototype members
+      if (Object.hasOwn(properties, name)) {
+        violations.push(...validateAgainstSchema(properties[name], propValue, `${path}.${name}`, depth + 1));
+      } else if (schema.additionalProperties === false) {
+        violations.push({ path: `${path}.${name}`, message: 'field is not allowed (additionalProperties is false)' });
+      } else if (typeof schema.additionalProperties === 'object') {
+        violations.push(...validateAgainstSchema(schema.additionalProperties, propValue, `${path}.${name}`, depth + 1));
+      }
+    }
+  }
+
+  for (const subschema of schema.allOf ?? []) {
+    violations.push(...validateAgainstSchema(subschema, value, path, depth + 1));
+  }
+  if (schema.anyOf && !schema.anyOf.some(subschema => validateAgainstSchema(subschema, value, path, depth + 1).length === 0)) {
+    fail('does not match any of the anyOf schemas');
+  }
+  if (schema.oneOf) {
+    const matches = schema.oneOf.filter(subschema => validateAgainstSchema(subschema, value, path, depth + 1).length === 0).length;
+    if (matches !== 1) fail(`matches ${matches} of the oneOf schemas, expected exactly 1`);
+  }
+
+  return violations;
+}
+
+// --- Parameter Rows ---
+
+interface ParamRow {
+  name: string;
+  required?: string | null;
+}
+
+/**
+ * Reports rows flagged required ('1') that have no value. Names are matched case-insensitively
+ * when `caseInsensitive` is set (HTTP headers).
+ */
+export function validateRequiredRows(rows: ParamRow[] | undefined, values: Record<string, unknown>, prefix: string, caseInsensitive: boolean = false): ContractViolation[] {
+  const lookup = caseInsensitive
+    ? new Map(Object.entries(values).map(([name, value]) => [name.toLowerCase(), value]))
+    : new Map(Object.entries(values));
+  return (rows ?? [])
+    .filter(row => row.required === '1')
+    .filter(row => {
+      const value = lookup.get(caseInsensitive ? row.name.toLowerCase() : row.name);
+      return value === undefined || value === null || value === '';
+    })
+    .map(row => ({ path: `${prefix}.${row.name}`, message: 'required parameter is missing' }));
+}
+
+// --- Bodies ---
+
+/**
+ * Derives a lenient schema from a documented JSON sample (YAPI's non-schema mode). Samples do not
+ * say which fields are optional, so only types are checked; Mock.js placeholders ("@guid"),
+ * "name|rule" keys and null values accept anything, and numbers accept any number.
+ */
+function inferSchemaFromSample(sample: unknown): JsonSchema {
+  if (sample === null || (typeof sample === 'string' && sample.startsWith('@'))) return {};
+  if (Array.isArray(sample)) {
+    return sample.length > 0 ? { type: 'array', items: inferSchemaFromSample(sample[0]) } : { type: 'array' };
+  }
+  switch (typeof sample) {
+    case 'object': {
+      const properties: Record<string, JsonSchema> = {};
+      for (const [key, value] of Object.entries(sample as Record<string, unknown>)) {
+        const rule = key.indexOf('|');
+        // A rule may change the value's shape (e.g. "item|1": [a, b] picks one element)
+        properties[rule > 0 ? key.slice(0, rule) : key] = rule > 0 ? {} : inferSchemaFromSample(value);
+      }
+      return { type: 'object', properties };
+    }
+    case 'number':
+      return { type: 'number' };
+    case 'string':
+    case 'boolean':
+      return { type: typeof sample };
+    default:
+      return {};
+  }
+}
+
+/**
+ * Checks a body against a documented body (parsed JSON Schema, JSON sample or raw text).
+ * `notes` collects what could not be checked strictly.
+ */
+function validateBody(documented: unknown, isJsonSchema: boolean | undefined, body: unknown, label: string, notes: string[]): ContractViolation[] {
+  if (documented === null || documented === undefined || documented === '') {
+    notes.push(`No ${label} is documented; the body was not checked.`);
+    return [];
+  }
+  if (typeof documented === 'string') {
+    notes.push(`The ${label} is documented as raw text; the body was not checked.`);
+    return [];
+  }
+  if (typeof body === 'string') {
+    // Payloads copied from logs often arrive as JSON text
+    try {
+      body = JSON.parse(body);
+    } catch {
+      // Validated as a string below, which reports the type mismatch
+    }
+  }
+  if (isJsonSchema) {
+    return validateAgainstSchema(documented as JsonSchema, body);
+  }
+  notes.push(`The ${label} is documented as a JSON sample, not a JSON Schema; only field types were checked.`);
+  return validateAgainstSchema(inferSchemaFromSample(documented), body);
+}
+
+export interface RequestPayload {
+  query?: Record<string, unknown>;
+  headers?: Record<string, unknown>;
+  body?: unknown;
+}
+
+/**
+ * Checks a request against the interface's required query/header/form rows and, for other
+ * body types, the documented `req_body_other` (JSON Schema or sample). Parts of the payload
+ * that are not given (undefined) are skipped and mentioned in `notes`.
+ */
+export function validateRequest(detail: YapiInterfaceDetail, payload: RequestPayload, notes: string[] = []): ContractViolation[] {
+  const violations: ContractViolation[] = [];
+  const sections: Array<[string, ContractViolation[] | undefined]> = [
+    ['query parameters', payload.query && validateRequiredRows(detail.req_query, payload.query, 'query')],
+    ['headers', payload.headers && validateRequiredRows(detail.req_headers, payload.headers, 'headers', true)],
+  ];
+  for (const [label, result] of sections) {
+    if (result) violations.push(...result);
+    else notes.push(`No ${label} given; required ${label} were not checked.`);
+  }
+
+  if (payload.body === undefined) {
+    notes.push('No request body given; the body was not checked.');
+  } else if (detail.req_body_type === 'form') {
+    const form = payload.body !== null && typeof payload.body === 'object' ? payload.body as Record<string, unknown> : {};
+    violations.push(...validateRequiredRows(detail.req_body_form, form, 'form'));
+  } else {
+    violations.push(...validateBody(detail.req_body_other, detail.req_body_is_json_schema, payload.body, 'request body', notes));
+  }
+  return violations;
+}
+
+/**
+ * Checks a response body against the documented `res_body` (JSON Schema or sample).
+ */
+export function validateResponse(detail: YapiInterfaceDetail, body: unknown, notes: string[] = []): ContractViolation[] {
+  return validateBody(detail.res_body, detail.res_body_is_json_schema, body, 'response body', notes);
+}
+
+export interface PayloadValidationResult {
+  interface: { id: number; method: string; path: string; title: string };
+  direction: 'request' | 'response';
+  valid: boolean;
+  violations: ContractViolation[];
+  // What could not be checked strictly (missing parts, samples instead of schemas, raw bodies)
+  notes: string[];
+}
+
+/**
+ * Validates a request (query, headers, body) or response body against an interface's definition.
+ */
+export function validatePayload(detail: YapiInterfaceDetail, direction: 'request' | 'response', payload: RequestPayload): PayloadValidationResult {
+  const notes: string[] = [];
+  const violations = direction === 'request'
+    ? validateRequest(detail, payload, notes)
+    : validateResponse(detail, payload.body, notes);
+  return {
+    interface: { id: detail._id, method: detail.method.toUpperCase(), path: detail.path, title: detail.title },
+    direction,
+    valid: violations.length === 0,
+    violations,
+    notes,
+  };
+}
@@ -0,0 +1,197 @@
+import { readFileSync } from 'node:fs';
+import { basename, extname } from 'node:path';
+import { ZodError } from 'zod';
+import { ProjectSnapshotSchema, YapiCategory, YapiInterfaceListItem, YapiProject } from './schemas.js';
+import { ProjectSnapshot } from './snapshot.js';
+import { ConfigurationError } from './errors.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('Offline');
+
+/**
+ * Where YapiService reads project data from when it is not the YAPI HTTP API. A data source
+ * answers open API paths (`/project/get`, `/interface/list_menu`, ...) with the raw response
+ * envelope `{ errcode, errmsg, data }`; YapiService validates and caches it like an HTTP response,
+ * so every tool works unchanged.
+ */
+export interface YapiDataSource {
+  /** Instance URL the data came from, reported instead of a live base URL */
+  readonly baseUrl: string;
+  /** Where the data is read from, e.g. the export file */
+  readonly location: string;
+  request(apiPath: string, params: Record<string, string | number | undefined> | undefined, method: 'GET' | 'POST'): Promise<unknown>;
+}
+
+// Writes and unknown paths are answered like YAPI answers unsupported requests
+const ERRCODE_NOT_FOUND = 404;
+const ERRCODE_READ_ONLY = 405;
+
+// Interface fields the list endpoints return (the rest is only in /interface/get)
+const LIST_ITEM_FIELDS = ['_id', 'method', 'catid', 'title', 'path', 'project_id', 'uid', 'add_time', 'up_time', 'status', 'tag', 'edit_uid', 'api_opened'];
+
+type RawInterface = Record<string, unknown>;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function ok(data: unknown) {
+  return { errcode: 0, errmsg: '成功！', data };
+}
+
+function listItem(detail: RawInterface): YapiInterfaceListItem {
+  return Object.fromEntries(LIST_ITEM_FIELDS.filter(field => detail[field] !== undefined).map(field => [field, detail[field]])) as YapiInterfaceListItem;
+}
+
+/**
+ * YAPI stores bodies as strings; snapshots keep them parsed, so they are serialized back
+ * before YapiService parses them again.
+ */
+function toRawDetail(detail: RawInterface): RawInterface {
+  const serialize = (value: unknown) => value === null || value === undefined || typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+  return { ...detail, req_body_other: serialize(detail.req_body_other), res_body: serialize(detail.res_body) };
+}
+
+/**
+ * Serves one project from a file: a snapshot written by the `export`/`snapshot` commands, or
+ * YAPI's own JSON export (the "导出数据 → json" download). The project is read-only.
+ */
+export class OfflineDataSource implements YapiDataSource {
+  private readonly details = new Map<number, RawInterface>();
+
+  constructor(
+    readonly baseUrl: string,
+    readonly location: string,
+    private readonly project: YapiProject,
+    private readonly menu: YapiCategory[],
+    details: RawInterface[],
+  ) {
+    for (const detail of details) this.details.set(detail._id as number, toRawDetail(detail));
+    log.info(`Serving project '${project.name}' (${project._id}) from ${location}: ${this.details.size} interfaces`);
+  }
+
+  getProjectId(): number {
+    return this.project._id;
+  }
+
+  async request(apiPath: string, params: Record<string, string | number | undefined> | undefined, method: 'GET' | 'POST'): Promise<unknown> {
+    if (method !== 'GET') {
+      return { errcode: ERRCODE_READ_ONLY, errmsg: `Offline mode: ${apiPath} is not available, the project is served read-only from ${this.location}` };
+    }
+    switch (apiPath) {
+      case '/project/get':
+        return ok(this.project);
+      case '/interface/list_menu':
+        return ok(this.menu);
+      case '/interface/list_cat': {
+        const category = this.menu.find(candidate => candidate._id === Number(params?.catid));
+        const list = category?.list ?? [];
+        const page = Math.max(1, Number(params?.page) || 1);
+        const limit = Math.max(1, Number(params?.limit) || 10);
+        return ok({ count: list.length, total: Math.ceil(list.length / limit), list: list.slice((page - 1) * limit, page * limit) });
+      }
+      case '/interface/get': {
+        const detail = this.details.get(Number(params?.id));
+        return detail
+          ? ok(detail)
+          : { errcode: ERRCODE_NOT_FOUND, errmsg: `Interface ${params?.id} is not in the offline export ${this.location}` };
+      }
+      default:
+        return { errcode: ERRCODE_NOT_FOUND, errmsg: `Offline mode: ${apiPath} is not available` };
+    }
+  }
+}
+
+// --- Loading ---
+
+function fromSnapshot(file: string, snapshot: ProjectSnapshot): OfflineDataSource {
+  return new OfflineDataSource(snapshot.base_url, file, snapshot.project, snapshot.menu, Object.values(snapshot.interfaces));
+}
+
+/**
+ * Converts YAPI's JSON export (an array of categories with full interfaces in `list`). The export
+ * has no project record and, depending on the YAPI version, no IDs; missing IDs are numbered in
+ * file order, so they stay stable as long as the file does not change.
+ */
+function fromYapiExport(file: string, categories: unknown[]): OfflineDataSource {
+  const project: YapiProject = {
+    _id: 0,
+    name: basename(file, extname(file)),
+    basepath: '',
+    uid: 0,
+    group_id: 0,
+    add_time: 0,
+    up_time: 0,
+    env: [],
+  };
+  const menu: YapiCategory[] = [];
+  const details: RawInterface[] = [];
+  let nextInterfaceId = 1;
+  categories.forEach((category, index) => {
+    if (!isObject(category)) {
+      throw new ConfigurationError(`Invalid offline export "${file}": category ${index} is not an object.`);
+    }
+    const catid = typeof category._id === 'number' ? category._id : index + 1;
+    const list = (Array.isArray(category.list) ? category.list : []).map((item: unknown, itemIndex) => {
+      if (!isObject(item)) {
+        throw new ConfigurationError(`Invalid offline export "${file}": interface ${itemIndex} of category ${index} is not an object.`);
+      }
+      const detail: RawInterface = {
+        uid: 0,
+        add_time: 0,
+        up_time: 0,
+        ...item,
+        _id: typeof item._id === 'number' ? item._id : nextInterfaceId++,
+        catid,
+        project_id: project._id,
+      };
+      details.push(detail);
+      return listItem(detail);
+    });
+    menu.push({
+      _id: catid,
+      name: String(category.name ?? `Category ${catid}`),
+      desc: typeof category.desc === 'string' ? category.desc : undefined,
+      project_id: project._id,
+      uid: 0,
+      add_time: typeof category.add_time === 'number' ? category.add_time : 0,
+      up_time: typeof category.up_time === 'number' ? category.up_time : 0,
+      list,
+    });
+  });
+  return new OfflineDataSource('', file, project, menu, details);
+}
+
+/**
+ * Loads an offline export: a snapshot (`export`/`snapshot` command, yapi_create_snapshot) or
+ * YAPI's own JSON export.
+ */
+export function loadOfflineDataSource(file: string): OfflineDataSource {
+  let raw: string;
+  try {
+    raw = readFileSync(file, 'utf8');
+  } catch (error) {
+    throw new ConfigurationError(`Cannot read offline export "${file}": ${error instanceof Error ? error.message : String(error)}`);
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    throw new ConfigurationError(`Invalid offline export "${file}": ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  let source: OfflineDataSource;
+  if (Array.isArray(parsed)) {
+    source = fromYapiExport(file, parsed);
+  } else {
+    try {
+      source = fromSnapshot(file, ProjectSnapshotSchema.parse(parsed) as ProjectSnapshot);
+    } catch (error) {
+      const details = error instanceof ZodError
+        ? error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')
+        : (error instanceof Error ? error.message : String(error));
+      throw new ConfigurationError(`Invalid offline export "${file}": expected a snapshot or a YAPI JSON export (${details})`);
+    }
+  }
+  return source;
+}
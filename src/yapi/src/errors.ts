@@ -1,5 +1,9 @@
 // Custom error class for YAPI specific errors
 export class YapiError extends Error {
+  // Filled in by YapiService.request once retries are exhausted
+  public attempts?: number;
+  public elapsedMs?: number;
+
   constructor(message: string, public readonly errcode?: number, public readonly status?: number, public readonly responseBody?: any) {
     super(message);
     this.name = 'YapiError';
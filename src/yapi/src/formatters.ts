@@ -0,0 +1,402 @@
+import { OutputFormat, YapiCategory, YapiInterfaceDetail, YapiInterfaceListItem, YapiProject } from './schemas.js';
+import { JsonSchema } from './typescriptGenerator.js';
+import { InterfaceSearchResult } from './interfaceSearch.js';
+import { ProjectSummary } from './projectRegistry.js';
+import { SnapshotDiff } from './contractDiff.js';
+import { PayloadValidationResult } from './contractValidation.js';
+import { CallInterfaceResult } from './interfaceCaller.js';
+import { RequestSnippetResult } from './requestSnippets.js';
+import { OpenApiImportResult } from './openapiImport.js';
+import { InterfaceBatchResult } from './interfaceBatch.js';
+import { RecentChangesResult } from './changeFeed.js';
+
+// --- Compact ---
+
+// Bookkeeping fields of YAPI records that carry no meaning for API consumers
+const INTERNAL_FIELDS = new Set([
+  'uid', 'edit_uid', 'add_time', 'up_time', 'username', '__v', 'index', 'query_path', 'api_opened',
+  'switch_notice', 'is_mock_open', 'strice', 'is_json5', 'icon', 'color', 'role', 'group_id',
+  'project_type',
+]);
+
+// Documented bodies are user content: their field names must survive even if they look internal
+const BODY_FIELDS = new Set(['req_body_other', 'res_body']);
+
+// Tools returning YAPI records; other results (OpenAPI documents, diffs, ...) are only minified
+const YAPI_RECORD_TOOLS = new Set([
+  'yapi_get_interface_details', 'yapi_get_interfaces_batch', 'yapi_list_interfaces_by_category', 'yapi_get_project_interface_menu',
+  'yapi_get_project_info', 'yapi_add_category', 'yapi_save_interface', 'yapi_update_interface',
+]);
+
+/**
+ * Drops internal fields, sub-document ObjectIds (string `_id`s of parameter rows) and empty values.
+ * Numeric `_id`s are kept: they are the interface/category/project IDs other tools need.
+ */
+export function compactValue(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(compactValue);
+  if (value === null || typeof value !== 'object') return value;
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    if (INTERNAL_FIELDS.has(key) || (key === '_id' && typeof item === 'string')) continue;
+    if (item === null || item === undefined || item === '' || (Array.isArray(item) && item.length === 0)) continue;
+    result[key] = BODY_FIELDS.has(key) ? item : compactValue(item);
+  }
+  return result;
+}
+
+// --- Markdown Helpers ---
+
+function escapeCell(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '';
+  return String(value).replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+}
+
+function table(headers: string[], rows: unknown[][]): string {
+  return [
+    `| ${headers.join(' | ')} |`,
+    `| ${headers.map(() => '---').join(' | ')} |`,
+    ...rows.map(row => `| ${row.map(escapeCell).join(' | ')} |`),
+  ].join('\n');
+}
+
+function codeBlock(content: string, language: string = ''): string {
+  const fence = content.includes('```') ? '````' : '```';
+  return `${fence}${language}\n${content}\n${fence}`;
+}
+
+function stripHtml(html: string): string {
+  return html.replace(/<[^>]*>/g, ' ').replace(/&nbsp;/g, ' ').replace(/[ \t]+/g, ' ').trim();
+}
+
+function formatTime(seconds: number | undefined): string {
+  return seconds ? new Date(seconds * 1000).toISOString().replace('T', ' ').slice(0, 19) : '';
+}
+
+function yesNo(required: string | null | undefined): string {
+  return required === '1' ? 'yes' : 'no';
+}
+
+function schemaTypeLabel(schema: JsonSchema): string {
+  const type = Array.isArray(schema.type) ? schema.type.join(' | ') : schema.type;
+  if (type === 'array' || (!type && schema.items)) {
+    const items = Array.isArray(schema.items) ? schema.items[0] : schema.items;
+    return `array<${items ? schemaTypeLabel(items) : 'any'}>`;
+  }
+  if (type) return type;
+  if (schema.properties) return 'object';
+  if (schema.oneOf || schema.anyOf) return (schema.oneOf ?? schema.anyOf)!.map(schemaTypeLabel).join(' | ');
+  return 'any';
+}
+
+/**
+ * Renders a JSON Schema as a nested bullet list: `name` type (required) — description.
+ */
+function schemaTree(schema: JsonSchema, indent: string = '', depth: number = 0): string[] {
+  if (depth > 16) return [];
+  const lines: string[] = [];
+  const requiredNames = new Set(schema.required ?? []);
+  for (const [name, child] of Object.entries(schema.properties ?? {})) {
+    const details = [
+      child.enum ? `enum: ${child.enum.map(value => JSON.stringify(value)).join(', ')}` : '',
+      child.description || child.title || '',
+    ].filter(Boolean).join('; ');
+    lines.push(`${indent}- \`${name}\` ${schemaTypeLabel(child)}${requiredNames.has(name) ? ' *(required)*' : ''}${details ? ` — ${details}` : ''}`);
+    lines.push(...schemaTree(child, `${indent}  `, depth + 1));
+  }
+  const items = Array.isArray(schema.items) ? schema.items[0] : schema.items;
+  if (items) lines.push(...schemaTree(items, indent, depth + 1));
+  return lines;
+}
+
+function bodySection(title: string, body: unknown, isJsonSchema: boolean | undefined): string[] {
+  if (body === null || body === undefined || body === '') return [];
+  if (typeof body === 'string') return [`### ${title}`, codeBlock(body)];
+  if (isJsonSchema) {
+    const schema = body as JsonSchema;
+    const tree = schemaTree(schema);
+    return [`### ${title}`, `Type: ${schemaTypeLabel(schema)}`, ...(tree.length > 0 ? [tree.join('\n')] : [])];
+  }
+  return [`### ${title} (sample)`, codeBlock(JSON.stringify(body, null, 2), 'json')];
+}
+
+// --- Markdown Renderers ---
+
+function interfaceDetailsMarkdown(detail: YapiInterfaceDetail): string {
+  const sections: string[] = [
+    `## ${detail.method.toUpperCase()} ${detail.path} — ${detail.title}`,
+    [
+      `- ID: ${detail._id}`,
+      `- Category ID: ${detail.catid}`,
+      detail.status ? `- Status: ${detail.status}` : '',
+      detail.tag && detail.tag.length > 0 ? `- Tags: ${detail.tag.join(', ')}` : '',
+      detail.up_time ? `- Updated: ${formatTime(detail.up_time)}` : '',
+    ].filter(Boolean).join('\n'),
+  ];
+  const description = detail.markdown || (detail.desc ? stripHtml(detail.desc) : '');
+  if (description) sections.push(description);
+
+  if (detail.req_params && detail.req_params.length > 0) {
+    sections.push('### Path Parameters', table(['Name', 'Example', 'Description'],
+      detail.req_params.map(param => [param.name, param.example, param.desc])));
+  }
+  if (detail.req_query && detail.req_query.length > 0) {
+    sections.push('### Query Parameters', table(['Name', 'Required', 'Example', 'Description'],
+      detail.req_query.map(param => [param.name, yesNo(param.required), param.example, param.desc])));
+  }
+  if (detail.req_headers && detail.req_headers.length > 0) {
+    sections.push('### Headers', table(['Name', 'Required', 'Value', 'Description'],
+      detail.req_headers.map(header => [header.name, yesNo(header.required), header.value || header.example, header.desc])));
+  }
+  if (detail.req_body_type === 'form' && detail.req_body_form && detail.req_body_form.length > 0) {
+    sections.push('### Request Body (form)', table(['Name', 'Type', 'Required', 'Example', 'Description'],
+      detail.req_body_form.map(field => [field.name, field.type, yesNo(field.required), field.example, field.desc])));
+  } else {
+    sections.push(...bodySection(`Request Body${detail.req_body_type ? ` (${detail.req_body_type})` : ''}`, detail.req_body_other, detail.req_body_is_json_schema));
+  }
+  sections.push(...bodySection(`Response Body${detail.res_body_type ? ` (${detail.res_body_type})` : ''}`, detail.res_body, detail.res_body_is_json_schema));
+  return sections.join('\n\n') + '\n';
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+function interfaceLine(item: YapiInterfaceListItem): string {
+  return `\`${item.method.toUpperCase()} ${item.path}\` ${item.title} (#${item._id}${item.status ? `, ${item.status}` : ''})`;
+}
+
+function menuMarkdown(menu: YapiCategory[]): string {
+  const total = menu.reduce((count, category) => count + (category.list?.length ?? 0), 0);
+  const lines = [`# Interface Menu (${menu.length === 1 ? '1 category' : `${menu.length} categories`}, ${plural(total, 'interface')})`, ''];
+  for (const category of menu) {
+    lines.push(`- **${category.name}** (category ${category._id}, ${plural(category.list?.length ?? 0, 'interface')})${category.desc ? ` — ${category.desc}` : ''}`);
+    for (const item of category.list ?? []) lines.push(`  - ${interfaceLine(item)}`);
+  }
+  return lines.join('\n') + '\n';
+}
+
+function categoryListMarkdown(data: { count?: number; total: number; list: YapiInterfaceListItem[]; matched?: number }): string {
+  const heading = data.matched !== undefined
+    ? `# Interfaces (${data.matched} matching of ${data.count ?? data.total} in category)`
+    : `# Interfaces (${data.list.length} shown, ${data.count ?? data.total} total)`;
+  return [heading, '', ...data.list.map(item => `- ${interfaceLine(item)}`)].join('\n') + '\n';
+}
+
+function projectMarkdown(project: YapiProject): string {
+  const sections = [
+    `# ${project.name} (project ${project._id})`,
+    [project.desc ? project.desc : '', `- Basepath: ${project.basepath || '/'}`].filter(Boolean).join('\n\n'),
+  ];
+  if (project.env && project.env.length > 0) {
+    sections.push('## Environments', table(['Name', 'Domain'], project.env.map(env => [env.name, env.domain])));
+  }
+  return sections.join('\n\n') + '\n';
+}
+
+function projectsMarkdown(projects: ProjectSummary[]): string {
+  return table(['Alias', 'Project ID', 'Base URL', 'Default', 'Description', 'Offline File'],
+    projects.map(project => [project.alias, project.projectId, project.baseUrl, project.isDefault ? 'yes' : '', project.description, project.offlineFile])) + '\n';
+}
+
+function searchMarkdown(result: InterfaceSearchResult): string {
+  return [
+    `# ${result.hits.length} of ${result.total} matching interfaces`,
+    '',
+    table(['ID', 'Method', 'Path', 'Title', 'Category', 'Status', 'Score'],
+      result.hits.map(hit => [hit.id, hit.method, hit.path, hit.title, hit.category, hit.status, hit.score])),
+  ].join('\n') + '\n';
+}
+
+function snapshotDiffMarkdown(diff: SnapshotDiff): string {
+  const { summary } = diff;
+  const sections = [
+    `# Contract diff: ${diff.base.label} → ${diff.target.label}`,
+    `${summary.added} added, ${summary.removed} removed, ${summary.changed} changed interfaces; **${summary.breaking_changes} breaking changes**`,
+  ];
+  if (diff.added.length > 0) {
+    sections.push('## Added', diff.added.map(ref => `- \`${ref.method} ${ref.path}\` ${ref.title} (#${ref.id})`).join('\n'));
+  }
+  if (diff.removed.length > 0) {
+    sections.push('## Removed (breaking)', diff.removed.map(ref => `- \`${ref.method} ${ref.path}\` ${ref.title} (#${ref.id})`).join('\n'));
+  }
+  if (diff.changed.length > 0) {
+    sections.push('## Changed');
+    for (const item of diff.changed) {
+      sections.push(
+        `### \`${item.method} ${item.path}\` ${item.title} (#${item.id})${item.breaking ? ' — breaking' : ''}`,
+        table(['Location', 'Field', 'Change', 'Before', 'After', 'Breaking'],
+          item.changes.map(change => [change.location, change.field, change.change, change.before, change.after, change.breaking ? 'yes' : ''])),
+      );
+    }
+  }
+  return sections.join('\n\n') + '\n';
+}
+
+function validationMarkdown(result: PayloadValidationResult): string {
+  const sections = [
+    `# ${result.valid ? 'Valid' : 'Invalid'} ${result.direction} for \`${result.interface.method} ${result.interface.path}\` (#${result.interface.id})`,
+  ];
+  if (result.violations.length > 0) {
+    sections.push(table(['Path', 'Violation'], result.violations.map(violation => [violation.path, violation.message])));
+  }
+  if (result.notes.length > 0) {
+    sections.push(result.notes.map(note => `> ${note}`).join('\n'));
+  }
+  return sections.join('\n\n') + '\n';
+}
+
+function callResultMarkdown(result: CallInterfaceResult): string {
+  const sections = [
+    `# ${result.request.method} ${result.request.url} → ${result.status} ${result.status_text} (${result.elapsed_ms}ms)`,
+    '## Response Headers',
+    table(['Name', 'Value'], Object.entries(result.headers)),
+    `## Response Body${result.body_truncated ? ' (truncated)' : ''}`,
+    typeof result.body === 'string' ? codeBlock(result.body) : codeBlock(JSON.stringify(result.body, null, 2), 'json'),
+  ];
+  if (result.validation) sections.push(validationMarkdown(result.validation).replace(/^# /, '## ').trimEnd());
+  if (result.validation_skipped) sections.push(`> Validation skipped: ${result.validation_skipped}`);
+  return sections.join('\n\n') + '\n';
+}
+
+const SNIPPET_FENCES: Record<string, string> = { curl: 'bash', fetch: 'js', axios: 'js', python: 'python' };
+
+function snippetsMarkdown(result: RequestSnippetResult): string {
+  const sections = [`# ${result.method} ${result.url}`];
+  for (const [language, code] of Object.entries(result.snippets)) {
+    sections.push(`## ${language}`, codeBlock(code ?? '', SNIPPET_FENCES[language]));
+  }
+  if (result.notes.length > 0) {
+    sections.push(result.notes.map(note => `> ${note}`).join('\n'));
+  }
+  return sections.join('\n\n') + '\n';
+}
+
+function importMarkdown(result: OpenApiImportResult): string {
+  const { summary } = result;
+  const sections = [
+    `# ${result.dry_run ? 'Import preview' : 'Import'} of ${result.source.title ?? result.source.file} (${result.source.spec}, strategy: ${result.strategy})`,
+    `${summary.operations} operations: ${summary.created} ${result.dry_run ? 'to create' : 'created'}, ${summary.updated} ${result.dry_run ? 'to update' : 'updated'}, ${summary.skipped} skipped, ${summary.failed} failed.`,
+  ];
+  if (result.categories_created.length > 0) {
+    sections.push(`${result.dry_run ? 'New categories' : 'Created categories'}: ${result.categories_created.join(', ')}`);
+  }
+  sections.push(table(
+    ['Action', 'Method', 'Path', 'Title', 'Category', 'Changes'],
+    result.interfaces.map(item => [
+      item.error ? `${item.action} (failed: ${item.error})` : item.action,
+      item.method,
+      item.path,
+      item.title,
+      item.category,
+      item.changes ? `${item.changes.length} (${item.changes.filter(change => change.breaking).length} breaking)` : '',
+    ]),
+  ));
+  if (result.warnings.length > 0) {
+    sections.push(result.warnings.map(warning => `> ${warning}`).join('\n'));
+  }
+  return sections.join('\n\n') + '\n';
+}
+
+function batchMarkdown(result: InterfaceBatchResult): string {
+  const { summary } = result;
+  const sections = [
+    `# ${plural(summary.requested, 'interface')}${result.category_id !== undefined ? ` (category ${result.category_id})` : ''}: ${summary.succeeded} succeeded, ${summary.failed} failed`,
+  ];
+  for (const item of result.results) {
+    if (!item.ok) {
+      const codes = [item.error.errcode !== undefined ? `YAPI code ${item.error.errcode}` : '', item.error.status ? `HTTP ${item.error.status}` : ''].filter(Boolean);
+      sections.push(`## Interface ${item.interface_id} — failed`, `${item.error.message}${codes.length > 0 ? ` (${codes.join(', ')})` : ''}`);
+    } else if (result.fields) {
+      // Projected details lack the fields the full outline needs
+      sections.push(`## Interface ${item.interface_id}`, codeBlock(JSON.stringify(compactValue(item.data), null, 2), 'json'));
+    } else {
+      sections.push(interfaceDetailsMarkdown(item.data as YapiInterfaceDetail).trimEnd());
+    }
+  }
+  return sections.join('\n\n') + '\n';
+}
+
+function recentChangesMarkdown(result: RecentChangesResult): string {
+  const heading = `# ${plural(result.total, 'interface')} changed since ${result.since.replace('T', ' ').slice(0, 19)} UTC`;
+  if (result.changes.length === 0) return heading + '\n';
+  const sections = [
+    heading,
+    table(['Change', 'Updated (UTC)', 'Method', 'Path', 'Title', 'Category', 'Status', 'Author UID', 'ID'],
+      result.changes.map(change => [
+        change.change,
+        change.updated_at.replace('T', ' ').slice(0, 19),
+        change.method.toUpperCase(),
+        change.path,
+        change.title,
+        change.category,
+        change.status,
+        change.author_uid,
+        change.id,
+      ])),
+  ];
+  if (result.changes.length < result.total) {
+    sections.push(`Showing the ${result.changes.length} most recent changes.`);
+  }
+  return sections.join('\n\n') + '\n';
+}
+
+// Result type of every tool with a Markdown renderer
+interface MarkdownToolResults {
+  yapi_get_interface_details: YapiInterfaceDetail;
+  yapi_get_interfaces_batch: InterfaceBatchResult;
+  yapi_get_project_interface_menu: YapiCategory[];
+  yapi_list_interfaces_by_category: Parameters<typeof categoryListMarkdown>[0];
+  yapi_get_project_info: YapiProject;
+  yapi_list_projects: ProjectSummary[];
+  yapi_search_interfaces: InterfaceSearchResult;
+  yapi_recent_changes: RecentChangesResult;
+  yapi_diff_snapshot: SnapshotDiff;
+  yapi_validate_payload: PayloadValidationResult;
+  yapi_call_interface: CallInterfaceResult;
+  yapi_generate_request_snippet: RequestSnippetResult;
+  yapi_import_openapi: OpenApiImportResult;
+}
+
+type MarkdownTool = keyof MarkdownToolResults;
+
+const MARKDOWN_RENDERERS: { [Tool in MarkdownTool]: (data: MarkdownToolResults[Tool]) => string } = {
+  yapi_get_interface_details: interfaceDetailsMarkdown,
+  yapi_get_interfaces_batch: batchMarkdown,
+  yapi_get_project_interface_menu: menuMarkdown,
+  yapi_list_interfaces_by_category: categoryListMarkdown,
+  yapi_get_project_info: projectMarkdown,
+  yapi_list_projects: projectsMarkdown,
+  yapi_search_interfaces: searchMarkdown,
+  yapi_recent_changes: recentChangesMarkdown,
+  yapi_diff_snapshot: snapshotDiffMarkdown,
+  yapi_validate_payload: validationMarkdown,
+  yapi_call_interface: callResultMarkdown,
+  yapi_generate_request_snippet: snippetsMarkdown,
+  yapi_import_openapi: importMarkdown,
+};
+
+function hasMarkdownRenderer(tool: string): tool is MarkdownTool {
+  return Object.hasOwn(MARKDOWN_RENDERERS, tool);
+}
+
+/**
+ * Serializes a tool result. `json` is the raw data; `compact` strips internal fields of YAPI
+ * records and all whitespace; `markdown` renders tables/outlines for the tools that have a
+ * renderer and falls back to a JSON code block for the others.
+ */
+export function formatToolResult(tool: string, data: unknown, format: OutputFormat): string {
+  switch (format) {
+    case 'compact':
+      return JSON.stringify(YAPI_RECORD_TOOLS.has(tool) ? compactValue(data) : data);
+    case 'markdown': {
+      if (hasMarkdownRenderer(tool)) {
+        // The call handler passes the result of the tool named `tool`, which is what its renderer takes
+        const render = MARKDOWN_RENDERERS[tool] as (result: unknown) => string;
+        return render(data);
+      }
+      return codeBlock(JSON.stringify(YAPI_RECORD_TOOLS.has(tool) ? compactValue(data) : data, null, 2), 'json') + '\n';
+    }
+    default:
+      return JSON.stringify(data, null, 2);
+  }
+}
@@ -1,12 +1,25 @@
 #!/usr/bin/env node
 
 import { parseArgs } from 'node:util';
-import http from 'http'; // For Streamable HTTP server instance type
+import { writeFile } from 'node:fs/promises';
+import { Server as McpServer } from "@modelcontextprotocol/sdk/server/index.js";
 import { YapiService } from './yapiService.js';
+import { YapiProjectRegistry, loadProjectRegistry } from './projectRegistry.js';
 import { createMcpServer } from './mcp_server.js';
+import { ChangeWatcher } from './changeFeed.js';
+import { loadFilesDir } from './toolFiles.js';
+import { parseAllowedDomains } from './interfaceCaller.js';
 import { runStdioServer } from './transports/stdio.js';
-import { runStreamableHttpServer } from './transports/streamableHttp.js'; // Import the new transport runner
+import { runStreamableHttpServer, StreamableHttpServer, StreamableHttpOptions, SessionTokenMode } from './transports/streamableHttp.js'; // Import the new transport runner
 import { ConfigurationError } from './errors.js';
+import { buildOpenApiDocument } from './openapi.js';
+import { importOpenApi, ImportStrategy } from './openapiImport.js';
+import { createSnapshot } from './snapshot.js';
+import { runMockServer } from './mockServer.js';
+import { createCacheStore, parseCacheTtls } from './cache.js';
+import { RequestLimiter } from './concurrency.js';
+import { loadHttpAuthConfig } from './transports/httpAuth.js';
+import { configureLogger, createLogger } from './logger.js';
 
 // --- Argument Parsing Setup ---
 const optionsDefinition = {
@@ -20,6 +33,44 @@ const optionsDefinition = {
     short: 'p',
     description: "Port for Streamable HTTP transport.",
   },
+  config: {
+    type: 'string' as const,
+    short: 'c',
+    description: "Path to a JSON file mapping project aliases to tokens.",
+  },
+  offline: {
+    type: 'string' as const,
+    description: "Serve the project from an export file instead of YAPI.",
+  },
+  project: {
+    type: 'string' as const,
+    description: "Project alias or ID used by one-shot commands.",
+  },
+  output: {
+    type: 'string' as const,
+    short: 'o',
+    description: "Output file for one-shot commands (default: stdout).",
+  },
+  strategy: {
+    type: 'string' as const,
+    description: "How import-openapi handles existing interfaces: skip, overwrite or merge.",
+  },
+  'dry-run': {
+    type: 'boolean' as const,
+    description: "Preview import-openapi without writing to YAPI.",
+  },
+  category: {
+    type: 'string' as const,
+    description: "Category ID for interfaces created by import-openapi.",
+  },
+  'log-level': {
+    type: 'string' as const,
+    description: "Minimum log level: debug, info, notice, warning, error.",
+  },
+  'log-format': {
+    type: 'string' as const,
+    description: "Log output format: 'text' or 'json'.",
+  },
   help: {
     type: 'boolean' as const,
     short: 'h',
@@ -31,18 +82,82 @@ function printUsage() {
     // Use console.error for usage/help output as it's not protocol data
     console.error(`
 Usage: mcp-server-yapi [options]
+       mcp-server-yapi <command> [options]
+
+Commands:
+  openapi                 Export the whole project as an OpenAPI 3.1 document and exit.
+  snapshot                Save a snapshot of the project (menu and all interface details) as JSON
+                          and exit; compare snapshots with the yapi_diff_snapshot tool.
+  export                  Same as snapshot; the file can be served with --offline.
+  mock                    Serve mock responses for every interface of the project on --port,
+                          generated from the response definitions (runs until stopped).
+  import-openapi <file>   Import an OpenAPI 3.x / Swagger 2.0 file (JSON or YAML) into the project
+                          and print the import report.
 
 Options:
   -t, --transport <mode>  Transport mode: 'stdio' or 'streamable-http'.
                           (Default: 'streamable-http' if PORT env var is set or no transport specified, 'stdio' otherwise in specific scenarios if needed)
   -p, --port <number>     Port for Streamable HTTP transport.
                           (Default: PORT env var or 3000)
+  -c, --config <file>     JSON file mapping project aliases to tokens (multi-project mode).
+                          (Default: YAPI_CONFIG_FILE env var)
+  --offline <file>        Serve the project read-only from an export (export/snapshot command or YAPI's
+                          JSON export) instead of YAPI; no YAPI_BASE_URL or token is needed.
+                          (Default: YAPI_OFFLINE_FILE env var)
+  --project <alias|id>    Project used by one-shot commands (Default: the default project)
+  -o, --output <file>     Output file for one-shot commands (Default: stdout)
+  --strategy <strategy>   import-openapi: 'skip', 'overwrite' or 'merge' existing interfaces (Default: skip)
+  --dry-run               import-openapi: only report what would be created or updated
+  --category <id>         import-openapi: put new interfaces into this category instead of one per tag
+  --log-level <level>     Minimum log level: debug, info, notice, warning, error (Default: MCP_LOG_LEVEL or 'info')
+  --log-format <format>   Log format on stderr: 'text' or 'json' (Default: MCP_LOG_FORMAT or 'text')
   -h, --help              Show this help message
 
 Environment Variables:
   YAPI_BASE_URL           (Required) Base URL of the YAPI instance (e.g., http://yapi.example.com, without /api)
-  YAPI_PROJECT_TOKEN      (Required) Project token for YAPI API access
-  PORT                    (Optional) Default port for Streamable HTTP transport if --port is not set.
+                          May be omitted if every project in the config file sets its own baseUrl,
+                          and in offline mode.
+  YAPI_PROJECT_TOKEN      Project token for YAPI API access (registered as project 'default').
+                          Required unless YAPI_PROJECTS or a config file is given.
+  YAPI_PROJECTS           (Optional) Additional projects as "alias:token,alias2:token2".
+  YAPI_CONFIG_FILE        (Optional) Same as --config.
+  YAPI_OFFLINE_FILE       (Optional) Same as --offline; replaces YAPI_PROJECT_TOKEN as project 'default'.
+  YAPI_DEFAULT_PROJECT    (Optional) Alias of the project used when a tool call omits 'project'.
+  YAPI_CACHE              (Optional) Response cache: 'memory' (default), 'file' or 'off'.
+  YAPI_CACHE_FILE         (Optional) Cache file path, required when YAPI_CACHE is 'file'.
+  YAPI_CACHE_MAX_ENTRIES  (Optional) Maximum number of cached responses (Default: 1000).
+  YAPI_CACHE_TTLS         (Optional) Per-endpoint TTL overrides in seconds, e.g. "/interface/get=7200,/interface/list_menu=60".
+  YAPI_TIMEOUT_MS         (Optional) Timeout per YAPI request attempt in ms (Default: 30000).
+  YAPI_RETRIES            (Optional) Retries for GET requests failing with 5xx/429 or network errors (Default: 2).
+  YAPI_RETRY_BASE_DELAY_MS (Optional) Backoff before the first retry in ms, doubled per retry (Default: 500).
+  YAPI_MAX_CONCURRENT_REQUESTS (Optional) Maximum YAPI requests in flight (Default: 8).
+  YAPI_MAX_REQUESTS_PER_SECOND (Optional) Maximum YAPI requests started per second (Default: 0, unlimited).
+  YAPI_CHANGE_POLL_INTERVAL_MS (Optional) How often the project menus are polled for changes while a client is
+                          subscribed to a resource, 0 to disable subscriptions (Default: 60000).
+  YAPI_FILES_DIR          (Optional) Directory the snapshot and OpenAPI import tools use; tool paths must be relative
+                          to it. (Default: the working directory in stdio mode; file tools are disabled over HTTP)
+  YAPI_CALL_ALLOWED_DOMAINS (Optional) Comma-separated origins yapi_call_interface may target through 'domain'
+                          besides the project env domains, or '*' for any. (Default: '*' in stdio mode, none over HTTP)
+  MCP_AUTH_API_KEYS       (Optional) Comma-separated API keys accepted by the HTTP transport
+                          (sent as "Authorization: Bearer <key>" or "X-API-Key: <key>").
+  MCP_AUTH_API_KEYS_FILE  (Optional) File with one accepted API key per line.
+  MCP_AUTH_JWKS_FILE      (Optional) Static JWKS file; enables verification of JWT bearer tokens.
+  MCP_AUTH_JWT_ISSUER     (Optional) Required 'iss' claim of JWT bearer tokens.
+  MCP_AUTH_JWT_AUDIENCE   (Optional) Required 'aud' claim of JWT bearer tokens.
+  MCP_AUTH_REQUIRED_SCOPES (Optional) Scopes every JWT must carry, space- or comma-separated.
+  MCP_AUTH_JWT_ALLOW_NO_EXP (Optional) 'true' accepts JWTs without an 'exp' claim (Default: rejected).
+  MCP_CORS_ORIGINS        (Optional) Comma-separated allowed CORS origins (Default: '*').
+  MCP_SESSION_YAPI_TOKENS (Optional) Per-session YAPI tokens sent as "X-Yapi-Token" when initializing an
+                          HTTP session: 'off', 'optional' (Default) or 'required'.
+  MCP_MAX_SESSIONS        (Optional) Maximum concurrent HTTP sessions, 0 for unlimited (Default: 100).
+  MCP_SESSION_IDLE_TIMEOUT_MS (Optional) Close HTTP sessions idle for this long, 0 to disable (Default: 1800000).
+  MCP_EVENT_STORE_MAX_EVENTS (Optional) Events kept per session for Last-Event-ID resumption, 0 to disable (Default: 1000).
+  MCP_ADMIN_API_KEYS      (Optional) Comma-separated API keys enabling the /admin/sessions endpoint.
+  YAPI_MOCK_VALIDATE      (Optional) 'false' lets the mock command answer requests that do not match the
+                          documented query/headers/body instead of rejecting them with 400 (Default: 'true').
+  MCP_LOG_LEVEL           (Optional) Same as --log-level.
+  MCP_LOG_FORMAT          (Optional) Same as --log-format.
+  PORT                    (Optional) Default port for Streamable HTTP transport and the mock command if --port is not set.
                           If PORT is set and --transport is not, defaults to 'streamable-http'.
 `);
 }
@@ -58,7 +173,7 @@ let parsedArgs;
 try {
   parsedArgs = parseArgs({
     options: optionsDefinition,
-    allowPositionals: false, // No positional arguments expected
+    allowPositionals: true, // Optional one-shot command (e.g. 'openapi')
     strict: true // Throw on unknown args
   });
 } catch (e) {
@@ -67,38 +182,193 @@ try {
   process.exit(1);
 }
 
-const { values: args } = parsedArgs;
+const { values: args, positionals } = parsedArgs;
+const command = positionals[0];
 
 if (args.help) {
   printUsage();
   process.exit(0);
 }
 
+try {
+  configureLogger({
+    level: args['log-level'] || process.env.MCP_LOG_LEVEL,
+    format: args['log-format'] || process.env.MCP_LOG_FORMAT,
+  });
+} catch (e) {
+  console.error(`Configuration Error: ${e instanceof Error ? e.message : String(e)}\n`);
+  printUsage();
+  process.exit(1);
+}
+const log = createLogger('Main');
+
 // --- Configuration ---
 const YAPI_BASE_URL = process.env.YAPI_BASE_URL;
 const YAPI_PROJECT_TOKEN = process.env.YAPI_PROJECT_TOKEN;
+const YAPI_PROJECTS = process.env.YAPI_PROJECTS;
+const YAPI_CONFIG_FILE = args.config || process.env.YAPI_CONFIG_FILE;
+const YAPI_OFFLINE_FILE = args.offline || process.env.YAPI_OFFLINE_FILE;
+const YAPI_DEFAULT_PROJECT = process.env.YAPI_DEFAULT_PROJECT;
 const transportMode = (args.transport || defaultTransport).toLowerCase();
 const httpPortString = args.port || defaultPort;
 const httpPort = parseInt(httpPortString, 10);
 
+// --- One-shot Commands ---
+/**
+ * Writes command output to the --output file, or stdout when none is given.
+ */
+async function writeOutput(content: string): Promise<void> {
+  if (args.output) {
+    await writeFile(args.output, content, 'utf8');
+    log.info(`Output written to ${args.output}`);
+  } else {
+    process.stdout.write(content);
+  }
+}
+
+async function runCommand(projects: YapiProjectRegistry, name: string): Promise<void> {
+  const yapiService: YapiService = projects.get(args.project);
+  switch (name) {
+    case 'openapi': {
+      const document = await buildOpenApiDocument(yapiService);
+      await writeOutput(JSON.stringify(document, null, 2) + '\n');
+      break;
+    }
+    case 'snapshot':
+    case 'export': {
+      const snapshot = await createSnapshot(yapiService);
+      await writeOutput(JSON.stringify(snapshot, null, 2) + '\n');
+      break;
+    }
+    case 'import-openapi': {
+      const file = positionals[1];
+      if (!file) {
+        throw new ConfigurationError("Missing file: usage is 'import-openapi <file>'.");
+      }
+      const strategy = (args.strategy || 'skip').toLowerCase();
+      if (!['skip', 'overwrite', 'merge'].includes(strategy)) {
+        throw new ConfigurationError(`Invalid strategy: '${args.strategy}'. Must be 'skip', 'overwrite' or 'merge'.`);
+      }
+      const categoryId = args.category === undefined ? undefined : Number(args.category);
+      if (categoryId !== undefined && (!Number.isInteger(categoryId) || categoryId <= 0)) {
+        throw new ConfigurationError(`Invalid category ID: '${args.category}'.`);
+      }
+      const result = await importOpenApi(yapiService, file, {
+        strategy: strategy as ImportStrategy,
+        dryRun: args['dry-run'],
+        categoryId,
+      });
+      await writeOutput(JSON.stringify(result, null, 2) + '\n');
+      break;
+    }
+    case 'mock': {
+      if (isNaN(httpPort) || httpPort <= 0 || httpPort > 65535) {
+        throw new ConfigurationError(`Invalid port number: '${httpPortString}'. Port must be between 1 and 65535.`);
+      }
+      const server = await runMockServer(yapiService, httpPort, {
+        validateRequests: (process.env.YAPI_MOCK_VALIDATE || 'true').toLowerCase() !== 'false',
+      });
+      // Runs until interrupted
+      await new Promise<void>(resolve => {
+        const stop = (signal: string) => {
+          log.info(`Received ${signal}, stopping mock server...`);
+          server.close(() => resolve());
+          server.closeAllConnections();
+        };
+        process.once('SIGINT', () => stop('SIGINT'));
+        process.once('SIGTERM', () => stop('SIGTERM'));
+      });
+      break;
+    }
+    default:
+      console.error(`Unknown command: '${name}'.`);
+      printUsage();
+      process.exit(1);
+  }
+}
+
+/**
+ * Reads a non-negative integer environment variable, falling back to a default when unset.
+ */
+function envInt(name: string, defaultValue: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === '') return defaultValue;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0) {
+    throw new ConfigurationError(`Invalid ${name}: "${raw}". Must be a non-negative integer.`);
+  }
+  return value;
+}
+
 // --- Main Application Logic ---
 async function main() {
-  let yapiService: YapiService;
+  let projects: YapiProjectRegistry;
   try {
-    // Environment variable check happens inside YapiService constructor now
-    yapiService = new YapiService(YAPI_BASE_URL, YAPI_PROJECT_TOKEN);
+    // Environment variable checks happen inside the registry loader / YapiService constructor
+    projects = loadProjectRegistry({
+      baseUrl: YAPI_BASE_URL,
+      token: YAPI_PROJECT_TOKEN,
+      projectsEnv: YAPI_PROJECTS,
+      configFile: YAPI_CONFIG_FILE,
+      offlineFile: YAPI_OFFLINE_FILE,
+      defaultProject: YAPI_DEFAULT_PROJECT,
+      serviceOptions: {
+        cacheStore: createCacheStore({
+          mode: process.env.YAPI_CACHE,
+          filePath: process.env.YAPI_CACHE_FILE,
+          maxEntries: process.env.YAPI_CACHE_MAX_ENTRIES,
+        }),
+        cacheTtls: parseCacheTtls(process.env.YAPI_CACHE_TTLS),
+        timeoutMs: envInt('YAPI_TIMEOUT_MS', 30000),
+        retries: envInt('YAPI_RETRIES', 2),
+        retryBaseDelayMs: envInt('YAPI_RETRY_BASE_DELAY_MS', 500),
+        limiter: new RequestLimiter(
+          Math.max(1, envInt('YAPI_MAX_CONCURRENT_REQUESTS', 8)),
+          envInt('YAPI_MAX_REQUESTS_PER_SECOND', 0)
+        ),
+      },
+    });
   } catch (error) {
     if (error instanceof ConfigurationError) {
       console.error(`Configuration Error: ${error.message}\n`);
       printUsage();
     } else {
-      console.error("Error initializing YapiService:", error);
+      log.error("Error initializing YapiService", { error });
+    }
+    process.exit(1);
+  }
+
+  if (command) {
+    try {
+      await runCommand(projects, command);
+      process.exit(0);
+    } catch (error) {
+      log.error(`Error running command '${command}'`, { error });
+      process.exit(1);
     }
+  }
+
+  let changePollIntervalMs: number;
+  let changeWatcher: ChangeWatcher;
+  let filesDir: string | undefined;
+  let allowedCallDomains: string[];
+  try {
+    changePollIntervalMs = envInt('YAPI_CHANGE_POLL_INTERVAL_MS', 60000);
+    changeWatcher = new ChangeWatcher(projects, changePollIntervalMs);
+    // A stdio client runs as the local user, so it may use the working directory; HTTP clients need an explicit one
+    const filesDirSetting = process.env.YAPI_FILES_DIR || (transportMode === 'stdio' ? process.cwd() : undefined);
+    filesDir = filesDirSetting ? loadFilesDir(filesDirSetting) : undefined;
+    // Likewise, only a stdio client may send requests to domains other than the project envs by default
+    allowedCallDomains = parseAllowedDomains(process.env.YAPI_CALL_ALLOWED_DOMAINS ?? (transportMode === 'stdio' ? '*' : ''));
+  } catch (error) {
+    if (!(error instanceof ConfigurationError)) throw error;
+    console.error(`Configuration Error: ${error.message}\n`);
+    printUsage();
     process.exit(1);
   }
 
-  const mcpServer = createMcpServer(yapiService);
-  let httpServer: http.Server | undefined; // Hold the Streamable HTTP server instance
+  let mcpServer: McpServer | undefined; // The stdio server instance
+  let streamableHttp: StreamableHttpServer | undefined; // Hold the Streamable HTTP server instance
 
   try {
     if (transportMode === 'streamable-http') {
@@ -107,61 +377,103 @@ async function main() {
            printUsage();
            process.exit(1);
       }
-      // Use console.error for server status logs
-      console.error(`Starting server in Streamable HTTP mode on port ${httpPort}...`);
-      // runStreamableHttpServer now returns the http.Server instance
-      httpServer = runStreamableHttpServer(mcpServer, yapiService, httpPort);
+      let httpOptions: StreamableHttpOptions;
+      try {
+        httpOptions = {
+          auth: loadHttpAuthConfig({
+            apiKeys: process.env.MCP_AUTH_API_KEYS,
+            apiKeysFile: process.env.MCP_AUTH_API_KEYS_FILE,
+            jwksFile: process.env.MCP_AUTH_JWKS_FILE,
+            jwtIssuer: process.env.MCP_AUTH_JWT_ISSUER,
+            jwtAudience: process.env.MCP_AUTH_JWT_AUDIENCE,
+            requiredScopes: process.env.MCP_AUTH_REQUIRED_SCOPES,
+            jwtAllowNoExp: (process.env.MCP_AUTH_JWT_ALLOW_NO_EXP || '').toLowerCase() === 'true',
+          }),
+          corsOrigins: (process.env.MCP_CORS_ORIGINS ?? '').split(',').map(origin => origin.trim()).filter(Boolean),
+          maxSessions: envInt('MCP_MAX_SESSIONS', 100),
+          sessionIdleTimeoutMs: envInt('MCP_SESSION_IDLE_TIMEOUT_MS', 30 * 60 * 1000),
+          eventStoreMaxEvents: envInt('MCP_EVENT_STORE_MAX_EVENTS', 1000),
+          adminAuth: loadHttpAuthConfig({ apiKeys: process.env.MCP_ADMIN_API_KEYS }),
+        };
+      } catch (error) {
+        if (!(error instanceof ConfigurationError)) throw error;
+        console.error(`Configuration Error: ${error.message}\n`);
+        printUsage();
+        process.exit(1);
+      }
+      log.info(`Starting server in Streamable HTTP mode on port ${httpPort}...`);
+      const sessionTokens = (process.env.MCP_SESSION_YAPI_TOKENS || 'optional').toLowerCase();
+      if (!['off', 'optional', 'required'].includes(sessionTokens)) {
+        console.error(`Invalid MCP_SESSION_YAPI_TOKENS: '${sessionTokens}'. Use 'off', 'optional' or 'required'.`);
+        printUsage();
+        process.exit(1);
+      }
+      // Every HTTP session gets its own MCP server instance
+      // Sessions with their own YAPI token poll with that token: the server token's watcher reports
+      // its own projects, which the session may not be allowed to see. Session watchers stop when
+      // the session unsubscribes or closes.
+      streamableHttp = runStreamableHttpServer(sessionProjects => createMcpServer(sessionProjects, {
+        changeWatcher: sessionProjects === projects ? changeWatcher : new ChangeWatcher(sessionProjects, changePollIntervalMs),
+        filesDir,
+        allowedCallDomains,
+      }), projects, httpPort, {
+        ...httpOptions,
+        sessionTokens: sessionTokens as SessionTokenMode,
+      });
     } else if (transportMode === 'stdio') {
-      // Use console.error for server status logs
-      console.error("Starting server in STDIO mode...");
-      await runStdioServer(mcpServer, yapiService);
+      log.info("Starting server in STDIO mode...");
+      mcpServer = createMcpServer(projects, { changeWatcher, filesDir, allowedCallDomains });
+      await runStdioServer(mcpServer, projects);
     } else {
       console.error(`Invalid transport mode: '${transportMode}'. Use 'stdio' or 'streamable-http'.`);
       printUsage();
       process.exit(1);
     }
   } catch (error) {
-    console.error("Fatal error starting server:", error);
+    log.critical("Fatal error starting server", { error });
     process.exit(1);
   }
 
   // --- Graceful Shutdown Logic ---
   const shutdown = async (signal: string) => {
-    console.error(`\nReceived ${signal}, initiating graceful shutdown...`);
+    log.info(`Received ${signal}, initiating graceful shutdown...`);
     try {
-      console.error("Closing MCP server connections...");
+      log.info("Closing MCP server connections...");
       // This should trigger closing of all connected transports
-      await mcpServer.close();
-      console.error("MCP Server connections closed.");
+      await mcpServer?.close();
+      await streamableHttp?.closeSessions();
+      changeWatcher.stop();
+      log.info("MCP Server connections closed.");
 
-      if (httpServer) {
-        console.error("Closing HTTP server...");
+      if (streamableHttp) {
+        const httpServer = streamableHttp.httpServer;
+        log.info("Closing HTTP server...");
         await new Promise<void>((resolve, reject) => {
           // Added a timeout for server closing
           const timeoutId = setTimeout(() => {
-            console.error("HTTP server close timeout reached, forcing exit.");
+            log.warning("HTTP server close timeout reached, forcing exit.");
             reject(new Error("Server close timeout"));
           }, 5000); // 5 seconds timeout
 
-          httpServer!.close((err) => {
+          httpServer.close((err) => {
             clearTimeout(timeoutId); // Clear the timeout if close finishes normally
             if (err) {
-              console.error("Error closing HTTP server:", err);
+              log.error("Error closing HTTP server", { error: err });
               reject(err);
             } else {
-              console.error("HTTP server closed.");
+              log.info("HTTP server closed.");
               resolve();
             }
           });
         }).catch(err => {
-            console.error("Forcing exit due to shutdown error/timeout:", err);
+            log.error("Forcing exit due to shutdown error/timeout", { error: err });
             process.exit(1); // Force exit on timeout/error during close
         });
       }
-      console.error("Shutdown complete.");
+      log.info("Shutdown complete.");
       process.exit(0);
     } catch (shutdownError) {
-      console.error("Error during shutdown:", shutdownError);
+      log.error("Error during shutdown", { error: shutdownError });
       process.exit(1);
     }
   };
@@ -173,6 +485,6 @@ async function main() {
 
 // --- Run Main ---
 main().catch((error) => {
-  console.error("Unhandled error during application startup:", error);
+  log.critical("Unhandled error during application startup", { error });
   process.exit(1);
 });
\ No newline at end of file
@@ -0,0 +1,77 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { YapiService } from './yapiService.js';
+import { YapiInterfaceDetail } from './schemas.js';
+import { YapiError } from './errors.js';
+import { mapWithConcurrency } from './concurrency.js';
+
+export interface InterfaceBatchOptions {
+  interfaceIds?: number[];
+  /** Adds every interface of this category (from the project menu) */
+  categoryId?: number;
+  /** Top-level detail fields to return; `_id` is always kept */
+  fields?: string[];
+  concurrency: number;
+}
+
+export interface InterfaceBatchItemError {
+  message: string;
+  errcode?: number;
+  status?: number;
+}
+
+export type InterfaceBatchItem =
+  | { interface_id: number; ok: true; data: Partial<YapiInterfaceDetail> }
+  | { interface_id: number; ok: false; error: InterfaceBatchItemError };
+
+export interface InterfaceBatchResult {
+  category_id?: number;
+  fields?: string[];
+  summary: { requested: number; succeeded: number; failed: number };
+  results: InterfaceBatchItem[];
+}
+
+function describeError(error: unknown): InterfaceBatchItemError {
+  if (error instanceof YapiError) {
+    return { message: error.message, errcode: error.errcode, status: error.status };
+  }
+  return { message: error instanceof Error ? error.message : String(error) };
+}
+
+function project(detail: YapiInterfaceDetail, fields: string[] | undefined): Partial<YapiInterfaceDetail> {
+  if (!fields) return detail;
+  const selected = new Set(['_id', ...fields]);
+  return Object.fromEntries(Object.entries(detail).filter(([field]) => selected.has(field))) as Partial<YapiInterfaceDetail>;
+}
+
+/**
+ * Fetches the details of several interfaces at once. Each interface succeeds or fails on its own,
+ * so one missing or forbidden ID does not fail the whole batch; results keep the request order.
+ */
+export async function getInterfacesBatch(yapiService: YapiService, options: InterfaceBatchOptions): Promise<InterfaceBatchResult> {
+  const ids = [...(options.interfaceIds ?? [])];
+  if (options.categoryId !== undefined) {
+    const menu = await yapiService.getProjectInterfaceMenu();
+    const category = menu.find(candidate => candidate._id === options.categoryId);
+    if (!category) {
+      throw new McpError(ErrorCode.InvalidParams, `Category ${options.categoryId} does not exist in the project menu.`);
+    }
+    ids.push(...(category.list ?? []).map(item => item._id));
+  }
+  const uniqueIds = [...new Set(ids)];
+
+  const results = await mapWithConcurrency(uniqueIds, options.concurrency, async (id): Promise<InterfaceBatchItem> => {
+    try {
+      return { interface_id: id, ok: true, data: project(await yapiService.getInterfaceDetails(id), options.fields) };
+    } catch (error) {
+      return { interface_id: id, ok: false, error: describeError(error) };
+    }
+  });
+
+  const succeeded = results.filter(result => result.ok).length;
+  return {
+    category_id: options.categoryId,
+    fields: options.fields,
+    summary: { requested: uniqueIds.length, succeeded, failed: uniqueIds.length - succeeded },
+    results,
+  };
+}
@@ -0,0 +1,197 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { YapiService } from './yapiService.js';
+import { YapiInterfaceDetail, YapiProject } from './schemas.js';
+import { PayloadValidationResult, validatePayload } from './contractValidation.js';
+import { ConfigurationError } from './errors.js';
+import { envDomain, envNames, hasHeader, joinRequestUrl, substitutePathParams } from './requestTarget.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('Interface Call');
+
+// Response bodies longer than this are truncated in the tool result
+const MAX_BODY_CHARS = 100_000;
+
+export interface CallInterfaceOptions {
+  /** Name of a project env (`project.env[].name`); optional when the project has exactly one env or `domain` is given */
+  env?: string;
+  /** Overrides the env's domain, e.g. "http://localhost:8080"; must be an env domain or in `allowedDomains` */
+  domain?: string;
+  /** Origins accepted as `domain` besides the project's env domains; `*` accepts any domain */
+  allowedDomains?: string[];
+  pathParams?: Record<string, string | number>;
+  query?: Record<string, string | number | boolean>;
+  headers?: Record<string, string>;
+  body?: unknown;
+  validateResponse?: boolean;
+  timeoutMs?: number;
+}
+
+export interface CallInterfaceResult {
+  request: { method: string; url: string; headers: Record<string, string>; body?: string };
+  status: number;
+  status_text: string;
+  headers: Record<string, string>;
+  body: unknown;
+  body_truncated?: boolean;
+  elapsed_ms: number;
+  validation?: PayloadValidationResult;
+  // Why the requested validation did not run
+  validation_skipped?: string;
+}
+
+function originOf(domain: string): string | undefined {
+  try {
+    const url = new URL(domain);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.origin : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Parses the origins that may be called through a `domain` override (YAPI_CALL_ALLOWED_DOMAINS):
+ * comma-separated http(s) origins, or `*` for any domain.
+ */
+export function parseAllowedDomains(value: string): string[] {
+  return value.split(',').map(domain => domain.trim()).filter(Boolean).map(domain => {
+    if (domain === '*') return domain;
+    const origin = originOf(domain);
+    if (!origin) throw new ConfigurationError(`Invalid allowed domain '${domain}': expected an http(s) origin such as http://localhost:8080, or '*'.`);
+    return origin;
+  });
+}
+
+/**
+ * Picks the target domain: an explicit override, the named env, or the only env. Overrides are
+ * limited to the project's env domains and `allowedDomains`, since the server sends the request.
+ */
+function resolveDomain(project: YapiProject, options: CallInterfaceOptions): string {
+  if (options.domain) {
+    const allowed = [...(project.env ?? []).map(env => originOf(env.domain)), ...options.allowedDomains ?? []];
+    const origin = originOf(options.domain);
+    if (!allowed.includes('*') && (!origin || !allowed.includes(origin))) {
+      throw new McpError(ErrorCode.InvalidParams, `Domain '${options.domain}' is not allowed: use a project env (${envNames(project)}) or a domain listed in YAPI_CALL_ALLOWED_DOMAINS.`);
+    }
+    return options.domain;
+  }
+  const domain = envDomain(project, options.env);
+  if (domain === undefined) throw new McpError(ErrorCode.InvalidParams, `Specify 'env' or 'domain'. Project envs: ${envNames(project)}.`);
+  return domain;
+}
+
+function buildPath(detail: YapiInterfaceDetail, pathParams: Record<string, string | number>): string {
+  const missing: string[] = [];
+  const path = substitutePathParams(detail, pathParams, name => {
+    missing.push(name);
+    return `:${name}`;
+  });
+  if (missing.length > 0) {
+    throw new McpError(ErrorCode.InvalidParams, `Missing path parameter(s): ${missing.join(', ')}.`);
+  }
+  return path;
+}
+
+function buildUrl(domain: string, basepath: string | null | undefined, path: string, query: CallInterfaceOptions['query']): URL {
+  let url: URL;
+  try {
+    url = new URL(joinRequestUrl(domain, basepath, path));
+  } catch {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid target URL built from domain '${domain}'. The domain must include the scheme, e.g. http://localhost:8080.`);
+  }
+  for (const [name, value] of Object.entries(query ?? {})) {
+    url.searchParams.set(name, String(value));
+  }
+  return url;
+}
+
+/**
+ * Documented header values (e.g. Content-Type) first, then the caller's headers.
+ */
+function buildHeaders(detail: YapiInterfaceDetail, headers: Record<string, string> | undefined): Record<string, string> {
+  const result: Record<string, string> = {};
+  const set = (name: string, value: string) => {
+    for (const existing of Object.keys(result)) {
+      if (existing.toLowerCase() === name.toLowerCase()) delete result[existing];
+    }
+    result[name] = value;
+  };
+  for (const row of detail.req_headers ?? []) {
+    if (row.value) set(row.name, row.value);
+  }
+  for (const [name, value] of Object.entries(headers ?? {})) set(name, value);
+  return result;
+}
+
+function encodeBody(detail: YapiInterfaceDetail, body: unknown, headers: Record<string, string>): string | undefined {
+  if (body === undefined || body === null) return undefined;
+  if (detail.req_body_type === 'form') {
+    if (typeof body === 'string') return body;
+    if (typeof body !== 'object') throw new McpError(ErrorCode.InvalidParams, 'Form bodies must be an object of field values.');
+    if (!hasHeader(Object.keys(headers), 'Content-Type')) headers['Content-Type'] = 'application/x-www-form-urlencoded';
+    // File fields are sent as their text value; multipart uploads are not supported
+    return new URLSearchParams(Object.entries(body as Record<string, unknown>).map(([name, value]) => [name, String(value)])).toString();
+  }
+  if (typeof body === 'string') return body;
+  if (!hasHeader(Object.keys(headers), 'Content-Type')) headers['Content-Type'] = 'application/json';
+  return JSON.stringify(body);
+}
+
+/**
+ * Sends a request to a real deployment of the interface: domain (env or override) + project
+ * basepath + path with path parameters substituted. Returns status, headers and body, and
+ * optionally validates the body against the documented response.
+ */
+export async function callInterface(yapiService: YapiService, interfaceId: number, options: CallInterfaceOptions): Promise<CallInterfaceResult> {
+  const [project, detail] = await Promise.all([yapiService.getProjectInfo(), yapiService.getInterfaceDetails(interfaceId)]);
+
+  const method = detail.method.toUpperCase();
+  const url = buildUrl(resolveDomain(project, options), project.basepath, buildPath(detail, options.pathParams ?? {}), options.query);
+  const headers = buildHeaders(detail, options.headers);
+  const body = method === 'GET' || method === 'HEAD' ? undefined : encodeBody(detail, options.body, headers);
+
+  const startedAt = Date.now();
+  let response: Response;
+  let text: string;
+  try {
+    // Redirects are reported, not followed: they could lead past the domain check
+    response = await fetch(url, { method, headers, body, redirect: 'manual', signal: AbortSignal.timeout(options.timeoutMs ?? 30000) });
+    // The timeout also covers the body, which may stall or be cut off after the headers
+    text = await response.text();
+  } catch (error) {
+    const reason = error instanceof Error && error.name === 'TimeoutError'
+      ? `timed out after ${options.timeoutMs ?? 30000}ms`
+      : (error instanceof Error ? (error.cause instanceof Error ? error.cause.message : error.message) : String(error));
+    log.warning(`${method} ${url} failed: ${reason}`);
+    throw new McpError(ErrorCode.InternalError, `Request to ${method} ${url} failed: ${reason}`);
+  }
+  const elapsedMs = Date.now() - startedAt;
+  log.info(`${method} ${url} -> ${response.status} (${elapsedMs}ms)`);
+
+  let responseBody: unknown = text.length > MAX_BODY_CHARS ? text.slice(0, MAX_BODY_CHARS) : text;
+  if ((response.headers.get('content-type') ?? '').includes('json') && text.length <= MAX_BODY_CHARS) {
+    try {
+      responseBody = JSON.parse(text);
+    } catch {
+      // Keep the text; the server sent invalid JSON
+    }
+  }
+
+  const result: CallInterfaceResult = {
+    request: { method, url: url.toString(), headers, body },
+    status: response.status,
+    status_text: response.statusText,
+    headers: Object.fromEntries(response.headers.entries()),
+    body: responseBody,
+    body_truncated: text.length > MAX_BODY_CHARS || undefined,
+    elapsed_ms: elapsedMs,
+  };
+  if (options.validateResponse) {
+    // res_body documents the success response only
+    if (response.ok) {
+      result.validation = validatePayload(detail, 'response', { body: responseBody });
+    } else {
+      result.validation_skipped = `Status ${response.status} is not a success status; res_body describes successful responses.`;
+    }
+  }
+  return result;
+}
@@ -0,0 +1,59 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { InterfaceFilter, YapiCategory, YapiInterfaceListItem } from './schemas.js';
+
+/**
+ * Converts an `updated_after`/`updated_before` bound to Unix seconds, the unit of YAPI's `up_time`.
+ * Numbers (and digit-only strings) are already seconds; other strings are parsed as ISO 8601.
+ */
+export function toUnixSeconds(value: number | string, argument: string): number {
+  if (typeof value === 'number') return value;
+  if (/^\d+$/.test(value.trim())) return Number(value.trim());
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid ${argument} '${value}': expected an ISO 8601 date/time or Unix seconds.`);
+  }
+  return Math.floor(time / 1000);
+}
+
+function hasFilter(filter: InterfaceFilter): boolean {
+  return Object.values(filter).some(value => value !== undefined);
+}
+
+/**
+ * Builds a predicate for interface list items. Method and tag compare case-insensitively,
+ * the path prefix and time bounds (both inclusive) exactly.
+ */
+function createMatcher(filter: InterfaceFilter): (item: YapiInterfaceListItem) => boolean {
+  const method = filter.method?.toUpperCase();
+  const tag = filter.tag?.toLowerCase();
+  const after = filter.updated_after === undefined ? undefined : toUnixSeconds(filter.updated_after, 'updated_after');
+  const before = filter.updated_before === undefined ? undefined : toUnixSeconds(filter.updated_before, 'updated_before');
+  return item =>
+    (!method || item.method.toUpperCase() === method)
+    && (!filter.status || item.status === filter.status)
+    && (!tag || (item.tag ?? []).some(candidate => candidate.toLowerCase() === tag))
+    && (!filter.path_prefix || item.path.startsWith(filter.path_prefix))
+    && (after === undefined || item.up_time >= after)
+    && (before === undefined || item.up_time <= before);
+}
+
+/**
+ * Filters a category listing. Without filters the listing is returned unchanged; otherwise `list`
+ * only holds the matching interfaces and `matched` their number (`count`/`total` stay YAPI's).
+ */
+export function filterCategoryListing<T extends { list: YapiInterfaceListItem[] }>(listing: T, filter: InterfaceFilter): T & { matched?: number } {
+  if (!hasFilter(filter)) return listing;
+  const list = listing.list.filter(createMatcher(filter));
+  return { ...listing, list, matched: list.length };
+}
+
+/**
+ * Filters the interfaces of every menu category; categories left without a match are dropped.
+ */
+export function filterMenu(menu: YapiCategory[], filter: InterfaceFilter): YapiCategory[] {
+  if (!hasFilter(filter)) return menu;
+  const matches = createMatcher(filter);
+  return menu
+    .map(category => ({ ...category, list: (category.list ?? []).filter(matches) }))
+    .filter(category => category.list.length > 0);
+}
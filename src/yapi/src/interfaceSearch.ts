@@ -0,0 +1,197 @@
+import { YapiService } from './yapiService.js';
+import { YapiCategory, YapiInterfaceDetail, YapiInterfaceListItem, SearchInterfacesArgs } from './schemas.js';
+import { mapWithConcurrency } from './concurrency.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('InterfaceSearch');
+
+// Number of interface detail requests issued in parallel while indexing
+const DETAIL_FETCH_CONCURRENCY = 5;
+
+// Relative weight of a term hit in each field
+const FIELD_WEIGHTS = {
+  title: 10,
+  path: 8,
+  tag: 6,
+  params: 4,
+  category: 3,
+  description: 2,
+} as const;
+
+type SearchField = keyof typeof FIELD_WEIGHTS;
+
+interface IndexedInterface {
+  item: YapiInterfaceListItem;
+  category: YapiCategory;
+  fields: Partial<Record<SearchField, string>>;
+}
+
+export interface InterfaceSearchHit {
+  id: number;
+  title: string;
+  method: string;
+  path: string;
+  catid: number;
+  category: string;
+  status?: string;
+  tag?: string[];
+  score: number;
+  matched_fields: SearchField[];
+}
+
+export interface InterfaceSearchResult {
+  total: number;
+  indexed_details: boolean;
+  hits: InterfaceSearchHit[];
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase();
+}
+
+function stripHtml(html: string): string {
+  return html.replace(/<[^>]*>/g, ' ').replace(/&nbsp;/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Collects every parameter/field name mentioned by an interface: path, query, header
+ * and form params plus property names found anywhere in the JSON bodies.
+ */
+function collectParamNames(detail: YapiInterfaceDetail): string[] {
+  const names: string[] = [];
+  for (const rows of [detail.req_params, detail.req_query, detail.req_headers, detail.req_body_form]) {
+    for (const row of rows ?? []) names.push(row.name);
+  }
+  // JSON Schema bodies name fields under "properties"; JSON samples name them with every key
+  const visit = (node: unknown, isJsonSchema: boolean | undefined, depth: number) => {
+    if (depth > 20 || node === null || typeof node !== 'object') return;
+    if (Array.isArray(node)) {
+      node.forEach(child => visit(child, isJsonSchema, depth + 1));
+      return;
+    }
+    for (const [key, value] of Object.entries(node as Record<string, unknown>)) {
+      if (!isJsonSchema) {
+        names.push(key);
+      } else if (key === 'properties' && value && typeof value === 'object' && !Array.isArray(value)) {
+        names.push(...Object.keys(value));
+      }
+      visit(value, isJsonSchema, depth + 1);
+    }
+  };
+  visit(detail.req_body_other, detail.req_body_is_json_schema, 0);
+  visit(detail.res_body, detail.res_body_is_json_schema, 0);
+  return names;
+}
+
+/**
+ * In-memory search index over one project's interfaces. The menu is re-read on every
+ * search; interface details are fetched lazily and reused until the interface's up_time changes.
+ */
+export class InterfaceSearchIndex {
+  private readonly detailCache = new Map<number, { upTime: number; fields: Partial<Record<SearchField, string>> }>();
+
+  constructor(private readonly yapiService: YapiService) {}
+
+  private async buildEntries(includeDetails: boolean): Promise<IndexedInterface[]> {
+    const menu = await this.yapiService.getProjectInterfaceMenu();
+    const entries: IndexedInterface[] = menu.flatMap(category => (category.list ?? []).map(item => ({
+      item,
+      category,
+      fields: {
+        title: normalize(item.title),
+        path: normalize(item.path),
+        tag: normalize((item.tag ?? []).join(' ')),
+        category: normalize(category.name),
+      },
+    })));
+
+    if (includeDetails) {
+      const stale = entries.filter(entry => this.detailCache.get(entry.item._id)?.upTime !== entry.item.up_time);
+      await mapWithConcurrency(stale, DETAIL_FETCH_CONCURRENCY, async entry => {
+        try {
+          const detail = await this.yapiService.getInterfaceDetails(entry.item._id);
+          this.detailCache.set(entry.item._id, {
+            upTime: entry.item.up_time,
+            fields: {
+              description: normalize([stripHtml(detail.desc ?? ''), detail.markdown ?? ''].join(' ')),
+              params: normalize(collectParamNames(detail).join(' ')),
+            },
+          });
+        } catch (error) {
+          // One broken interface should not make the whole project unsearchable
+          log.warning(`Failed to index details of interface ${entry.item._id}`, { error });
+        }
+      });
+      for (const entry of entries) {
+        Object.assign(entry.fields, this.detailCache.get(entry.item._id)?.fields);
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * Ranks interfaces by how many query terms hit which fields; filters are applied first.
+   * An empty query returns every interface that passes the filters.
+   */
+  async search(options: Omit<SearchInterfacesArgs, 'project' | 'format'>): Promise<InterfaceSearchResult> {
+    const entries = await this.buildEntries(options.include_details);
+    const query = normalize(options.query.trim());
+    const terms = query.split(/\s+/).filter(Boolean);
+    const method = options.method?.toUpperCase();
+    const tag = options.tag ? normalize(options.tag) : undefined;
+
+    const hits: InterfaceSearchHit[] = [];
+    for (const { item, category, fields } of entries) {
+      if (method && item.method.toUpperCase() !== method) continue;
+      if (options.status && item.status !== options.status) continue;
+      if (options.category_id && item.catid !== options.category_id) continue;
+      if (tag && !(item.tag ?? []).some(t => normalize(t) === tag)) continue;
+
+      let score = 0;
+      const matched = new Set<SearchField>();
+      for (const term of terms) {
+        for (const [field, text] of Object.entries(fields) as Array<[SearchField, string]>) {
+          if (text.includes(term)) {
+            score += FIELD_WEIGHTS[field];
+            matched.add(field);
+          }
+        }
+      }
+      // Reward the whole phrase appearing verbatim in the title or path
+      if (terms.length > 1 && (fields.title?.includes(query) || fields.path?.includes(query))) {
+        score += FIELD_WEIGHTS.title;
+      }
+      if (terms.length > 0 && score === 0) continue;
+
+      hits.push({
+        id: item._id,
+        title: item.title,
+        method: item.method,
+        path: item.path,
+        catid: item.catid,
+        category: category.name,
+        status: item.status,
+        tag: item.tag,
+        score,
+        matched_fields: [...matched],
+      });
+    }
+
+    hits.sort((a, b) => b.score - a.score || a.id - b.id);
+    return { total: hits.length, indexed_details: options.include_details, hits: hits.slice(0, options.limit) };
+  }
+}
+
+const indexes = new WeakMap<YapiService, InterfaceSearchIndex>();
+
+/**
+ * Returns the (lazily created) search index of a project's YapiService.
+ */
+export function getSearchIndex(yapiService: YapiService): InterfaceSearchIndex {
+  let index = indexes.get(yapiService);
+  if (!index) {
+    index = new InterfaceSearchIndex(yapiService);
+    indexes.set(yapiService, index);
+  }
+  return index;
+}
@@ -0,0 +1,226 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { Server as McpServer } from "@modelcontextprotocol/sdk/server/index.js";
+import { LoggingLevel } from "@modelcontextprotocol/sdk/types.js";
+import { ConfigurationError, YapiError } from './errors.js';
+
+// --- Levels & Configuration ---
+
+// Same levels as MCP's logging capability (RFC 5424 severities), least severe first
+const LOG_LEVELS: LoggingLevel[] = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'];
+
+export type LogFormat = 'text' | 'json';
+
+const config: { level: LoggingLevel; format: LogFormat } = { level: 'info', format: 'text' };
+
+function severity(level: LoggingLevel): number {
+  return LOG_LEVELS.indexOf(level);
+}
+
+/**
+ * Sets the minimum level and output format of stderr logging (MCP_LOG_LEVEL / MCP_LOG_FORMAT).
+ */
+export function configureLogger(options: { level?: string; format?: string }): void {
+  if (options.level) {
+    const level = options.level.toLowerCase() as LoggingLevel;
+    if (!LOG_LEVELS.includes(level)) {
+      throw new ConfigurationError(`Invalid log level: "${options.level}". Use one of: ${LOG_LEVELS.join(', ')}.`);
+    }
+    config.level = level;
+  }
+  if (options.format) {
+    const format = options.format.toLowerCase();
+    if (format !== 'text' && format !== 'json') {
+      throw new ConfigurationError(`Invalid log format: "${options.format}". Use 'text' or 'json'.`);
+    }
+    config.format = format;
+  }
+}
+
+// --- Correlation Context ---
+
+/**
+ * Correlation IDs attached to every record logged while handling a request.
+ */
+export interface LogContext {
+  requestId?: string;
+  sessionId?: string;
+  tool?: string;
+}
+
+const contextStorage = new AsyncLocalStorage<LogContext>();
+
+/**
+ * Runs `fn` with additional correlation fields; nested contexts inherit the outer fields.
+ */
+export function withLogContext<T>(context: LogContext, fn: () => T): T {
+  return contextStorage.run({ ...contextStorage.getStore(), ...context }, fn);
+}
+
+export function getLogContext(): LogContext {
+  return contextStorage.getStore() ?? {};
+}
+
+// --- Redaction ---
+
+const REDACTED = '[REDACTED]';
+// Field names whose values are never logged
+const SENSITIVE_KEY = /token|authorization|api[-_]?key|password|passwd|secret|cookie|credential/i;
+// Secrets embedded in strings: query parameters, auth headers and JSON fragments
+const SENSITIVE_PATTERNS: Array<[RegExp, string]> = [
+  [/([?&](?:token|api[-_]?key|access_token)=)[^&\s"']+/gi, `$1${REDACTED}`],
+  [/\b(Bearer|Basic)\s+[A-Za-z0-9\-._~+/]+=*/g, `$1 ${REDACTED}`],
+  [/("(?:token|password|secret|api[-_]?key)"\s*:\s*)"[^"]*"/gi, `$1"${REDACTED}"`],
+];
+
+function redactString(value: string): string {
+  return SENSITIVE_PATTERNS.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), value);
+}
+
+/**
+ * Returns a copy of `value` with secrets masked. Applied to every message and field before output,
+ * so call sites do not have to strip tokens themselves.
+ */
+export function redact(value: unknown, depth: number = 0): unknown {
+  if (typeof value === 'string') return redactString(value);
+  if (value === null || typeof value !== 'object' || depth > 10) return value;
+  if (value instanceof Error) return redact(serializeError(value), depth);
+  if (value instanceof URL) return redactString(value.toString());
+  if (Array.isArray(value)) return value.map(item => redact(item, depth + 1));
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => [
+    key,
+    SENSITIVE_KEY.test(key) && item !== undefined && item !== null ? REDACTED : redact(item, depth + 1),
+  ]));
+}
+
+function serializeError(error: Error): Record<string, unknown> {
+  return {
+    name: error.name,
+    message: error.message,
+    ...(error instanceof YapiError ? { errcode: error.errcode, status: error.status, attempts: error.attempts, elapsedMs: error.elapsedMs } : {}),
+    // Stacks are noise for expected YAPI failures, but essential for internal errors
+    ...(!(error instanceof YapiError) && !(error instanceof ConfigurationError) ? { stack: error.stack } : {}),
+  };
+}
+
+// --- MCP Forwarding ---
+
+interface McpLogSink {
+  server: McpServer;
+  level: LoggingLevel;
+}
+
+const mcpSinks = new Set<McpLogSink>();
+let forwarding = false;
+
+/**
+ * Forwards log records to an MCP client via notifications/message, starting at `level`
+ * (set by the client through logging/setLevel). Calling it again updates the level.
+ * Only records logged while handling that client's session are forwarded.
+ */
+export function setMcpLogLevel(server: McpServer, level: LoggingLevel): void {
+  for (const sink of mcpSinks) {
+    if (sink.server === server) {
+      sink.level = level;
+      return;
+    }
+  }
+  mcpSinks.add({ server, level });
+}
+
+function forwardToMcp(record: LogRecord): void {
+  if (forwarding || mcpSinks.size === 0) return;
+  forwarding = true; // Sending may itself log; never recurse
+  try {
+    for (const sink of mcpSinks) {
+      const transport = sink.server.transport as { sessionId?: string } | undefined;
+      if (!transport) {
+        mcpSinks.delete(sink); // Connection closed
+        continue;
+      }
+      // Stdio transports have no session ID and receive everything logged outside HTTP sessions
+      if (transport.sessionId !== record.sessionId || severity(record.level) < severity(sink.level)) continue;
+      const { level, logger: component, time, ...data } = record;
+      // Stack traces stay in the server logs
+      if (data.error && typeof data.error === 'object') {
+        const { stack, ...error } = data.error as Record<string, unknown>;
+        data.error = error;
+      }
+      sink.server.sendLoggingMessage({ level, logger: component, data }).catch(() => {
+        // The client may have disconnected; stderr still has the record
+      });
+    }
+  } finally {
+    forwarding = false;
+  }
+}
+
+// --- Logger ---
+
+interface LogRecord {
+  time: string;
+  level: LoggingLevel;
+  logger: string;
+  message: string;
+  [field: string]: unknown;
+}
+
+function formatText(record: LogRecord): string {
+  const { time, level, logger: component, message, ...fields } = record;
+  const extra = Object.keys(fields).length > 0 ? ` ${JSON.stringify(fields)}` : '';
+  return `${time} ${level.toUpperCase()} [${component}] ${message}${extra}`;
+}
+
+/**
+ * Component logger. Records go to stderr (stdout belongs to the stdio transport) as text or
+ * JSON lines, carry the current correlation IDs, and are redacted before leaving the process.
+ */
+export class Logger {
+  constructor(private readonly component: string) {}
+
+  log(level: LoggingLevel, message: string, fields?: Record<string, unknown>): void {
+    const toStderr = severity(level) >= severity(config.level);
+    if (!toStderr && mcpSinks.size === 0) return;
+
+    const record = redact({
+      time: new Date().toISOString(),
+      level,
+      logger: this.component,
+      message,
+      ...getLogContext(),
+      ...fields,
+    }) as LogRecord;
+
+    if (toStderr) {
+      process.stderr.write((config.format === 'json' ? JSON.stringify(record) : formatText(record)) + '\n');
+    }
+    forwardToMcp(record);
+  }
+
+  debug(message: string, fields?: Record<string, unknown>): void {
+    this.log('debug', message, fields);
+  }
+
+  info(message: string, fields?: Record<string, unknown>): void {
+    this.log('info', message, fields);
+  }
+
+  notice(message: string, fields?: Record<string, unknown>): void {
+    this.log('notice', message, fields);
+  }
+
+  warning(message: string, fields?: Record<string, unknown>): void {
+    this.log('warning', message, fields);
+  }
+
+  error(message: string, fields?: Record<string, unknown>): void {
+    this.log('error', message, fields);
+  }
+
+  critical(message: string, fields?: Record<string, unknown>): void {
+    this.log('critical', message, fields);
+  }
+}
+
+export function createLogger(component: string): Logger {
+  return new Logger(component);
+}
@@ -3,22 +3,68 @@ import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
   ListResourcesRequestSchema,   // Import schema
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
   ListPromptsRequestSchema,     // Import schema
+  GetPromptRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  SetLevelRequestSchema,
+  ErrorCode,
+  McpError,
   Tool,
   CallToolResult,
 } from "@modelcontextprotocol/sdk/types.js";
 import { ZodError } from "zod";
 import { zodToJsonSchema } from "zod-to-json-schema";
+import { randomUUID } from "node:crypto";
 // Correct import assertion syntax for JSON modules
 import pkg from '../package.json' with { type: "json" };
 import {
     GetInterfaceDetailsArgsSchema,
+    GetInterfacesBatchArgsSchema,
     ListInterfacesByCategoryArgsSchema,
     GetProjectInterfaceMenuArgsSchema,
     GetProjectInfoArgsSchema,
+    ListProjectsArgsSchema,
+    GenerateTypeScriptTypesArgsSchema,
+    ExportOpenApiArgsSchema,
+    SearchInterfacesArgsSchema,
+    RecentChangesArgsSchema,
+    RefreshCacheArgsSchema,
+    CreateSnapshotArgsSchema,
+    DiffSnapshotArgsSchema,
+    ValidatePayloadArgsSchema,
+    CallInterfaceArgsSchema,
+    GenerateRequestSnippetArgsSchema,
+    OutputFormatArgsSchema,
+    SaveInterfaceArgsSchema,
+    UpdateInterfaceArgsSchema,
+    AddCategoryArgsSchema,
+    ImportOpenApiArgsSchema,
 } from "./schemas.js";
-import { YapiService } from "./yapiService.js";
+import { YapiProjectRegistry } from "./projectRegistry.js";
+import { isResourceAffected, listResources, listResourceTemplates, readResource, validateResourceUri } from "./resources.js";
+import { listPrompts, getPrompt } from "./prompts.js";
+import { generateTypeScriptTypes } from "./typescriptGenerator.js";
+import { buildOpenApiDocument } from "./openapi.js";
+import { importOpenApi } from "./openapiImport.js";
+import { getSearchIndex } from "./interfaceSearch.js";
+import { getInterfacesBatch } from "./interfaceBatch.js";
+import { filterCategoryListing, filterMenu, toUnixSeconds } from "./interfaceFilter.js";
+import { ChangeWatcher, listRecentChanges, MenuChangeEvent } from "./changeFeed.js";
+import { createSnapshot, readSnapshot, writeSnapshot } from "./snapshot.js";
+import { resolveToolFile } from "./toolFiles.js";
+import { diffSnapshots } from "./contractDiff.js";
+import { validatePayload } from "./contractValidation.js";
+import { callInterface } from "./interfaceCaller.js";
+import { generateRequestSnippets } from "./requestSnippets.js";
+import { formatToolResult } from "./formatters.js";
 import { YapiError, ConfigurationError } from "./errors.js";
+import { toolCallsTotal, toolCallDuration, toolErrorsTotal } from "./metrics.js";
+import { createLogger, getLogContext, setMcpLogLevel, withLogContext } from "./logger.js";
+
+const log = createLogger('MCP');
 
 // Use imported package info
 const { name: packageName, version: packageVersion } = pkg;
@@ -39,15 +85,21 @@ const TOOLS: Tool[] = [
     inputSchema: zodToJsonSchema(GetInterfaceDetailsArgsSchema) as McpToolInputSchema,
     annotations: { readOnlyHint: true, title: "Get YAPI Interface Details" }
   },
+  {
+    name: "yapi_get_interfaces_batch",
+    description: "一次获取多个 YAPI 接口的详细信息（按接口 ID 列表或分类 ID），并发请求，每个接口单独返回成功结果或错误，不会因单个接口失败而整体失败。可通过 fields 只返回需要的字段以节省 token。",
+    inputSchema: zodToJsonSchema(GetInterfacesBatchArgsSchema) as McpToolInputSchema,
+    annotations: { readOnlyHint: true, title: "Get YAPI Interface Details in Batch" }
+  },
   {
     name: "yapi_list_interfaces_by_category",
-    description: "获取 YAPI 中指定分类下的所有接口列表（仅包含基本信息如名称、路径、方法）。支持分页。",
+    description: "获取 YAPI 中指定分类下的所有接口列表（仅包含基本信息如名称、路径、方法）。支持分页，或通过 all=true 自动翻页获取全部接口；可按方法、状态、标签、路径前缀和更新时间过滤。",
     inputSchema: zodToJsonSchema(ListInterfacesByCategoryArgsSchema) as McpToolInputSchema,
     annotations: { readOnlyHint: true, title: "List YAPI Interfaces by Category"}
   },
   {
     name: "yapi_get_project_interface_menu",
-    description: "获取当前 YAPI 项目的完整接口菜单，包含所有分类及其下的接口列表（仅含基本信息）。",
+    description: "获取当前 YAPI 项目的完整接口菜单，包含所有分类及其下的接口列表（仅含基本信息）。可按方法、状态、标签、路径前缀和更新时间跨分类过滤接口，例如查找 /order 下所有未完成的 POST 接口。",
     inputSchema: zodToJsonSchema(GetProjectInterfaceMenuArgsSchema) as McpToolInputSchema,
     annotations: { readOnlyHint: true, title: "Get YAPI Project Menu" }
   },
@@ -56,15 +108,117 @@ const TOOLS: Tool[] = [
     description: "获取当前配置 Token 所对应 YAPI 项目的基本信息。",
     inputSchema: zodToJsonSchema(GetProjectInfoArgsSchema) as McpToolInputSchema,
     annotations: { readOnlyHint: true, title: "Get YAPI Project Info" }
+  },
+  {
+    name: "yapi_list_projects",
+    description: "列出服务器已配置的 YAPI 项目（别名、项目 ID、实例地址、是否默认）。其他工具可通过 project 参数选择项目。",
+    inputSchema: zodToJsonSchema(ListProjectsArgsSchema) as McpToolInputSchema,
+    annotations: { readOnlyHint: true, title: "List Configured YAPI Projects" }
+  },
+  {
+    name: "yapi_generate_typescript_types",
+    description: "根据 YAPI 接口定义生成 TypeScript 类型声明（路径参数、Query、请求头、请求体与响应体）。",
+    inputSchema: zodToJsonSchema(GenerateTypeScriptTypesArgsSchema) as McpToolInputSchema,
+    annotations: { readOnlyHint: true, title: "Generate TypeScript Types for YAPI Interface" }
+  },
+  {
+    name: "yapi_generate_request_snippet",
+    description: "根据 YAPI 接口定义生成可直接运行的请求代码（curl、fetch、axios，可选 Python requests）：地址由项目环境域名 + basepath + path 组成，路径参数、Query、请求头和请求体（表单或 JSON）按文档中的示例值和请求体 Schema 填充，缺少示例的值以 <name> 占位并在 notes 中列出。",
+    inputSchema: zodToJsonSchema(GenerateRequestSnippetArgsSchema) as McpToolInputSchema,
+    annotations: { readOnlyHint: true, title: "Generate Request Snippets for YAPI Interface" }
+  },
+  {
+    name: "yapi_export_openapi",
+    description: "将当前 YAPI 项目整体导出为 OpenAPI 3.1 文档（分类映射为 tags，接口映射为 paths）。项目较大时耗时较长。",
+    inputSchema: zodToJsonSchema(ExportOpenApiArgsSchema) as McpToolInputSchema,
+    annotations: { readOnlyHint: true, title: "Export YAPI Project as OpenAPI" }
+  },
+  {
+    name: "yapi_search_interfaces",
+    description: "在项目全部接口中全文搜索（标题、路径、标签、分类、描述、参数名），按相关度排序，并可按方法、状态、标签、分类过滤。适合在不知道接口 ID 时查找接口。",
+    inputSchema: zodToJsonSchema(SearchInterfacesArgsSchema) as McpToolInputSchema,
+    annotations: { readOnlyHint: true, title: "Search YAPI Interfaces" }
+  },
+  {
+    name: "yapi_recent_changes",
+    description: "报告指定时间之后新增或更新的接口（按更新时间倒序），包含分类、状态、最后编辑者 uid 和更新时间，适合了解接口团队最近的改动或生成每日摘要。",
+    inputSchema: zodToJsonSchema(RecentChangesArgsSchema) as McpToolInputSchema,
+    annotations: { readOnlyHint: true, title: "List Recent YAPI Interface Changes" }
+  },
+  {
+    name: "yapi_refresh_cache",
+    description: "清除服务器缓存的 YAPI 响应，使下次调用直接从 YAPI 获取最新数据。可只刷新单个接口的详情。",
+    inputSchema: zodToJsonSchema(RefreshCacheArgsSchema) as McpToolInputSchema,
+    annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true, title: "Refresh YAPI Cache" }
+  },
+  {
+    name: "yapi_create_snapshot",
+    description: "将当前 YAPI 项目的完整接口定义（项目信息、接口菜单及全部接口详情）保存为本地 JSON 快照文件，供 yapi_diff_snapshot 对比使用。项目较大时耗时较长。",
+    inputSchema: zodToJsonSchema(CreateSnapshotArgsSchema) as McpToolInputSchema,
+    annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false, title: "Create YAPI Project Snapshot" }
+  },
+  {
+    name: "yapi_diff_snapshot",
+    description: "对比两个项目快照，或对比快照与 YAPI 中的当前项目，列出新增、删除的接口以及接口参数/请求体/响应体字段的变化，并标记破坏性变更（删除字段、新增必填参数、类型变更等）。接口按 method + path 匹配。",
+    inputSchema: zodToJsonSchema(DiffSnapshotArgsSchema) as McpToolInputSchema,
+    annotations: { readOnlyHint: true, title: "Diff YAPI Project Snapshots" }
+  },
+  {
+    name: "yapi_validate_payload",
+    description: "按 YAPI 接口定义校验真实的请求或响应数据：请求校验必填的 query、请求头、表单字段及请求体 JSON Schema，响应校验响应体 JSON Schema。返回精确到字段路径的违规项，用于判断是后端还是客户端偏离了文档约定。",
+    inputSchema: zodToJsonSchema(ValidatePayloadArgsSchema) as McpToolInputSchema,
+    annotations: { readOnlyHint: true, title: "Validate Payload Against YAPI Interface" }
+  },
+  {
+    name: "yapi_call_interface",
+    description: "按 YAPI 接口定义向真实环境发送请求：地址由项目环境域名（或指定的 domain）+ basepath + path（替换路径参数）组成，并附带文档中的默认请求头。返回状态码、响应头和响应体，可选按 res_body 校验响应。注意：会对目标服务产生真实调用。",
+    inputSchema: zodToJsonSchema(CallInterfaceArgsSchema) as McpToolInputSchema,
+    annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: false, openWorldHint: true, title: "Call YAPI Interface" }
+  },
+  {
+    name: "yapi_save_interface",
+    description: "在指定分类下新增 YAPI 接口；若项目中已存在相同 path + method 的接口则覆盖其定义。",
+    inputSchema: zodToJsonSchema(SaveInterfaceArgsSchema) as McpToolInputSchema,
+    annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true, title: "Save YAPI Interface" }
+  },
+  {
+    name: "yapi_update_interface",
+    description: "按 ID 更新已有 YAPI 接口，仅修改传入的字段。",
+    inputSchema: zodToJsonSchema(UpdateInterfaceArgsSchema) as McpToolInputSchema,
+    annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true, title: "Update YAPI Interface" }
+  },
+  {
+    name: "yapi_add_category",
+    description: "在当前 YAPI 项目中新增接口分类。",
+    inputSchema: zodToJsonSchema(AddCategoryArgsSchema) as McpToolInputSchema,
+    annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false, title: "Add YAPI Category" }
+  },
+  {
+    name: "yapi_import_openapi",
+    description: "从服务器文件目录中的 OpenAPI 3.x / Swagger 2.0 文件 (JSON 或 YAML) 导入接口：每个 operation 转换为 YAPI 接口 (路径参数、Query、请求头、表单或 JSON 请求体、响应体)，按第一个 tag 归入分类 (缺少的分类自动创建)。已存在的接口 (method + path 相同) 按 strategy 跳过、覆盖或合并。dry_run 为 true 时只预览变更，不写入。",
+    inputSchema: zodToJsonSchema(ImportOpenApiArgsSchema) as McpToolInputSchema,
+    annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true, title: "Import OpenAPI into YAPI" }
   }
 ];
 
+export interface McpServerOptions {
+    /** Polls `projects` (the same registry) for changes; when enabled, clients can subscribe to resources */
+    changeWatcher?: ChangeWatcher;
+    /** Real path of the directory for snapshot files and OpenAPI imports; file tools are refused without one */
+    filesDir?: string;
+    /** Origins `yapi_call_interface` may target through `domain` besides the project envs (`*`: any) */
+    allowedCallDomains?: string[];
+}
+
 /**
  * Creates and configures the MCP Server instance.
- * @param yapiService - An instance of the YapiService to handle API calls.
+ * @param projects - Registry of configured YAPI projects; each call is routed by its `project` argument.
+ * @param options - Change watcher, files directory and call domains shared by all server instances.
  * @returns The configured McpServer instance.
  */
-export function createMcpServer(yapiService: YapiService): McpServer {
+export function createMcpServer(projects: YapiProjectRegistry, options: McpServerOptions = {}): McpServer {
+    const { changeWatcher, filesDir, allowedCallDomains } = options;
+    const subscribable = changeWatcher?.isEnabled() ?? false;
     const server = new McpServer(
       {
         name: packageName, // Use name from package.json
@@ -73,70 +227,294 @@ export function createMcpServer(yapiService: YapiService): McpServer {
       {
         capabilities: {
           tools: {},      // Declare support for Tools capability
-          resources: {},  // Declare support for Resources capability
+          // Subscriptions are only offered while the change watcher polls YAPI
+          resources: subscribable ? { subscribe: true, listChanged: true } : {},
           prompts: {},    // Declare support for Prompts capability
-          // Add other capabilities like logging if needed
+          logging: {},    // Server logs are forwarded once the client sets a level
         },
       }
     );
 
     // --- Request Handlers ---
 
+    // Handle logging/setLevel: forward this session's logs as notifications/message
+    server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+        log.info(`Client log level set to '${request.params.level}'`);
+        setMcpLogLevel(server, request.params.level);
+        return {};
+    });
+
     // Handle ListTools requests
     server.setRequestHandler(ListToolsRequestSchema, async () => {
-        console.error("[MCP Request] ListToolsRequestSchema");
+        log.debug("ListToolsRequestSchema");
         return { tools: TOOLS };
     });
 
-    // Add handler for ListResources requests (returns empty for now)
+    // Handle ListResources requests (project, categories and interfaces from the menu)
     server.setRequestHandler(ListResourcesRequestSchema, async () => {
-        console.error("[MCP Request] ListResourcesRequestSchema (No resources implemented)");
-        return { resources: [] }; // Return empty list
+        log.debug("ListResourcesRequestSchema");
+        return { resources: await listResources(projects) };
     });
 
-    // Add handler for ListPrompts requests (returns empty for now)
+    // Handle ListResourceTemplates requests (yapi://category/{catid}, yapi://interface/{id})
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+        log.debug("ListResourceTemplatesRequestSchema");
+        return { resourceTemplates: listResourceTemplates() };
+    });
+
+    // Handle ReadResource requests
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+        const { uri } = request.params;
+        log.info(`ReadResourceRequestSchema: ${uri}`);
+        return readResource(projects, uri).catch(error => {
+            log.error(`Error reading resource ${uri}`, { error });
+            throw error;
+        });
+    });
+
+    // Handle resource subscriptions: the change watcher reports changed interfaces and categories
+    if (changeWatcher && subscribable) {
+        const subscriptions = new Set<string>();
+        let stopWatching: (() => void) | undefined;
+        const onChange = (event: MenuChangeEvent) => {
+            for (const uri of subscriptions) {
+                if (!isResourceAffected(projects, uri, event)) continue;
+                server.sendResourceUpdated({ uri }).catch(error => log.warning(`Failed to send update for ${uri}`, { error }));
+            }
+            if (event.listChanged) {
+                server.sendResourceListChanged().catch(error => log.warning("Failed to send resource list change", { error }));
+            }
+        };
+
+        server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+            const { uri } = request.params;
+            log.info(`SubscribeRequestSchema: ${uri}`);
+            validateResourceUri(projects, uri);
+            subscriptions.add(uri);
+            stopWatching ??= changeWatcher.subscribe(onChange);
+            return {};
+        });
+
+        server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+            const { uri } = request.params;
+            log.info(`UnsubscribeRequestSchema: ${uri}`);
+            subscriptions.delete(uri);
+            if (subscriptions.size === 0) {
+                stopWatching?.();
+                stopWatching = undefined;
+            }
+            return {};
+        });
+
+        // Closed sessions stop polling on their behalf
+        server.onclose = () => {
+            stopWatching?.();
+            stopWatching = undefined;
+        };
+    }
+
+    // Handle ListPrompts requests
     server.setRequestHandler(ListPromptsRequestSchema, async () => {
-        console.error("[MCP Request] ListPromptsRequestSchema (No prompts implemented)");
-        return { prompts: [] }; // Return empty list
+        log.debug("ListPromptsRequestSchema");
+        return { prompts: listPrompts() };
+    });
+
+    // Handle GetPrompt requests (embeds interface details fetched from YAPI)
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+        const { name, arguments: args } = request.params;
+        log.info(`GetPromptRequestSchema: ${name}`);
+        return getPrompt(projects, name, args).catch(error => {
+            log.error(`Error getting prompt ${name}`, { error });
+            throw error;
+        });
     });
 
     // Handle CallTool requests
-    server.setRequestHandler(CallToolRequestSchema, async (request): Promise<CallToolResult> => {
+    // Every record logged during the call carries the tool name and a request ID (reused from the HTTP request if any)
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra): Promise<CallToolResult> => withLogContext({
+        requestId: getLogContext().requestId ?? randomUUID(),
+        sessionId: extra.sessionId,
+        tool: request.params.name,
+    }, async () => {
         const { name, arguments: args } = request.params;
-        console.error(`[MCP Request] CallToolRequestSchema: ${name}`);
-        // Avoid logging potentially sensitive args by default in production
-        // console.error(`[MCP Request] Arguments:`, JSON.stringify(args, null, 2));
+        log.info(`CallToolRequestSchema: ${name}`);
+        // Arguments may contain payloads; they are only logged at debug level (redacted)
+        log.debug('Tool arguments', { args });
+
+        // Unknown names are grouped so clients cannot create unbounded metric series
+        const toolLabel = TOOLS.some(tool => tool.name === name) ? name : 'unknown';
+        const startedAt = Date.now();
+        let outcome = 'success';
 
         try {
-            let data: any; // To store the result from YapiService
+            let data: unknown; // To store the result from YapiService
+            const { format } = OutputFormatArgsSchema.parse(args ?? {});
 
             switch (name) {
             case "yapi_get_interface_details": {
                 const parsedArgs = GetInterfaceDetailsArgsSchema.parse(args);
-                data = await yapiService.getInterfaceDetails(parsedArgs.interface_id);
+                data = await projects.get(parsedArgs.project).getInterfaceDetails(parsedArgs.interface_id);
+                break;
+            }
+            case "yapi_get_interfaces_batch": {
+                const parsedArgs = GetInterfacesBatchArgsSchema.parse(args);
+                data = await getInterfacesBatch(projects.get(parsedArgs.project), {
+                    interfaceIds: parsedArgs.interface_ids,
+                    categoryId: parsedArgs.category_id,
+                    fields: parsedArgs.fields,
+                    concurrency: parsedArgs.concurrency,
+                });
                 break;
             }
             case "yapi_list_interfaces_by_category": {
-                const parsedArgs = ListInterfacesByCategoryArgsSchema.parse(args);
-                data = await yapiService.listInterfacesByCategory(
-                    parsedArgs.category_id,
-                    parsedArgs.page,
-                    parsedArgs.limit
-                );
+                const { project, format: _format, category_id, page, limit, all, ...filter } = ListInterfacesByCategoryArgsSchema.parse(args);
+                const yapiService = projects.get(project);
+                const listing = all
+                    ? await yapiService.listAllInterfacesByCategory(category_id)
+                    : await yapiService.listInterfacesByCategory(category_id, page, limit);
+                data = filterCategoryListing(listing, filter);
                 break;
             }
             case "yapi_get_project_interface_menu": {
-                GetProjectInterfaceMenuArgsSchema.parse(args); // Validate potentially empty args
-                data = await yapiService.getProjectInterfaceMenu();
+                const { project, format: _format, ...filter } = GetProjectInterfaceMenuArgsSchema.parse(args);
+                data = filterMenu(await projects.get(project).getProjectInterfaceMenu(), filter);
                 break;
             }
             case "yapi_get_project_info": {
-                GetProjectInfoArgsSchema.parse(args); // Validate potentially empty args
-                data = await yapiService.getProjectInfo();
+                const parsedArgs = GetProjectInfoArgsSchema.parse(args);
+                data = await projects.get(parsedArgs.project).getProjectInfo();
+                break;
+            }
+            case "yapi_list_projects": {
+                ListProjectsArgsSchema.parse(args); // Validate potentially empty args
+                data = projects.list();
+                break;
+            }
+            case "yapi_generate_typescript_types": {
+                const parsedArgs = GenerateTypeScriptTypesArgsSchema.parse(args);
+                const detail = await projects.get(parsedArgs.project).getInterfaceDetails(parsedArgs.interface_id);
+                const code = generateTypeScriptTypes(detail, parsedArgs.type_name);
+                // Generated code is returned as-is rather than JSON-encoded
+                return {
+                    content: [{ type: "text", text: format === 'markdown' ? `\`\`\`ts\n${code}\`\`\`\n` : code }],
+                };
+            }
+            case "yapi_generate_request_snippet": {
+                const parsedArgs = GenerateRequestSnippetArgsSchema.parse(args);
+                data = await generateRequestSnippets(projects.get(parsedArgs.project), parsedArgs.interface_id, {
+                    languages: parsedArgs.languages,
+                    env: parsedArgs.env,
+                    domain: parsedArgs.domain,
+                });
+                break;
+            }
+            case "yapi_export_openapi": {
+                const parsedArgs = ExportOpenApiArgsSchema.parse(args);
+                data = await buildOpenApiDocument(projects.get(parsedArgs.project), { version: parsedArgs.version });
+                break;
+            }
+            case "yapi_search_interfaces": {
+                const { project, format: _format, ...options } = SearchInterfacesArgsSchema.parse(args);
+                data = await getSearchIndex(projects.get(project)).search(options);
+                break;
+            }
+            case "yapi_recent_changes": {
+                const parsedArgs = RecentChangesArgsSchema.parse(args);
+                data = await listRecentChanges(projects.get(parsedArgs.project), {
+                    since: parsedArgs.since === undefined ? undefined : toUnixSeconds(parsedArgs.since, 'since'),
+                    categoryId: parsedArgs.category_id,
+                    limit: parsedArgs.limit,
+                });
+                break;
+            }
+            case "yapi_refresh_cache": {
+                const parsedArgs = RefreshCacheArgsSchema.parse(args);
+                const yapiService = projects.get(parsedArgs.project);
+                data = {
+                    cache_enabled: yapiService.isCacheEnabled(),
+                    invalidated_entries: yapiService.refreshCache(parsedArgs.interface_id),
+                };
+                break;
+            }
+            case "yapi_create_snapshot": {
+                const parsedArgs = CreateSnapshotArgsSchema.parse(args);
+                const file = await resolveToolFile(filesDir, parsedArgs.path, 'path', 'write');
+                const snapshot = await createSnapshot(projects.get(parsedArgs.project));
+                await writeSnapshot(file, snapshot);
+                data = {
+                    path: parsedArgs.path,
+                    created_at: snapshot.created_at,
+                    project_id: snapshot.project._id,
+                    interfaces: Object.keys(snapshot.interfaces).length,
+                };
+                break;
+            }
+            case "yapi_diff_snapshot": {
+                const parsedArgs = DiffSnapshotArgsSchema.parse(args);
+                const base = await readSnapshot(await resolveToolFile(filesDir, parsedArgs.base_path, 'base_path', 'read'));
+                // Without a target snapshot the live project is compared
+                const target = parsedArgs.target_path
+                    ? await readSnapshot(await resolveToolFile(filesDir, parsedArgs.target_path, 'target_path', 'read'))
+                    : await createSnapshot(projects.get(parsedArgs.project));
+                data = diffSnapshots(base, target, {
+                    baseLabel: parsedArgs.base_path,
+                    targetLabel: parsedArgs.target_path ?? projects.get(parsedArgs.project).getOfflineLocation() ?? 'live',
+                    breakingOnly: parsedArgs.breaking_only,
+                });
+                break;
+            }
+            case "yapi_validate_payload": {
+                const { project, interface_id, direction, format: _format, ...payload } = ValidatePayloadArgsSchema.parse(args);
+                const detail = await projects.get(project).getInterfaceDetails(interface_id);
+                data = validatePayload(detail, direction, payload);
+                break;
+            }
+            case "yapi_call_interface": {
+                const parsedArgs = CallInterfaceArgsSchema.parse(args);
+                data = await callInterface(projects.get(parsedArgs.project), parsedArgs.interface_id, {
+                    env: parsedArgs.env,
+                    domain: parsedArgs.domain,
+                    allowedDomains: allowedCallDomains,
+                    pathParams: parsedArgs.path_params,
+                    query: parsedArgs.query,
+                    headers: parsedArgs.headers,
+                    body: parsedArgs.body,
+                    validateResponse: parsedArgs.validate_response,
+                    timeoutMs: parsedArgs.timeout_ms,
+                });
+                break;
+            }
+            case "yapi_save_interface": {
+                const { project, format: _format, ...payload } = SaveInterfaceArgsSchema.parse(args);
+                data = await projects.get(project).saveInterface(payload);
+                break;
+            }
+            case "yapi_update_interface": {
+                const { project, format: _format, ...payload } = UpdateInterfaceArgsSchema.parse(args);
+                data = await projects.get(project).updateInterface(payload);
+                break;
+            }
+            case "yapi_add_category": {
+                const parsedArgs = AddCategoryArgsSchema.parse(args);
+                data = await projects.get(parsedArgs.project).addCategory(parsedArgs.name, parsedArgs.desc);
+                break;
+            }
+            case "yapi_import_openapi": {
+                const parsedArgs = ImportOpenApiArgsSchema.parse(args);
+                const file = await resolveToolFile(filesDir, parsedArgs.path, 'path', 'read');
+                const result = await importOpenApi(projects.get(parsedArgs.project), file, {
+                    strategy: parsedArgs.strategy,
+                    dryRun: parsedArgs.dry_run,
+                    categoryId: parsedArgs.category_id,
+                });
+                // Report the path as given, not where the files directory lives
+                data = { ...result, source: { ...result.source, file: parsedArgs.path } };
                 break;
             }
             default:
-                console.error(`Unknown tool called: ${name}`);
+                log.warning(`Unknown tool called: ${name}`);
+                outcome = 'error';
+                toolErrorsTotal.inc({ tool: toolLabel, type: 'unknown_tool', errcode: 'none' });
                 // Use a structured error response
                 return {
                     isError: true,
@@ -144,13 +522,22 @@ export function createMcpServer(yapiService: YapiService): McpServer {
                 };
             }
 
-            // Successfully got data, format it as JSON string for the LLM
+            // Successfully got data, serialize it in the requested format for the LLM
             return {
-                content: [{ type: "text", text: JSON.stringify(data, null, 2) }],
+                content: [{ type: "text", text: formatToolResult(name, data, format) }],
             };
 
         } catch (error) {
-            console.error(`[MCP Error] Error processing tool ${name}:`, error);
+            log.error(`Error processing tool ${name}`, { error });
+            outcome = 'error';
+            toolErrorsTotal.inc({
+                tool: toolLabel,
+                type: error instanceof ZodError || (error instanceof McpError && error.code === ErrorCode.InvalidParams) ? 'invalid_params'
+                    : error instanceof YapiError ? 'yapi'
+                    : error instanceof ConfigurationError ? 'configuration'
+                    : 'internal',
+                errcode: error instanceof YapiError && error.errcode !== undefined ? String(error.errcode) : 'none',
+            });
             let errorMessage = `Error processing tool ${name}.`;
             let errorCode = -32000; // Default internal server error for MCP
 
@@ -158,17 +545,18 @@ export function createMcpServer(yapiService: YapiService): McpServer {
                 errorCode = -32602; // Invalid Params
                 errorMessage = `Invalid arguments for tool ${name}: ${error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')}`;
             } else if (error instanceof YapiError) {
-                errorMessage = `YAPI API Error for tool ${name}: ${error.message}${error.errcode ? ` (YAPI Code: ${error.errcode})` : ''}${error.status ? ` (HTTP Status: ${error.status})` : ''}`;
+                errorMessage = `YAPI API Error for tool ${name}: ${error.message}${error.errcode ? ` (YAPI Code: ${error.errcode})` : ''}${error.status ? ` (HTTP Status: ${error.status})` : ''}${error.attempts ? ` (Attempts: ${error.attempts}, Elapsed: ${error.elapsedMs}ms)` : ''}`;
                 // Map specific YAPI/HTTP errors to MCP codes if desired, e.g.:
                  if (error.status === 401 || error.status === 403 || error.errcode === 40011) errorCode = -32001; // Unauthorized/Forbidden
                  if (error.status === 404) errorCode = -32002; // Resource Not Found (approximated)
+            } else if (error instanceof McpError) {
+                 errorMessage = `Error for tool ${name}: ${error.message}`;
+                 errorCode = error.code;
             } else if (error instanceof ConfigurationError) {
                  errorMessage = `Configuration Error for tool ${name}: ${error.message}`;
                  errorCode = -32003; // Configuration Error (custom)
             } else if (error instanceof Error) {
                 errorMessage = `Internal server error executing tool ${name}. See server logs for details.`; // Don't leak stack trace to client
-                // Log the full error on the server side
-                console.error(`Internal error stack trace for tool ${name}:`, error.stack);
             } else {
                 errorMessage = `An unknown error occurred while processing tool ${name}.`;
             }
@@ -186,8 +574,11 @@ export function createMcpServer(yapiService: YapiService): McpServer {
                 // Content can still be provided, e.g., a user-friendly error message
                 content: [{ type: "text", text: errorMessage }],
             };
+        } finally {
+            toolCallsTotal.inc({ tool: toolLabel, outcome });
+            toolCallDuration.observe({ tool: toolLabel }, (Date.now() - startedAt) / 1000);
         }
-    });
+    }));
 
     return server;
 }
\ No newline at end of file
@@ -0,0 +1,143 @@
+type Labels = Record<string, string>;
+
+// Latency buckets in seconds, from cache hits to slow YAPI exports
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return '';
+  return `{${entries.map(([name, value]) => `${name}="${escapeLabelValue(value)}"`).join(',')}}`;
+}
+
+// Stable key for one label combination
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+interface Metric {
+  render(): string[];
+}
+
+export class Counter implements Metric {
+  private readonly values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(private readonly name: string, private readonly help: string) {}
+
+  inc(labels: Labels = {}, value: number = 1): void {
+    const key = labelKey(labels);
+    const series = this.values.get(key) ?? { labels, value: 0 };
+    series.value += value;
+    this.values.set(key, series);
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} counter`,
+      ...[...this.values.values()].map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`),
+    ];
+  }
+}
+
+export class Histogram implements Metric {
+  private readonly series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+  constructor(private readonly name: string, private readonly help: string, private readonly buckets: number[] = DEFAULT_BUCKETS) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = labelKey(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels, counts: new Array(this.buckets.length).fill(0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) series!.counts[index]++;
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    for (const { labels, counts, sum, count } of this.series.values()) {
+      this.buckets.forEach((bound, index) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${counts[index]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines;
+  }
+}
+
+/**
+ * Gauge whose value is read at scrape time (e.g. the number of active sessions).
+ */
+export class CallbackGauge implements Metric {
+  constructor(private readonly name: string, private readonly help: string, private readonly collect: () => number) {}
+
+  render(): string[] {
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} gauge`, `${this.name} ${this.collect()}`];
+  }
+}
+
+/**
+ * Minimal Prometheus registry (text exposition format 0.0.4), so no client library is needed.
+ */
+export class MetricsRegistry {
+  private readonly metrics: Metric[] = [];
+
+  counter(name: string, help: string): Counter {
+    return this.register(new Counter(name, help));
+  }
+
+  histogram(name: string, help: string, buckets?: number[]): Histogram {
+    return this.register(new Histogram(name, help, buckets));
+  }
+
+  gauge(name: string, help: string, collect: () => number): CallbackGauge {
+    return this.register(new CallbackGauge(name, help, collect));
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    this.metrics.push(metric);
+    return metric;
+  }
+
+  /**
+   * Renders all metrics in the Prometheus text exposition format.
+   */
+  render(): string {
+    return this.metrics.flatMap(metric => metric.render()).join('\n') + '\n';
+  }
+}
+
+// --- Server Metrics ---
+
+export const metrics = new MetricsRegistry();
+
+export const toolCallsTotal = metrics.counter(
+  'yapi_mcp_tool_calls_total',
+  'MCP tool calls by tool and outcome (success or error).'
+);
+
+export const toolCallDuration = metrics.histogram(
+  'yapi_mcp_tool_call_duration_seconds',
+  'Duration of MCP tool calls in seconds.'
+);
+
+export const toolErrorsTotal = metrics.counter(
+  'yapi_mcp_tool_errors_total',
+  'Failed MCP tool calls by tool, error type and YAPI errcode ("none" when YAPI returned no errcode).'
+);
+
+export const upstreamRequestDuration = metrics.histogram(
+  'yapi_upstream_request_duration_seconds',
+  'Duration of HTTP requests to YAPI (per attempt) by endpoint, method and HTTP status ("error" for network failures, "timeout" for timeouts).'
+);
@@ -0,0 +1,404 @@
+import { randomUUID } from 'node:crypto';
+import { YapiInterfaceDetail } from './schemas.js';
+import { JsonSchema } from './typescriptGenerator.js';
+
+// JSON Schemas from YAPI have no $ref, but guard against pathological nesting anyway
+const MAX_MOCK_DEPTH = 16;
+
+const WORDS = ['lorem', 'ipsum', 'dolor', 'sit', 'amet', 'consectetur', 'adipiscing', 'elit', 'sed', 'tempor'];
+const CHINESE_CHARS = '的一是在不了有和人这中大为上个国我以要他时来用们生到作地于出就分对成会可主发年动同工也能下过子说产种面而方后多定行学法所民得经十三之进着等部度家电力里如水化高自二理起小物现实加量都两体制机当使点从业本去把性好应开它合还因由其些然前外天政四日那社义事平形相全表间样与关各重新线内数正心反你明看原又么利比或但质气第向道命此变条只没结解问意建月公无系军很情者最立代想已通并提直题党程展五果料象员革位入常文总次品式活设及管特件长求老头基资边流路级少图山统接知较将组见计别她手角期根论运农指几九区强放决西被干做必战先回则任取据处理世车';
+const SURNAMES = ['王', '李', '张', '刘', '陈', '杨', '赵', '黄', '周', '吴'];
+const FIRST_NAMES = ['James', 'Mary', 'John', 'Linda', 'Robert', 'Susan', 'David', 'Karen'];
+const LAST_NAMES = ['Smith', 'Johnson', 'Brown', 'Miller', 'Davis', 'Wilson', 'Moore', 'Taylor'];
+const CITIES = ['北京市', '上海市', '广州市', '深圳市', '杭州市', '成都市', '武汉市', '南京市'];
+
+let incrementCounter = 0;
+
+function randomInt(min: number, max: number): number {
+  return Math.floor(Math.random() * (max - min + 1)) + min;
+}
+
+function pickOne<T>(items: readonly T[]): T {
+  return items[randomInt(0, items.length - 1)];
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+function formatDate(date: Date, withTime: boolean): string {
+  const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  return withTime ? `${day} ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}` : day;
+}
+
+function randomDate(): Date {
+  return new Date(Date.now() - randomInt(0, 365 * 24 * 3600) * 1000);
+}
+
+function randomWord(min: number = 3, max: number = 10): string {
+  return Array.from({ length: randomInt(min, max) }, () => String.fromCharCode(randomInt(97, 122))).join('');
+}
+
+function randomChinese(min: number, max: number): string {
+  return Array.from({ length: randomInt(min, max) }, () => pickOne([...CHINESE_CHARS])).join('');
+}
+
+function numberArgs(args: string[]): number[] {
+  return args.map(Number).filter(value => !Number.isNaN(value));
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/**
+ * Resolves one Mock.js placeholder (as used by YAPI's mock hints), e.g. "@guid" or "@integer(1, 100)".
+ * Returns undefined for placeholders that are not supported.
+ */
+function resolvePlaceholder(name: string, args: string[]): unknown {
+  const [a, b, c, d] = numberArgs(args);
+  switch (name.toLowerCase()) {
+    case 'guid':
+    case 'uuid':
+      return randomUUID();
+    case 'id':
+      return String(randomInt(100000, 999999)) + String(randomInt(100000000000, 999999999999));
+    case 'increment':
+      return (incrementCounter += a ?? 1);
+    case 'boolean':
+    case 'bool':
+      return Math.random() < 0.5;
+    case 'natural':
+      return randomInt(a ?? 0, b ?? 10000);
+    case 'integer':
+    case 'int':
+      return randomInt(a ?? -10000, b ?? 10000);
+    case 'float': {
+      const decimals = randomInt(c ?? 0, d ?? 2);
+      return Number((randomInt(a ?? 0, b ?? 1000) + Math.random()).toFixed(decimals));
+    }
+    case 'character':
+      return String.fromCharCode(randomInt(97, 122));
+    case 'string':
+      return randomWord(a ?? 3, b ?? a ?? 10);
+    case 'word':
+      return randomWord(a ?? 3, b ?? a ?? 10);
+    case 'title':
+      return Array.from({ length: randomInt(3, 7) }, () => capitalize(randomWord())).join(' ');
+    case 'sentence':
+      return capitalize(Array.from({ length: randomInt(6, 12) }, () => randomWord()).join(' ')) + '.';
+    case 'paragraph':
+      return Array.from({ length: randomInt(3, 5) }, () => capitalize(Array.from({ length: randomInt(6, 12) }, () => randomWord()).join(' ')) + '.').join(' ');
+    case 'cword':
+      return randomChinese(a ?? 1, b ?? a ?? 1);
+    case 'ctitle':
+      return randomChinese(a ?? 3, b ?? 7);
+    case 'csentence':
+      return randomChinese(a ?? 12, b ?? 18) + '。';
+    case 'cparagraph':
+      return Array.from({ length: randomInt(3, 5) }, () => randomChinese(12, 18) + '。').join('');
+    case 'first':
+      return pickOne(FIRST_NAMES);
+    case 'last':
+      return pickOne(LAST_NAMES);
+    case 'name':
+      return `${pickOne(FIRST_NAMES)} ${pickOne(LAST_NAMES)}`;
+    case 'cfirst':
+      return pickOne(SURNAMES);
+    case 'clast':
+      return randomChinese(1, 2);
+    case 'cname':
+      return pickOne(SURNAMES) + randomChinese(1, 2);
+    case 'email':
+      return `${randomWord(4, 8)}@${randomWord(4, 8)}.com`;
+    case 'url':
+      return `http://${randomWord(4, 8)}.com/${randomWord(3, 6)}`;
+    case 'domain':
+      return `${randomWord(4, 8)}.com`;
+    case 'ip':
+      return Array.from({ length: 4 }, () => randomInt(1, 254)).join('.');
+    case 'color':
+      return `#${randomInt(0, 0xffffff).toString(16).padStart(6, '0')}`;
+    case 'image':
+    case 'dataimage':
+      return 'https://dummyimage.com/200x100';
+    case 'date':
+      return formatDate(randomDate(), false);
+    case 'time':
+      return formatDate(randomDate(), true).slice(11);
+    case 'datetime':
+      return formatDate(randomDate(), true);
+    case 'now':
+      return formatDate(new Date(), true);
+    case 'timestamp':
+      return Math.floor(randomDate().getTime() / 1000);
+    case 'province':
+    case 'region':
+      return pickOne(['北京', '上海', '广东省', '浙江省', '四川省', '湖北省', '江苏省']);
+    case 'city':
+      return pickOne(CITIES);
+    case 'county':
+      return pickOne(['朝阳区', '浦东新区', '天河区', '南山区', '西湖区']);
+    case 'zip':
+      return String(randomInt(100000, 999999));
+    default:
+      return undefined;
+  }
+}
+
+const WHOLE_PLACEHOLDER = /^@([A-Za-z]+)(?:\((.*)\))?$/;
+const EMBEDDED_PLACEHOLDER = /@([A-Za-z]+)(?:\(([^)]*)\))?/g;
+
+function splitArgs(args: string | undefined): string[] {
+  return args ? args.split(',').map(arg => arg.trim().replace(/^['"]|['"]$/g, '')) : [];
+}
+
+/**
+ * Expands Mock.js placeholders in a string. A string that is exactly one placeholder keeps the
+ * placeholder's type (e.g. "@integer" becomes a number); embedded placeholders are interpolated.
+ */
+export function expandPlaceholders(text: string): unknown {
+  const whole = WHOLE_PLACEHOLDER.exec(text.trim());
+  if (whole) {
+    const value = resolvePlaceholder(whole[1], splitArgs(whole[2]));
+    return value === undefined ? text : value;
+  }
+  return text.replace(EMBEDDED_PLACEHOLDER, (match, name: string, args: string | undefined) => {
+    const value = resolvePlaceholder(name, splitArgs(args));
+    return value === undefined ? match : String(value);
+  });
+}
+
+// "name|rule" keys of Mock.js templates, e.g. "list|1-10", "id|+1", "price|1-100.1-2"
+const RULE_KEY = /^(.+)\|(.+)$/;
+
+// --- JSON Schema ---
+
+function mockHint(schema: JsonSchema): unknown {
+  // YAPI's schema editor stores hints as { "mock": { "mock": "@guid" } }
+  const mock = schema.mock as { mock?: unknown } | undefined;
+  return mock && typeof mock === 'object' && mock.mock !== undefined && mock.mock !== '' ? mock.mock : undefined;
+}
+
+function coerceToType(value: unknown, type: string | undefined): unknown {
+  if (typeof value !== 'string') return value;
+  if ((type === 'integer' || type === 'number') && value.trim() !== '' && !Number.isNaN(Number(value))) return Number(value);
+  if (type === 'boolean' && (value === 'true' || value === 'false')) return value === 'true';
+  return value;
+}
+
+function stringForFormat(format: unknown): string {
+  switch (format) {
+    case 'date-time':
+      return new Date().toISOString();
+    case 'date':
+      return formatDate(randomDate(), false);
+    case 'email':
+      return resolvePlaceholder('email', []) as string;
+    case 'uri':
+    case 'url':
+      return resolvePlaceholder('url', []) as string;
+    case 'uuid':
+      return randomUUID();
+    case 'ipv4':
+      return resolvePlaceholder('ip', []) as string;
+    default:
+      return randomWord();
+  }
+}
+
+/**
+ * Generates a value satisfying a JSON Schema. Precedence: YAPI mock hint, const, enum,
+ * default, example, then a random value of the declared type respecting basic bounds.
+ */
+export function generateFromSchema(schema: JsonSchema, depth: number = 0): unknown {
+  const type = Array.isArray(schema.type) ? schema.type.find(item => item !== 'null') : schema.type;
+
+  const hint = mockHint(schema);
+  if (hint !== undefined) {
+    return coerceToType(typeof hint === 'string' ? expandPlaceholders(hint) : hint, type);
+  }
+  if (schema.const !== undefined) return schema.const;
+  if (schema.enum && schema.enum.length > 0) return pickOne(schema.enum);
+  if (schema.default !== undefined) return schema.default;
+  if (schema.example !== undefined) return schema.example;
+  if (Array.isArray(schema.examples) && schema.examples.length > 0) return schema.examples[0];
+
+  const variants = schema.oneOf ?? schema.anyOf;
+  if (variants && variants.length > 0) return generateFromSchema(variants[0], depth + 1);
+  if (schema.allOf && schema.allOf.length > 0) {
+    return Object.assign({}, ...schema.allOf.map(subschema => generateFromSchema(subschema, depth + 1)));
+  }
+
+  const resolvedType = type ?? (schema.properties ? 'object' : schema.items ? 'array' : undefined);
+  if (depth >= MAX_MOCK_DEPTH) return resolvedType === 'array' ? [] : resolvedType === 'object' ? {} : null;
+
+  switch (resolvedType) {
+    case 'object': {
+      const result: Record<string, unknown> = {};
+      for (const [name, propSchema] of Object.entries(schema.properties ?? {})) {
+        result[name] = generateFromSchema(propSchema, depth + 1);
+      }
+      return result;
+    }
+    case 'array': {
+      const itemSchema = Array.isArray(schema.items) ? schema.items[0] : schema.items;
+      if (!itemSchema) return [];
+      const minItems = typeof schema.minItems === 'number' ? schema.minItems : 1;
+      const maxItems = typeof schema.maxItems === 'number' ? schema.maxItems : Math.max(minItems, 3);
+      return Array.from({ length: randomInt(minItems, Math.max(minItems, maxItems)) }, () => generateFromSchema(itemSchema, depth + 1));
+    }
+    case 'integer':
+    case 'number': {
+      const min = typeof schema.minimum === 'number' ? schema.minimum : 1;
+      const max = typeof schema.maximum === 'number' ? schema.maximum : Math.max(min, 1000);
+      const value = resolvedType === 'integer' ? randomInt(Math.ceil(min), Math.floor(max)) : Number((min + Math.random() * (max - min)).toFixed(2));
+      return value;
+    }
+    case 'boolean':
+      return Math.random() < 0.5;
+    case 'null':
+      return null;
+    case 'string': {
+      let value = stringForFormat(schema.format);
+      if (typeof schema.minLength === 'number' && value.length < schema.minLength) value = value.padEnd(schema.minLength, 'x');
+      if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) value = value.slice(0, schema.maxLength);
+      return value;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Builds a stable example value for documentation and code snippets (unlike generateFromSchema,
+ * no randomness): const, enum, default or example when present, otherwise a placeholder of the
+ * declared type. Mock hints are ignored since they describe random data.
+ */
+export function exampleFromSchema(schema: JsonSchema, depth: number = 0): unknown {
+  if (schema.const !== undefined) return schema.const;
+  if (schema.enum && schema.enum.length > 0) return schema.enum[0];
+  if (schema.default !== undefined) return schema.default;
+  if (schema.example !== undefined) return schema.example;
+  if (Array.isArray(schema.examples) && schema.examples.length > 0) return schema.examples[0];
+
+  const variants = schema.oneOf ?? schema.anyOf;
+  if (variants && variants.length > 0) return exampleFromSchema(variants[0], depth + 1);
+  if (schema.allOf && schema.allOf.length > 0) {
+    return Object.assign({}, ...schema.allOf.map(subschema => exampleFromSchema(subschema, depth + 1)));
+  }
+
+  const type = Array.isArray(schema.type) ? schema.type.find(item => item !== 'null') : schema.type;
+  const resolvedType = type ?? (schema.properties ? 'object' : schema.items ? 'array' : undefined);
+  if (depth >= MAX_MOCK_DEPTH) return resolvedType === 'array' ? [] : resolvedType === 'object' ? {} : null;
+
+  switch (resolvedType) {
+    case 'object':
+      return Object.fromEntries(Object.entries(schema.properties ?? {}).map(([name, propSchema]) => [name, exampleFromSchema(propSchema, depth + 1)]));
+    case 'array': {
+      const itemSchema = Array.isArray(schema.items) ? schema.items[0] : schema.items;
+      return itemSchema ? [exampleFromSchema(itemSchema, depth + 1)] : [];
+    }
+    case 'integer':
+    case 'number':
+      return typeof schema.minimum === 'number' ? schema.minimum : 0;
+    case 'boolean':
+      return true;
+    case 'null':
+      return null;
+    case 'string':
+      switch (schema.format) {
+        case 'date-time':
+          return '2024-01-01T00:00:00Z';
+        case 'date':
+          return '2024-01-01';
+        case 'email':
+          return 'user@example.com';
+        case 'uri':
+        case 'url':
+          return 'https://example.com';
+        case 'uuid':
+          return '00000000-0000-0000-0000-000000000000';
+        default:
+          return 'string';
+      }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Strips Mock.js "name|rule" suffixes from the keys of a JSON sample, keeping the values.
+ */
+export function exampleFromSample(sample: unknown, depth: number = 0): unknown {
+  if (depth >= MAX_MOCK_DEPTH || sample === null || typeof sample !== 'object') return sample;
+  if (Array.isArray(sample)) return sample.map(item => exampleFromSample(item, depth + 1));
+  return Object.fromEntries(Object.entries(sample).map(([key, value]) => {
+    const rule = RULE_KEY.exec(key);
+    return [rule ? rule[1] : key, exampleFromSample(value, depth + 1)];
+  }));
+}
+
+// --- Mock.js Templates ---
+
+function ruleCount(rule: string): number | undefined {
+  const range = /^(\d+)-(\d+)$/.exec(rule);
+  if (range) return randomInt(Number(range[1]), Number(range[2]));
+  return /^\d+$/.test(rule) ? Number(rule) : undefined;
+}
+
+function applyRule(value: unknown, rule: string, depth: number): unknown {
+  const count = ruleCount(rule);
+  if (Array.isArray(value)) {
+    if (count === undefined) return renderMockTemplate(value, depth + 1);
+    // "list|1": [a, b] picks one item; "list|2-5": [...] repeats the items
+    if (count === 1 && rule === '1') return renderMockTemplate(pickOne(value), depth + 1);
+    return Array.from({ length: count }, () => value.map(item => renderMockTemplate(item, depth + 1))).flat();
+  }
+  if (typeof value === 'string') {
+    return count === undefined ? expandPlaceholders(value) : Array.from({ length: count }, () => expandPlaceholders(value)).join('');
+  }
+  if (typeof value === 'number') {
+    const float = /^(\d+)-(\d+)\.(\d+)(?:-(\d+))?$/.exec(rule);
+    if (float) {
+      return Number((randomInt(Number(float[1]), Number(float[2])) + Math.random()).toFixed(randomInt(Number(float[3]), Number(float[4] ?? float[3]))));
+    }
+    return count === undefined ? value : count;
+  }
+  if (typeof value === 'boolean') {
+    return Math.random() < 0.5;
+  }
+  return renderMockTemplate(value, depth + 1);
+}
+
+/**
+ * Renders a Mock.js-style JSON sample (YAPI's non-schema mode): "@placeholders" are expanded and
+ * "name|rule" keys are applied and stripped.
+ */
+export function renderMockTemplate(template: unknown, depth: number = 0): unknown {
+  if (depth >= MAX_MOCK_DEPTH) return template;
+  if (typeof template === 'string') return expandPlaceholders(template);
+  if (Array.isArray(template)) return template.map(item => renderMockTemplate(item, depth + 1));
+  if (template === null || typeof template !== 'object') return template;
+
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(template)) {
+    const rule = RULE_KEY.exec(key);
+    if (rule) {
+      result[rule[1]] = applyRule(value, rule[2], depth);
+    } else {
+      result[key] = renderMockTemplate(value, depth + 1);
+    }
+  }
+  return result;
+}
+
+/**
+ * Generates a response body for an interface from its `res_body` (JSON Schema, Mock.js sample or raw text).
+ */
+export function mockResponseBody(detail: YapiInterfaceDetail): unknown {
+  const body: unknown = detail.res_body;
+  if (body === null || body === undefined || body === '') return undefined;
+  if (typeof body === 'string') return body;
+  return detail.res_body_is_json_schema ? generateFromSchema(body as JsonSchema) : renderMockTemplate(body);
+}
@@ -0,0 +1,154 @@
+import express, { Request, Response } from 'express';
+import cors from 'cors';
+import http, { Server } from 'node:http';
+import { YapiService } from './yapiService.js';
+import { YapiInterfaceDetail } from './schemas.js';
+import { createSnapshot } from './snapshot.js';
+import { validateRequest } from './contractValidation.js';
+import { mockResponseBody } from './mockData.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('Mock');
+
+export interface MockServerOptions {
+  /** Reject requests that do not match the documented query/headers/body (default true) */
+  validateRequests?: boolean;
+}
+
+interface MockRoute {
+  method: string;
+  pattern: RegExp;
+  paramNames: string[];
+  detail: YapiInterfaceDetail;
+}
+
+function normalizeBasepath(basepath: string | null | undefined): string {
+  const trimmed = (basepath ?? '').trim().replace(/\/+$/, '');
+  return trimmed === '' || trimmed.startsWith('/') ? trimmed : `/${trimmed}`;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Compiles a YAPI path ("/user/:uid" or "/user/{uid}") below the basepath into a matcher.
+ */
+function compileRoute(basepath: string, detail: YapiInterfaceDetail): MockRoute {
+  const paramNames: string[] = [];
+  const path = `${basepath}/${detail.path.replace(/^\/+/, '')}`.replace(/\/+$/, '') || '/';
+  const source = path
+    .split(/(:[A-Za-z0-9_]+|\{[A-Za-z0-9_]+\})/)
+    .map(part => {
+      const param = /^:([A-Za-z0-9_]+)$|^\{([A-Za-z0-9_]+)\}$/.exec(part);
+      if (!param) return escapeRegExp(part);
+      paramNames.push(param[1] ?? param[2]);
+      return '([^/]+)';
+    })
+    .join('');
+  return { method: detail.method.toUpperCase(), pattern: new RegExp(`^${source}/?$`), paramNames, detail };
+}
+
+/**
+ * Loads every interface of the project and compiles the routes. Literal paths are tried
+ * before parameterized ones, so "/user/me" wins over "/user/:uid".
+ */
+async function loadRoutes(yapiService: YapiService): Promise<MockRoute[]> {
+  const snapshot = await createSnapshot(yapiService);
+  const basepath = normalizeBasepath(snapshot.project.basepath);
+  return Object.values(snapshot.interfaces)
+    .map(detail => compileRoute(basepath, detail))
+    .sort((a, b) => a.paramNames.length - b.paramNames.length || b.pattern.source.length - a.pattern.source.length);
+}
+
+function contentTypeFor(detail: YapiInterfaceDetail): string {
+  switch (detail.res_body_type) {
+    case 'xml':
+      return 'application/xml';
+    case 'raw':
+      return 'text/plain';
+    default:
+      return 'application/json';
+  }
+}
+
+function sendMockResponse(res: Response, detail: YapiInterfaceDetail): void {
+  const body = mockResponseBody(detail);
+  res.setHeader('X-Yapi-Interface-Id', String(detail._id));
+  if (body === undefined) {
+    res.status(204).end();
+  } else if (typeof body === 'string') {
+    res.type(contentTypeFor(detail)).send(body);
+  } else {
+    res.json(body);
+  }
+}
+
+/**
+ * Starts a local HTTP server answering every interface of the project (below its basepath)
+ * with data generated from `res_body`, so frontends can work against the documented contract
+ * without a backend. Definitions are read from YAPI once at startup.
+ */
+export async function runMockServer(yapiService: YapiService, port: number, options: MockServerOptions = {}): Promise<Server> {
+  const validateRequests = options.validateRequests ?? true;
+  const routes = await loadRoutes(yapiService);
+
+  const app = express();
+  // Browsers on any dev origin may call the mock
+  app.use(cors({ exposedHeaders: ['X-Yapi-Interface-Id'] }));
+  app.use(express.json({ limit: '5mb', type: ['application/json', 'application/*+json'] }));
+  app.use(express.urlencoded({ extended: false, limit: '5mb' }));
+  app.use(express.text({ limit: '5mb', type: ['text/*', 'application/xml'] }));
+
+  app.use((req: Request, res: Response) => {
+    const method = req.method.toUpperCase();
+    const candidates = routes.filter(route => route.pattern.test(req.path));
+    const route = candidates.find(candidate => candidate.method === method);
+    if (!route) {
+      const allowed = [...new Set(candidates.map(candidate => candidate.method))];
+      if (allowed.length > 0) res.setHeader('Allow', allowed.join(', '));
+      res.status(allowed.length > 0 ? 405 : 404).json({
+        errcode: allowed.length > 0 ? 405 : 404,
+        errmsg: allowed.length > 0
+          ? `${method} is not documented for ${req.path}; documented methods: ${allowed.join(', ')}`
+          : `No interface documented for ${method} ${req.path}`,
+      });
+      log.info(`${method} ${req.path} -> ${allowed.length > 0 ? 405 : 404}`);
+      return;
+    }
+
+    const { detail } = route;
+    if (validateRequests) {
+      // Multipart and empty bodies are not parsed (req.body stays undefined), so they are not checked
+      const violations = validateRequest(detail, {
+        query: req.query as Record<string, unknown>,
+        headers: req.headers,
+        body: req.body,
+      });
+      if (violations.length > 0) {
+        log.info(`${method} ${req.path} -> 400 (interface ${detail._id}, ${violations.length} violations)`);
+        res.status(400).json({
+          errcode: 400,
+          errmsg: `Request does not match the YAPI definition of ${route.method} ${detail.path}`,
+          interface_id: detail._id,
+          violations,
+        });
+        return;
+      }
+    }
+
+    log.info(`${method} ${req.path} -> interface ${detail._id} (${detail.title})`);
+    sendMockResponse(res, detail);
+  });
+
+  const server = http.createServer(app);
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject); // e.g. EADDRINUSE
+    server.listen(port, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+  log.info(`Mock server listening on http://localhost:${port} (${routes.length} interfaces)`);
+  return server;
+}
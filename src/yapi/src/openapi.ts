@@ -0,0 +1,237 @@
+import { YapiService } from './yapiService.js';
+import { YapiInterfaceDetail, YapiProject } from './schemas.js';
+import { JsonSchema, baseTypeName } from './typescriptGenerator.js';
+import { mapWithConcurrency } from './concurrency.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('OpenAPI Export');
+
+// Number of interface detail requests issued in parallel while exporting
+const DETAIL_FETCH_CONCURRENCY = 5;
+
+const HTTP_METHODS = new Set(['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace']);
+
+// Minimal OpenAPI 3.1 shapes; only the parts this exporter produces are modelled
+interface OpenApiParameter {
+  name: string;
+  in: 'path' | 'query' | 'header';
+  required: boolean;
+  description?: string;
+  schema: JsonSchema;
+  example?: string;
+}
+
+interface OpenApiMediaType {
+  schema: JsonSchema;
+  example?: unknown;
+}
+
+interface OpenApiOperation {
+  operationId: string;
+  summary: string;
+  description?: string;
+  tags: string[];
+  parameters?: OpenApiParameter[];
+  requestBody?: { required?: boolean; content: Record<string, OpenApiMediaType> };
+  responses: Record<string, { description: string; content?: Record<string, OpenApiMediaType> }>;
+  [extension: `x-${string}`]: unknown;
+}
+
+export interface OpenApiDocument {
+  openapi: '3.1.0';
+  info: { title: string; version: string; description?: string };
+  servers: Array<{ url: string; description?: string }>;
+  tags: Array<{ name: string; description?: string }>;
+  paths: Record<string, Record<string, OpenApiOperation>>;
+}
+
+export interface OpenApiExportOptions {
+  /** Value for `info.version` (default "1.0.0") */
+  version?: string;
+}
+
+/**
+ * Converts YAPI's ":param" path parameters to OpenAPI's "{param}" form.
+ */
+export function toOpenApiPath(path: string): string {
+  return path.replace(/:([A-Za-z0-9_]+)/g, '{$1}');
+}
+
+function joinUrl(domain: string, basepath: string | null | undefined): string {
+  const base = (basepath ?? '').replace(/\/+$/, '');
+  return `${domain.replace(/\/+$/, '')}${base}` || '/';
+}
+
+/**
+ * Builds the server list from the project's env domains (plus basepath).
+ */
+function buildServers(project: YapiProject): OpenApiDocument['servers'] {
+  const envs = project.env ?? [];
+  if (envs.length === 0) {
+    return [{ url: joinUrl('', project.basepath) }];
+  }
+  return envs.map(env => ({ url: joinUrl(env.domain, project.basepath), description: env.name }));
+}
+
+/**
+ * Infers a JSON Schema from an example value (used when YAPI stores a JSON sample instead of a schema).
+ */
+export function inferSchemaFromValue(value: unknown): JsonSchema {
+  if (value === null) return { type: 'null' };
+  if (Array.isArray(value)) {
+    return value.length > 0 ? { type: 'array', items: inferSchemaFromValue(value[0]) } : { type: 'array' };
+  }
+  switch (typeof value) {
+    case 'object': {
+      const properties: Record<string, JsonSchema> = {};
+      for (const [key, propValue] of Object.entries(value as Record<string, unknown>)) {
+        properties[key] = inferSchemaFromValue(propValue);
+      }
+      return { type: 'object', properties };
+    }
+    case 'number':
+      return { type: Number.isInteger(value) ? 'integer' : 'number' };
+    case 'string':
+    case 'boolean':
+      return { type: typeof value };
+    default:
+      return {};
+  }
+}
+
+/**
+ * Drops draft-04 metadata YAPI's schema editor adds, which is meaningless inside an OpenAPI document.
+ */
+function cleanJsonSchema(schema: JsonSchema): JsonSchema {
+  const { $schema: _ignored, ...rest } = schema;
+  return rest;
+}
+
+/**
+ * Converts a YAPI body (parsed JSON Schema, parsed JSON sample or raw text) into media type content.
+ */
+function bodyContent(body: unknown, isJsonSchema: boolean | undefined, rawMediaType: string): Record<string, OpenApiMediaType> | undefined {
+  if (body === null || body === undefined || body === '') return undefined;
+  if (typeof body === 'string') {
+    return { [rawMediaType]: { schema: { type: 'string' }, example: body } };
+  }
+  if (isJsonSchema) {
+    return { 'application/json': { schema: cleanJsonSchema(body as JsonSchema) } };
+  }
+  return { 'application/json': { schema: inferSchemaFromValue(body), example: body } };
+}
+
+function buildParameters(detail: YapiInterfaceDetail, path: string): OpenApiParameter[] {
+  const parameters: OpenApiParameter[] = [];
+  const describe = (desc: string | null | undefined) => desc || undefined;
+  const example = (value: string | null | undefined) => value || undefined;
+
+  const declaredPathParams = new Set<string>();
+  for (const param of detail.req_params ?? []) {
+    declaredPathParams.add(param.name);
+    parameters.push({ name: param.name, in: 'path', required: true, description: describe(param.desc), schema: { type: 'string' }, example: example(param.example) });
+  }
+  // OpenAPI requires every templated path segment to be declared
+  for (const match of path.matchAll(/\{([^}]+)\}/g)) {
+    if (!declaredPathParams.has(match[1])) {
+      declaredPathParams.add(match[1]);
+      parameters.push({ name: match[1], in: 'path', required: true, schema: { type: 'string' } });
+    }
+  }
+  for (const query of detail.req_query ?? []) {
+    parameters.push({ name: query.name, in: 'query', required: query.required === '1', description: describe(query.desc), schema: { type: 'string' }, example: example(query.example) });
+  }
+  for (const header of detail.req_headers ?? []) {
+    // Content-Type is expressed through requestBody content
+    if (header.name.toLowerCase() === 'content-type') continue;
+    parameters.push({ name: header.name, in: 'header', required: header.required === '1', description: describe(header.desc), schema: { type: 'string' }, example: example(header.value || header.example) });
+  }
+  return parameters;
+}
+
+function buildRequestBody(detail: YapiInterfaceDetail): OpenApiOperation['requestBody'] {
+  if (detail.req_body_type === 'form') {
+    const fields = detail.req_body_form ?? [];
+    if (fields.length === 0) return undefined;
+    const properties: Record<string, JsonSchema> = {};
+    const required: string[] = [];
+    for (const field of fields) {
+      properties[field.name] = field.type === 'file'
+        ? { type: 'string', format: 'binary', description: field.desc || undefined }
+        : { type: 'string', description: field.desc || undefined, examples: field.example ? [field.example] : undefined };
+      if (field.required === '1') required.push(field.name);
+    }
+    const mediaType = fields.some(field => field.type === 'file') ? 'multipart/form-data' : 'application/x-www-form-urlencoded';
+    return { required: required.length > 0, content: { [mediaType]: { schema: { type: 'object', properties, required } } } };
+  }
+
+  const content = bodyContent(detail.req_body_other, detail.req_body_is_json_schema, 'text/plain');
+  return content ? { content } : undefined;
+}
+
+function buildOperation(detail: YapiInterfaceDetail, tag: string, path: string, operationId: string): OpenApiOperation {
+  const parameters = buildParameters(detail, path);
+  const requestBody = buildRequestBody(detail);
+  const responseMediaType = detail.res_body_type === 'xml' ? 'application/xml' : 'text/plain';
+  const responseContent = bodyContent(detail.res_body, detail.res_body_is_json_schema, responseMediaType);
+
+  const operation: OpenApiOperation = {
+    operationId,
+    summary: detail.title,
+    description: detail.markdown || detail.desc || undefined,
+    tags: [tag],
+    ...(parameters.length > 0 ? { parameters } : {}),
+    ...(requestBody ? { requestBody } : {}),
+    responses: {
+      '200': responseContent ? { description: 'OK', content: responseContent } : { description: 'OK' },
+    },
+    'x-yapi-id': detail._id,
+  };
+  if (detail.status) operation['x-yapi-status'] = detail.status;
+  if (detail.tag && detail.tag.length > 0) operation['x-yapi-tags'] = detail.tag;
+  return operation;
+}
+
+function lowerFirst(text: string): string {
+  return text.charAt(0).toLowerCase() + text.slice(1);
+}
+
+/**
+ * Exports the whole YAPI project as an OpenAPI 3.1 document.
+ * Categories become tags; interface details are fetched with bounded concurrency.
+ */
+export async function buildOpenApiDocument(yapiService: YapiService, options: OpenApiExportOptions = {}): Promise<OpenApiDocument> {
+  const [project, menu] = await Promise.all([yapiService.getProjectInfo(), yapiService.getProjectInterfaceMenu()]);
+
+  const document: OpenApiDocument = {
+    openapi: '3.1.0',
+    info: { title: project.name, version: options.version ?? '1.0.0', description: project.desc || undefined },
+    servers: buildServers(project),
+    tags: menu.map(category => ({ name: category.name, description: category.desc || undefined })),
+    paths: {},
+  };
+
+  const entries = menu.flatMap(category => (category.list ?? []).map(item => ({ category, item })));
+  const details = await mapWithConcurrency(entries, DETAIL_FETCH_CONCURRENCY, ({ item }) => yapiService.getInterfaceDetails(item._id));
+
+  const usedOperationIds = new Set<string>();
+  details.forEach((detail, index) => {
+    const method = detail.method.toLowerCase();
+    if (!HTTP_METHODS.has(method)) {
+      log.warning(`Skipping interface ${detail._id}: unsupported method '${detail.method}'`);
+      return;
+    }
+    const path = toOpenApiPath(detail.path);
+    let operationId = lowerFirst(baseTypeName(detail));
+    if (usedOperationIds.has(operationId)) operationId = `${operationId}${detail._id}`;
+    usedOperationIds.add(operationId);
+
+    const pathItem = document.paths[path] ?? (document.paths[path] = {});
+    if (pathItem[method]) {
+      log.warning(`Duplicate ${method.toUpperCase()} ${path}: interface ${detail._id} overrides ${pathItem[method]['x-yapi-id']}`);
+    }
+    pathItem[method] = buildOperation(detail, entries[index].category.name, path, operationId);
+  });
+
+  return document;
+}
@@ -0,0 +1,607 @@
+import { readFile } from 'node:fs/promises';
+import { parse as parseYaml, YAMLError } from 'yaml';
+import { YapiService } from './yapiService.js';
+import { SaveInterfaceArgs, YapiCategory, YapiInterfaceDetail } from './schemas.js';
+import { JsonSchema } from './typescriptGenerator.js';
+import { toOpenApiPath } from './openapi.js';
+import { FieldChange, diffInterface } from './contractDiff.js';
+import { mapWithConcurrency } from './concurrency.js';
+import { ConfigurationError } from './errors.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('OpenAPI Import');
+
+// Number of existing interface details fetched in parallel for merging and previews
+const DETAIL_FETCH_CONCURRENCY = 5;
+
+// Methods YAPI's interface editor supports
+const YAPI_METHODS = ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'HEAD', 'OPTIONS'] as const;
+
+// Category of operations without tags; every YAPI project starts with it
+const DEFAULT_CATEGORY = '公共分类';
+
+// Nesting limit when inlining $refs; YAPI schemas cannot express references
+const MAX_INLINE_DEPTH = 32;
+
+/**
+ * How operations that already exist in YAPI (same method + path) are handled:
+ * `skip` leaves them alone, `overwrite` replaces their definition, `merge` updates them with the
+ * spec but keeps parameters, descriptions and bodies the spec does not mention.
+ */
+export type ImportStrategy = 'skip' | 'overwrite' | 'merge';
+
+export interface OpenApiImportOptions {
+  strategy: ImportStrategy;
+  /** Only report what would change */
+  dryRun?: boolean;
+  /** Put every new interface into this category instead of one per tag */
+  categoryId?: number;
+}
+
+export interface ImportedInterfaceResult {
+  method: string;
+  path: string;
+  title: string;
+  category: string;
+  action: 'create' | 'update' | 'skip';
+  interface_id?: number;
+  // Contract changes of updated interfaces, as reported by yapi_diff_snapshot
+  changes?: FieldChange[];
+  error?: string;
+}
+
+export interface OpenApiImportResult {
+  source: { file: string; spec: string; title?: string; version?: string };
+  strategy: ImportStrategy;
+  dry_run: boolean;
+  summary: { operations: number; created: number; updated: number; skipped: number; failed: number };
+  categories_created: string[];
+  interfaces: ImportedInterfaceResult[];
+  warnings: string[];
+}
+
+type InterfaceFields = Omit<SaveInterfaceArgs, 'project' | 'format' | 'catid'>;
+type YapiMethod = InterfaceFields['method'];
+
+interface ConvertedOperation {
+  category: string;
+  fields: InterfaceFields;
+}
+
+// Specs are user input: values are narrowed where they are used
+type SpecObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is SpecObject {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+// --- Loading ---
+
+/**
+ * Reads an OpenAPI 3.x or Swagger 2.0 document from a JSON or YAML file.
+ */
+export async function readOpenApiFile(path: string): Promise<SpecObject> {
+  let raw: string;
+  try {
+    raw = await readFile(path, 'utf8');
+  } catch (error) {
+    throw new ConfigurationError(`Cannot read OpenAPI file "${path}": ${error instanceof Error ? error.message : String(error)}`);
+  }
+  let document: unknown;
+  try {
+    // YAML is a superset of JSON, but JSON.parse is much faster for large generated specs
+    document = raw.trimStart().startsWith('{') ? JSON.parse(raw) : parseYaml(raw);
+  } catch (error) {
+    // Parser messages quote the file's content, which may not be a spec at all; report the position only
+    const position = error instanceof YAMLError && error.linePos ? ` (line ${error.linePos[0].line}, column ${error.linePos[0].col})` : '';
+    throw new ConfigurationError(`Invalid OpenAPI file "${path}": not valid JSON or YAML${position}`);
+  }
+  if (!isObject(document) || !(String(document.openapi ?? '').startsWith('3.') || String(document.swagger ?? '') === '2.0')) {
+    throw new ConfigurationError(`"${path}" is not an OpenAPI 3.x or Swagger 2.0 document (missing 'openapi: 3.x' or 'swagger: "2.0"').`);
+  }
+  if (!isObject(document.paths)) {
+    throw new ConfigurationError(`"${path}" has no 'paths'.`);
+  }
+  return document;
+}
+
+// --- References ---
+
+class SpecResolver {
+  constructor(private readonly document: SpecObject, private readonly warnings: string[]) {}
+
+  private lookup(ref: string): unknown {
+    if (!ref.startsWith('#/')) {
+      this.warn(`External reference '${ref}' is not supported and was left empty.`);
+      return undefined;
+    }
+    let current: unknown = this.document;
+    for (const segment of ref.slice(2).split('/')) {
+      const key = decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~');
+      current = isObject(current) ? current[key] : undefined;
+    }
+    if (current === undefined) this.warn(`Reference '${ref}' does not resolve.`);
+    return current;
+  }
+
+  private warn(message: string): void {
+    if (!this.warnings.includes(message)) this.warnings.push(message);
+  }
+
+  /**
+   * Follows $refs of parameters, request bodies and responses.
+   */
+  deref(value: unknown): SpecObject | undefined {
+    const seen = new Set<string>();
+    while (isObject(value) && typeof value.$ref === 'string') {
+      if (seen.has(value.$ref)) return undefined;
+      seen.add(value.$ref);
+      value = this.lookup(value.$ref);
+    }
+    return isObject(value) ? value : undefined;
+  }
+
+  /**
+   * Returns the schema with every $ref inlined (recursive references become a plain object),
+   * nullable types reduced to their base type and object-only allOfs merged, since YAPI's
+   * schema editor understands neither references nor type unions.
+   */
+  schema(schema: unknown, stack: string[] = []): JsonSchema {
+    if (!isObject(schema)) return {};
+    if (typeof schema.$ref === 'string') {
+      const ref = schema.$ref;
+      const name = ref.split('/').pop() ?? ref;
+      if (stack.includes(ref) || stack.length >= MAX_INLINE_DEPTH) {
+        return { type: 'object', description: `Recursive reference to ${name}` };
+      }
+      return this.schema(this.lookup(ref), [...stack, ref]);
+    }
+
+    const { nullable: _nullable, discriminator: _discriminator, xml: _xml, externalDocs: _externalDocs, ...rest } = schema;
+    const result: SpecObject = { ...rest };
+    if (Array.isArray(result.type)) {
+      const types = result.type.filter(type => type !== 'null');
+      result.type = types.length === 1 ? types[0] : types;
+    }
+    if (isObject(result.properties)) {
+      result.properties = Object.fromEntries(Object.entries(result.properties).map(([name, prop]) => [name, this.schema(prop, stack)]));
+    }
+    if (result.items !== undefined) {
+      result.items = Array.isArray(result.items) ? result.items.map(item => this.schema(item, stack)) : this.schema(result.items, stack);
+    }
+    if (isObject(result.additionalProperties)) {
+      result.additionalProperties = this.schema(result.additionalProperties, stack);
+    }
+    for (const keyword of ['oneOf', 'anyOf'] as const) {
+      const subschemas = result[keyword];
+      if (Array.isArray(subschemas)) result[keyword] = subschemas.map(subschema => this.schema(subschema, stack));
+    }
+    if (Array.isArray(result.allOf)) {
+      const parts = result.allOf.map(subschema => this.schema(subschema, stack));
+      delete result.allOf;
+      if (parts.every(part => part.type === undefined || part.type === 'object')) {
+        // Composition of objects (e.g. inheritance): one object with all properties
+        result.type = 'object';
+        result.properties = Object.assign({}, ...parts.map(part => part.properties ?? {}), result.properties);
+        const required = [...new Set([...parts.flatMap(part => part.required ?? []), ...asArray(result.required).filter(name => typeof name === 'string')])];
+        if (required.length > 0) result.required = required;
+      } else {
+        result.allOf = parts;
+      }
+    }
+    return result as JsonSchema;
+  }
+}
+
+// --- Conversion ---
+
+function exampleText(value: unknown): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/**
+ * A parameter's example: `example`, the first of `examples` (OpenAPI 3), `x-example` (Swagger 2)
+ * or the schema's example/default.
+ */
+function parameterExample(parameter: SpecObject, schema: JsonSchema): string | undefined {
+  const firstExample = isObject(parameter.examples) ? Object.values(parameter.examples)[0] : undefined;
+  return exampleText(parameter.example)
+    ?? exampleText(isObject(firstExample) ? firstExample.value : undefined)
+    ?? exampleText(parameter['x-example'])
+    ?? exampleText(schema.example)
+    ?? exampleText(schema.default);
+}
+
+function isJsonMediaType(mediaType: string): boolean {
+  return /^application\/(.+\+)?json/i.test(mediaType) || mediaType === '*/*';
+}
+
+function isFormMediaType(mediaType: string): boolean {
+  return /^(application\/x-www-form-urlencoded|multipart\/form-data)/i.test(mediaType);
+}
+
+/**
+ * Picks the media type YAPI can describe best: JSON, then forms, then the first one.
+ */
+function pickMediaType(content: unknown): [string, SpecObject] | undefined {
+  if (!isObject(content)) return undefined;
+  const entries = Object.entries(content).filter((entry): entry is [string, SpecObject] => isObject(entry[1]));
+  return entries.find(([type]) => isJsonMediaType(type)) ?? entries.find(([type]) => isFormMediaType(type)) ?? entries[0];
+}
+
+function formRows(schema: JsonSchema): NonNullable<InterfaceFields['req_body_form']> {
+  const required = new Set(schema.required ?? []);
+  return Object.entries(schema.properties ?? {}).map(([name, property]) => ({
+    name,
+    type: property.type === 'file' || property.format === 'binary' || property.format === 'base64' ? 'file' as const : 'text' as const,
+    required: required.has(name) ? '1' as const : '0' as const,
+    desc: property.description,
+    example: exampleText(property.example ?? property.default),
+  }));
+}
+
+/**
+ * The documented success response: the lowest 2xx status, then 2XX, then default.
+ */
+function successResponse(responses: unknown, resolver: SpecResolver): SpecObject | undefined {
+  if (!isObject(responses)) return undefined;
+  const codes = Object.keys(responses);
+  const code = codes.filter(candidate => /^2\d\d$/.test(candidate)).sort()[0]
+    ?? codes.find(candidate => candidate.toUpperCase() === '2XX')
+    ?? codes.find(candidate => candidate === 'default');
+  return code ? resolver.deref(responses[code]) : undefined;
+}
+
+function normalizePath(path: string, basepath: string): string {
+  const prefix = basepath.trim().replace(/\/+$/, '');
+  // Specs generated with the full URL path repeat the project basepath
+  if (prefix && prefix !== '/' && (path === prefix || path.startsWith(`${prefix}/`))) {
+    return path.slice(prefix.length) || '/';
+  }
+  return path.startsWith('/') ? path : `/${path}`;
+}
+
+/**
+ * Converts one operation (OpenAPI 3.x or Swagger 2.0) to YAPI's interface fields.
+ */
+function convertOperation(
+  document: SpecObject,
+  resolver: SpecResolver,
+  path: string,
+  method: YapiMethod,
+  pathItem: SpecObject,
+  operation: SpecObject,
+): ConvertedOperation {
+  const isSwagger2 = document.swagger === '2.0';
+  const fields: InterfaceFields = {
+    title: optionalString(operation.summary) || optionalString(operation.operationId) || `${method} ${path}`,
+    path,
+    method,
+    desc: optionalString(operation.description) || undefined,
+    req_params: [],
+    req_query: [],
+    req_headers: [],
+  };
+  if (typeof operation['x-yapi-status'] === 'string' && ['done', 'undone', 'design'].includes(operation['x-yapi-status'])) {
+    fields.status = operation['x-yapi-status'] as InterfaceFields['status'];
+  }
+  if (Array.isArray(operation['x-yapi-tags'])) fields.tag = operation['x-yapi-tags'].map(String);
+
+  // Operation parameters override path-level ones with the same name and location
+  const parameters = new Map<string, SpecObject & { name: string; in: string }>();
+  for (const raw of [...asArray(pathItem.parameters), ...asArray(operation.parameters)]) {
+    const parameter = resolver.deref(raw);
+    const name = optionalString(parameter?.name);
+    const location = optionalString(parameter?.in);
+    if (parameter && name && location) parameters.set(`${location}:${name}`, { ...parameter, name, in: location });
+  }
+
+  const formFields: NonNullable<InterfaceFields['req_body_form']> = [];
+  let bodyMediaType: string | undefined;
+  for (const parameter of parameters.values()) {
+    // Swagger 2 puts the type on the parameter itself
+    const schema = resolver.schema(parameter.schema ?? { type: parameter.type, format: parameter.format, enum: parameter.enum, items: parameter.items });
+    const desc = optionalString(parameter.description) || undefined;
+    const example = parameterExample(parameter, schema);
+    const required = parameter.required ? '1' as const : '0' as const;
+    switch (parameter.in) {
+      case 'path':
+        fields.req_params!.push({ name: parameter.name, desc, example });
+        break;
+      case 'query':
+        fields.req_query!.push({ name: parameter.name, required, desc, example });
+        break;
+      case 'header':
+        // Content-Type is derived from the body
+        if (parameter.name.toLowerCase() !== 'content-type') fields.req_headers!.push({ name: parameter.name, required, desc, example });
+        break;
+      case 'formData':
+        formFields.push({ name: parameter.name, type: parameter.type === 'file' ? 'file' : 'text', required, desc, example });
+        break;
+      case 'body':
+        fields.req_body_type = 'json';
+        fields.req_body_is_json_schema = true;
+        fields.req_body_other = schema as Record<string, unknown>;
+        bodyMediaType = 'application/json';
+        break;
+    }
+  }
+
+  if (isSwagger2 && formFields.length > 0) {
+    fields.req_body_type = 'form';
+    fields.req_body_form = formFields;
+    const consumes = asArray(operation.consumes ?? document.consumes);
+    bodyMediaType = formFields.some(field => field.type === 'file') || consumes.includes('multipart/form-data')
+      ? 'multipart/form-data'
+      : 'application/x-www-form-urlencoded';
+  } else if (!isSwagger2) {
+    const requestBody = resolver.deref(operation.requestBody);
+    const picked = pickMediaType(requestBody?.content);
+    if (picked) {
+      const [mediaType, media] = picked;
+      const schema = resolver.schema(media.schema);
+      bodyMediaType = mediaType;
+      if (isFormMediaType(mediaType)) {
+        fields.req_body_type = 'form';
+        fields.req_body_form = formRows(schema);
+      } else if (isJsonMediaType(mediaType)) {
+        fields.req_body_type = 'json';
+        fields.req_body_is_json_schema = true;
+        fields.req_body_other = schema as Record<string, unknown>;
+      } else {
+        fields.req_body_type = 'raw';
+        const example = exampleText(media.example ?? schema.example);
+        if (example) fields.req_body_other = example;
+      }
+    }
+  }
+  if (bodyMediaType) {
+    // YAPI documents the body's media type as a Content-Type header row
+    fields.req_headers!.unshift({ name: 'Content-Type', required: '1', value: bodyMediaType === '*/*' ? 'application/json' : bodyMediaType });
+  }
+
+  const response = successResponse(operation.responses, resolver);
+  if (response) {
+    if (isSwagger2) {
+      if (response.schema) {
+        fields.res_body_type = 'json';
+        fields.res_body_is_json_schema = true;
+        fields.res_body = resolver.schema(response.schema) as Record<string, unknown>;
+      }
+    } else {
+      const picked = pickMediaType(response.content);
+      if (picked) {
+        const [mediaType, media] = picked;
+        const schema = resolver.schema(media.schema);
+        if (isJsonMediaType(mediaType)) {
+          fields.res_body_type = 'json';
+          fields.res_body_is_json_schema = true;
+          fields.res_body = schema as Record<string, unknown>;
+        } else {
+          fields.res_body_type = /xml/i.test(mediaType) ? 'xml' : 'raw';
+          const example = exampleText(media.example ?? schema.example);
+          if (example) fields.res_body = example;
+        }
+      }
+    }
+  }
+
+  const tag = Array.isArray(operation.tags) && operation.tags.length > 0 ? String(operation.tags[0]) : DEFAULT_CATEGORY;
+  return { category: tag, fields };
+}
+
+/**
+ * Converts every operation of the document. Methods YAPI cannot store (e.g. TRACE) are skipped
+ * with a warning.
+ */
+export function convertOpenApiDocument(document: SpecObject, basepath: string, warnings: string[]): ConvertedOperation[] {
+  const resolver = new SpecResolver(document, warnings);
+  const operations: ConvertedOperation[] = [];
+  for (const [rawPath, rawPathItem] of Object.entries(isObject(document.paths) ? document.paths : {})) {
+    const pathItem = resolver.deref(rawPathItem);
+    if (!pathItem) continue;
+    const path = normalizePath(rawPath, basepath);
+    for (const [key, operation] of Object.entries(pathItem)) {
+      if (key === 'parameters' || key.startsWith('x-') || !isObject(operation)) continue;
+      const method = key.toUpperCase();
+      if (!(YAPI_METHODS as readonly string[]).includes(method)) {
+        if (!['$REF', 'SUMMARY', 'DESCRIPTION', 'SERVERS'].includes(method)) warnings.push(`Skipped ${method} ${rawPath}: YAPI does not support the method.`);
+        continue;
+      }
+      operations.push(convertOperation(document, resolver, path, method as YapiMethod, pathItem, operation));
+    }
+  }
+  return operations;
+}
+
+// --- Merging ---
+
+interface RowLike {
+  name: string;
+  desc?: string | null;
+  example?: string | null;
+}
+
+/**
+ * Imported rows win; descriptions and examples the spec lacks are kept from YAPI, and rows only
+ * YAPI has are appended.
+ */
+function mergeRows<T extends RowLike>(imported: T[] | undefined, existing: RowLike[] | undefined): T[] {
+  const existingByName = new Map((existing ?? []).map(row => [row.name, row]));
+  const merged = (imported ?? []).map(row => {
+    const previous = existingByName.get(row.name);
+    return previous ? { ...row, desc: row.desc || previous.desc || undefined, example: row.example || previous.example || undefined } : row;
+  });
+  const importedNames = new Set(merged.map(row => row.name));
+  for (const row of existing ?? []) {
+    if (!importedNames.has(row.name)) merged.push(stripNulls(row) as T);
+  }
+  return merged;
+}
+
+/**
+ * Parameter rows read from YAPI carry nulls and sub-document ids the write endpoints do not take.
+ */
+function stripNulls<T extends object>(row: T): T {
+  return Object.fromEntries(Object.entries(row).filter(([key, value]) => value !== null && key !== '_id')) as T;
+}
+
+function mergeFields(existing: YapiInterfaceDetail, imported: InterfaceFields): InterfaceFields {
+  // Path parameters may have been renamed; rows for names no longer in the path are dropped
+  const pathParams = new Set([...imported.path.matchAll(/:([A-Za-z0-9_]+)|\{([^}]+)\}/g)].map(match => match[1] ?? match[2]));
+  return {
+    ...imported,
+    desc: imported.desc || existing.desc || undefined,
+    status: imported.status ?? existing.status,
+    tag: imported.tag ?? existing.tag,
+    req_params: mergeRows(imported.req_params, existing.req_params).filter(row => pathParams.has(row.name)),
+    req_query: mergeRows(imported.req_query, existing.req_query),
+    req_headers: mergeRows(imported.req_headers, existing.req_headers),
+    req_body_form: imported.req_body_type === 'form' || existing.req_body_type === 'form'
+      ? mergeRows(imported.req_body_form, existing.req_body_form)
+      : undefined,
+  };
+}
+
+/**
+ * Overwriting sends every field, so parts the spec does not document are cleared in YAPI.
+ */
+function overwriteFields(imported: InterfaceFields): InterfaceFields {
+  return {
+    req_body_form: [],
+    req_body_other: '',
+    res_body: '',
+    ...imported,
+  };
+}
+
+/**
+ * The interface as it would look after the update, for the contract diff.
+ */
+function previewDetail(existing: YapiInterfaceDetail, fields: InterfaceFields): YapiInterfaceDetail {
+  return { ...existing, ...fields, catid: existing.catid } as unknown as YapiInterfaceDetail;
+}
+
+function routeKey(method: string, path: string): string {
+  // Parameter names may differ between YAPI and the spec ("/user/:uid" vs "/user/{id}")
+  return `${method.toUpperCase()} ${toOpenApiPath(path).replace(/\{[^}]+\}/g, '{}')}`;
+}
+
+function createdId(data: unknown): number | undefined {
+  const record = Array.isArray(data) ? data[0] : data;
+  return isObject(record) && typeof record._id === 'number' ? record._id : undefined;
+}
+
+/**
+ * Imports an OpenAPI 3.x / Swagger 2.0 file into the project: operations are converted to YAPI
+ * interfaces, new ones are saved into the category named after their first tag (created when
+ * missing), existing ones (same method + path) are skipped, overwritten or merged. With `dryRun`
+ * nothing is written and the result previews the changes.
+ */
+export async function importOpenApi(yapiService: YapiService, file: string, options: OpenApiImportOptions): Promise<OpenApiImportResult> {
+  const document = await readOpenApiFile(file);
+  const [project, menu] = await Promise.all([yapiService.getProjectInfo(), yapiService.getProjectInterfaceMenu()]);
+  const warnings: string[] = [];
+  const operations = convertOpenApiDocument(document, project.basepath ?? '', warnings);
+  const dryRun = options.dryRun ?? false;
+
+  const existingByRoute = new Map<string, { id: number; category: YapiCategory }>();
+  for (const category of menu) {
+    for (const item of category.list ?? []) existingByRoute.set(routeKey(item.method, item.path), { id: item._id, category });
+  }
+  const categoryIds = new Map(menu.map(category => [category.name, category._id]));
+  const targetCategory = options.categoryId === undefined ? undefined : menu.find(category => category._id === options.categoryId);
+  if (options.categoryId !== undefined && !targetCategory) {
+    throw new ConfigurationError(`Category ${options.categoryId} does not exist in project ${project._id}.`);
+  }
+
+  const updates = options.strategy === 'skip'
+    ? []
+    : operations.filter(operation => existingByRoute.has(routeKey(operation.fields.method, operation.fields.path)));
+  const existingDetails = new Map<string, YapiInterfaceDetail>();
+  const fetched = await mapWithConcurrency(updates, DETAIL_FETCH_CONCURRENCY, operation =>
+    yapiService.getInterfaceDetails(existingByRoute.get(routeKey(operation.fields.method, operation.fields.path))!.id));
+  updates.forEach((operation, index) => existingDetails.set(routeKey(operation.fields.method, operation.fields.path), fetched[index]));
+
+  const tagDescriptions = new Map<string, string | undefined>(
+    asArray(document.tags).filter(isObject).map(tag => [String(tag.name), optionalString(tag.description)]),
+  );
+  const categoriesCreated: string[] = [];
+  const resolveCategoryId = async (name: string): Promise<number | undefined> => {
+    if (targetCategory) return targetCategory._id;
+    const known = categoryIds.get(name);
+    if (known !== undefined || dryRun) {
+      if (known === undefined && !categoriesCreated.includes(name)) categoriesCreated.push(name);
+      return known;
+    }
+    const created = await yapiService.addCategory(name, tagDescriptions.get(name));
+    log.info(`Created category '${name}' (${created._id})`);
+    categoryIds.set(name, created._id);
+    categoriesCreated.push(name);
+    return created._id;
+  };
+
+  const results: ImportedInterfaceResult[] = [];
+  // Writes run one at a time; YAPI instances are often small and imports can be large
+  for (const operation of operations) {
+    const { fields } = operation;
+    const key = routeKey(fields.method, fields.path);
+    const existing = existingByRoute.get(key);
+    const result: ImportedInterfaceResult = {
+      method: fields.method,
+      path: fields.path,
+      title: fields.title,
+      category: existing ? existing.category.name : targetCategory?.name ?? operation.category,
+      action: existing ? (options.strategy === 'skip' ? 'skip' : 'update') : 'create',
+    };
+    if (existing) result.interface_id = existing.id;
+    results.push(result);
+    if (result.action === 'skip') continue;
+
+    try {
+      if (existing) {
+        const detail = existingDetails.get(key)!;
+        const payload = options.strategy === 'merge' ? mergeFields(detail, fields) : overwriteFields(fields);
+        result.changes = diffInterface(detail, previewDetail(detail, payload));
+        if (!dryRun) await yapiService.updateInterface({ id: existing.id, ...payload });
+      } else {
+        const catid = await resolveCategoryId(operation.category);
+        if (!dryRun) result.interface_id = createdId(await yapiService.saveInterface({ catid: catid!, ...fields }));
+      }
+    } catch (error) {
+      result.error = error instanceof Error ? error.message : String(error);
+      log.warning(`Importing ${fields.method} ${fields.path} failed: ${result.error}`);
+    }
+  }
+
+  const succeeded = (action: ImportedInterfaceResult['action']) => results.filter(result => result.action === action && !result.error).length;
+  return {
+    source: {
+      file,
+      spec: document.swagger === '2.0' ? 'swagger 2.0' : `openapi ${String(document.openapi)}`,
+      title: isObject(document.info) ? optionalString(document.info.title) : undefined,
+      version: isObject(document.info) ? exampleText(document.info.version) : undefined,
+    },
+    strategy: options.strategy,
+    dry_run: dryRun,
+    summary: {
+      operations: results.length,
+      created: succeeded('create'),
+      updated: succeeded('update'),
+      skipped: succeeded('skip'),
+      failed: results.filter(result => result.error).length,
+    },
+    categories_created: categoriesCreated,
+    interfaces: results,
+    warnings,
+  };
+}
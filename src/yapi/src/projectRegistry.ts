@@ -0,0 +1,210 @@
+import { readFileSync } from 'node:fs';
+import { ZodError } from 'zod';
+import { YapiService, YapiServiceOptions } from './yapiService.js';
+import { ConfigurationError } from './errors.js';
+import { loadOfflineDataSource } from './dataSource.js';
+import { YapiProjectsConfig, YapiProjectsConfigSchema } from './schemas.js';
+
+// Alias used for the project configured through YAPI_PROJECT_TOKEN
+export const DEFAULT_PROJECT_ALIAS = 'default';
+
+export interface ProjectEntry {
+  alias: string;
+  service: YapiService;
+  projectId?: number;
+  description?: string;
+}
+
+/**
+ * Public, token-free description of a configured project (used by yapi_list_projects).
+ */
+export interface ProjectSummary {
+  alias: string;
+  projectId?: number;
+  baseUrl: string;
+  description?: string;
+  isDefault: boolean;
+  // Export file the project is served from in offline mode
+  offlineFile?: string;
+}
+
+export interface ProjectRegistrySources {
+  baseUrl?: string;          // YAPI_BASE_URL
+  token?: string;            // YAPI_PROJECT_TOKEN
+  projectsEnv?: string;      // YAPI_PROJECTS, e.g. "shop:token1,crm:token2"
+  configFile?: string;       // --config / YAPI_CONFIG_FILE
+  offlineFile?: string;      // --offline / YAPI_OFFLINE_FILE, replaces YAPI_PROJECT_TOKEN
+  defaultProject?: string;   // YAPI_DEFAULT_PROJECT
+  serviceOptions?: YapiServiceOptions; // Shared by every project (e.g. the response cache)
+}
+
+/**
+ * Holds one YapiService per configured project and routes tool calls by alias or project ID.
+ */
+export class YapiProjectRegistry {
+  private readonly entries = new Map<string, ProjectEntry>();
+  private readonly defaultAlias: string;
+
+  constructor(entries: ProjectEntry[], defaultAlias?: string, private readonly serviceOptions: YapiServiceOptions = {}) {
+    if (entries.length === 0) {
+      throw new ConfigurationError("No YAPI project configured. Set YAPI_PROJECT_TOKEN, YAPI_PROJECTS or provide a config file.");
+    }
+    for (const entry of entries) {
+      if (this.entries.has(entry.alias)) {
+        throw new ConfigurationError(`Duplicate YAPI project alias: '${entry.alias}'.`);
+      }
+      this.entries.set(entry.alias, entry);
+    }
+    this.defaultAlias = defaultAlias ?? entries[0].alias;
+    if (!this.entries.has(this.defaultAlias)) {
+      throw new ConfigurationError(`Default YAPI project '${this.defaultAlias}' is not configured. Configured projects: ${this.aliases().join(', ')}.`);
+    }
+  }
+
+  aliases(): string[] {
+    return [...this.entries.keys()];
+  }
+
+  getDefaultAlias(): string {
+    return this.defaultAlias;
+  }
+
+  /**
+   * Resolves a project selector (alias or YAPI project ID) to its entry.
+   * An omitted selector resolves to the default project.
+   */
+  resolve(project?: string): ProjectEntry {
+    if (project === undefined || project === '') {
+      return this.entries.get(this.defaultAlias)!;
+    }
+    const byAlias = this.entries.get(project);
+    if (byAlias) return byAlias;
+
+    const projectId = Number(project);
+    if (Number.isInteger(projectId)) {
+      for (const entry of this.entries.values()) {
+        if (entry.projectId === projectId) return entry;
+      }
+    }
+    throw new ConfigurationError(`Unknown YAPI project '${project}'. Configured projects: ${this.aliases().join(', ')}.`);
+  }
+
+  /**
+   * Returns the YapiService for a project selector (see `resolve`).
+   */
+  get(project?: string): YapiService {
+    return this.resolve(project).service;
+  }
+
+  /**
+   * Returns a registry holding only the selected project (default: the default project),
+   * accessed with another token, e.g. the personal token of an HTTP session's user.
+   * The new service shares this registry's cache store and request limiter.
+   * Offline projects have no tokens and keep serving their export.
+   */
+  withToken(token: string, project?: string): YapiProjectRegistry {
+    const entry = this.resolve(project);
+    if (entry.service.getOfflineLocation()) {
+      return new YapiProjectRegistry([entry], entry.alias, this.serviceOptions);
+    }
+    const service = new YapiService(entry.service.getBaseUrl(), token, this.serviceOptions);
+    return new YapiProjectRegistry([{ ...entry, service }], entry.alias, this.serviceOptions);
+  }
+
+  list(): ProjectSummary[] {
+    return [...this.entries.values()].map(entry => ({
+      alias: entry.alias,
+      projectId: entry.projectId,
+      baseUrl: entry.service.getBaseUrl(),
+      description: entry.description,
+      isDefault: entry.alias === this.defaultAlias,
+      offlineFile: entry.service.getOfflineLocation(),
+    }));
+  }
+}
+
+function readConfigFile(configFile: string): YapiProjectsConfig {
+  let raw: string;
+  try {
+    raw = readFileSync(configFile, 'utf8');
+  } catch (error) {
+    throw new ConfigurationError(`Cannot read YAPI config file "${configFile}": ${error instanceof Error ? error.message : String(error)}`);
+  }
+  try {
+    return YapiProjectsConfigSchema.parse(JSON.parse(raw));
+  } catch (error) {
+    const details = error instanceof ZodError
+      ? error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')
+      : (error instanceof Error ? error.message : String(error));
+    throw new ConfigurationError(`Invalid YAPI config file "${configFile}": ${details}`);
+  }
+}
+
+/**
+ * Parses YAPI_PROJECTS ("alias:token,alias2:token2").
+ */
+function parseProjectsEnv(projectsEnv: string): Array<{ alias: string; token: string }> {
+  return projectsEnv
+    .split(',')
+    .map(item => item.trim())
+    .filter(Boolean)
+    .map(item => {
+      const separator = item.indexOf(':');
+      if (separator <= 0 || separator === item.length - 1) {
+        throw new ConfigurationError(`Invalid YAPI_PROJECTS entry "${item}". Expected "alias:token".`);
+      }
+      return { alias: item.slice(0, separator).trim(), token: item.slice(separator + 1).trim() };
+    });
+}
+
+/**
+ * Creates a service reading a project export instead of YAPI (offline mode).
+ */
+function offlineEntry(alias: string, file: string, serviceOptions: YapiServiceOptions | undefined): ProjectEntry {
+  const dataSource = loadOfflineDataSource(file);
+  return {
+    alias,
+    service: new YapiService(undefined, undefined, { ...serviceOptions, dataSource }),
+    projectId: dataSource.getProjectId() || undefined,
+  };
+}
+
+/**
+ * Builds the registry from a config file, YAPI_PROJECTS and/or YAPI_PROJECT_TOKEN.
+ * YAPI_PROJECT_TOKEN (or the offline export replacing it) is registered under the 'default' alias.
+ */
+export function loadProjectRegistry(sources: ProjectRegistrySources): YapiProjectRegistry {
+  const entries: ProjectEntry[] = [];
+  let defaultAlias = sources.defaultProject;
+  const { serviceOptions } = sources;
+
+  if (sources.offlineFile) {
+    entries.push(offlineEntry(DEFAULT_PROJECT_ALIAS, sources.offlineFile, serviceOptions));
+  } else if (sources.token) {
+    entries.push({ alias: DEFAULT_PROJECT_ALIAS, service: new YapiService(sources.baseUrl, sources.token, serviceOptions) });
+  }
+  if (sources.projectsEnv) {
+    for (const { alias, token } of parseProjectsEnv(sources.projectsEnv)) {
+      entries.push({ alias, service: new YapiService(sources.baseUrl, token, serviceOptions) });
+    }
+  }
+  if (sources.configFile) {
+    const config = readConfigFile(sources.configFile);
+    for (const [alias, project] of Object.entries(config.projects)) {
+      if (project.offlineFile) {
+        const entry = offlineEntry(alias, project.offlineFile, serviceOptions);
+        entries.push({ ...entry, projectId: project.projectId ?? entry.projectId, description: project.description });
+        continue;
+      }
+      entries.push({
+        alias,
+        service: new YapiService(project.baseUrl ?? config.baseUrl ?? sources.baseUrl, project.token, serviceOptions),
+        projectId: project.projectId,
+        description: project.description,
+      });
+    }
+    defaultAlias = defaultAlias ?? config.defaultProject;
+  }
+
+  return new YapiProjectRegistry(entries, defaultAlias, serviceOptions);
+}
@@ -0,0 +1,154 @@
+import {
+  ErrorCode,
+  McpError,
+  Prompt,
+  PromptMessage,
+  GetPromptResult,
+} from "@modelcontextprotocol/sdk/types.js";
+import { ZodError } from "zod";
+import {
+  GenerateClientPromptArgsSchema,
+  WriteIntegrationTestsPromptArgsSchema,
+  ReviewInterfaceDesignPromptArgsSchema,
+} from "./schemas.js";
+import { YapiProjectRegistry } from "./projectRegistry.js";
+import { readResource, buildResourceUri } from "./resources.js";
+
+// list_cat is paginated; the test prompt should cover the whole category
+const CATEGORY_PROMPT_PAGE_LIMIT = 1000;
+
+// --- Prompt Definitions ---
+const PROMPTS: Prompt[] = [
+  {
+    name: "yapi_generate_client",
+    description: "为指定 YAPI 接口生成带类型的客户端调用代码。",
+    arguments: [
+      { name: "interface_id", description: "YAPI 接口 ID", required: true },
+      { name: "project", description: "YAPI 项目别名或 ID (默认为默认项目)", required: false },
+      { name: "language", description: "目标语言 (默认为 TypeScript)", required: false },
+    ],
+  },
+  {
+    name: "yapi_write_integration_tests",
+    description: "为指定 YAPI 分类下的所有接口编写集成测试。",
+    arguments: [
+      { name: "category_id", description: "YAPI 分类 ID", required: true },
+      { name: "project", description: "YAPI 项目别名或 ID (默认为默认项目)", required: false },
+      { name: "framework", description: "测试框架 (例如 jest、vitest、pytest)", required: false },
+    ],
+  },
+  {
+    name: "yapi_review_interface_design",
+    description: "评审指定 YAPI 接口的请求/响应设计。",
+    arguments: [
+      { name: "interface_id", description: "YAPI 接口 ID", required: true },
+      { name: "project", description: "YAPI 项目别名或 ID (默认为默认项目)", required: false },
+    ],
+  },
+];
+
+/**
+ * Builds a user message that embeds the interface details as a yapi://interface/{id} resource.
+ */
+async function interfaceDetailsMessage(projects: YapiProjectRegistry, project: string | undefined, interfaceId: number): Promise<PromptMessage> {
+  const alias = projects.resolve(project).alias;
+  const { contents } = await readResource(projects, buildResourceUri(projects, alias, `interface/${interfaceId}`));
+  const [content] = contents;
+  return {
+    role: "user",
+    content: {
+      type: "resource",
+      resource: { uri: content.uri, mimeType: content.mimeType, text: String(content.text) },
+    },
+  };
+}
+
+function textMessage(text: string): PromptMessage {
+  return { role: "user", content: { type: "text", text } };
+}
+
+/**
+ * Returns the prompts offered by this server.
+ */
+export function listPrompts(): Prompt[] {
+  return PROMPTS;
+}
+
+/**
+ * Renders a prompt by name, fetching the interface details it embeds from YAPI.
+ * Invalid arguments and unknown prompt names are reported as InvalidParams.
+ */
+export async function getPrompt(
+  projects: YapiProjectRegistry,
+  name: string,
+  args: Record<string, string> | undefined
+): Promise<GetPromptResult> {
+  try {
+    switch (name) {
+      case "yapi_generate_client": {
+        const parsedArgs = GenerateClientPromptArgsSchema.parse(args ?? {});
+        return {
+          description: `Generate a typed ${parsedArgs.language} client for YAPI interface ${parsedArgs.interface_id}`,
+          messages: [
+            textMessage(
+              `请根据下面的 YAPI 接口定义，使用 ${parsedArgs.language} 生成一个带完整类型的客户端调用函数。\n` +
+              `要求：\n` +
+              `1. 为路径参数、Query 参数、请求头和请求体分别定义类型，必填/可选与接口定义保持一致；\n` +
+              `2. 根据响应体定义返回值类型；\n` +
+              `3. 对非 2xx 响应和 YAPI 约定的错误码进行错误处理；\n` +
+              `4. 不要臆造接口定义中不存在的字段。`
+            ),
+            await interfaceDetailsMessage(projects, parsedArgs.project, parsedArgs.interface_id),
+          ],
+        };
+      }
+      case "yapi_write_integration_tests": {
+        const parsedArgs = WriteIntegrationTestsPromptArgsSchema.parse(args ?? {});
+        const { list } = await projects.get(parsedArgs.project).listInterfacesByCategory(parsedArgs.category_id, 1, CATEGORY_PROMPT_PAGE_LIMIT);
+        const detailMessages = await Promise.all(list.map(item => interfaceDetailsMessage(projects, parsedArgs.project, item._id)));
+        const frameworkHint = parsedArgs.framework ? `使用 ${parsedArgs.framework} ` : "";
+        return {
+          description: `Write integration tests for YAPI category ${parsedArgs.category_id}`,
+          messages: [
+            textMessage(
+              `请${frameworkHint}为下面 YAPI 分类 ${parsedArgs.category_id} 中的 ${list.length} 个接口编写集成测试。\n` +
+              `要求：\n` +
+              `1. 每个接口至少覆盖一个成功用例，并校验响应结构与接口定义一致；\n` +
+              `2. 覆盖缺少必填参数、参数类型错误等异常用例；\n` +
+              `3. 接口之间存在依赖时（例如先创建再查询），按合理顺序组织用例；\n` +
+              `4. 服务地址、鉴权信息等通过配置或环境变量注入。`
+            ),
+            ...detailMessages,
+          ],
+        };
+      }
+      case "yapi_review_interface_design": {
+        const parsedArgs = ReviewInterfaceDesignPromptArgsSchema.parse(args ?? {});
+        return {
+          description: `Review the request/response design of YAPI interface ${parsedArgs.interface_id}`,
+          messages: [
+            textMessage(
+              `请评审下面 YAPI 接口的请求/响应设计，并给出具体的改进建议。\n` +
+              `关注点：\n` +
+              `1. 路径、方法与语义是否符合 RESTful 约定；\n` +
+              `2. 参数命名、类型、必填标记是否一致且合理；\n` +
+              `3. 响应结构是否清晰，错误码与分页等约定是否完整；\n` +
+              `4. 文档描述和示例是否充分，是否存在向后兼容风险。`
+            ),
+            await interfaceDetailsMessage(projects, parsedArgs.project, parsedArgs.interface_id),
+          ],
+        };
+      }
+      default:
+        throw new McpError(ErrorCode.InvalidParams, `Unknown prompt name: '${name}'`);
+    }
+  } catch (error) {
+    if (error instanceof ZodError) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid arguments for prompt ${name}: ${error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')}`
+      );
+    }
+    throw error;
+  }
+}
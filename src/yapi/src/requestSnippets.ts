@@ -0,0 +1,335 @@
+import { YapiService } from './yapiService.js';
+import { YapiInterfaceDetail, YapiProject } from './schemas.js';
+import { JsonSchema } from './typescriptGenerator.js';
+import { exampleFromSample, exampleFromSchema } from './mockData.js';
+import { envDomain, hasHeader, joinRequestUrl, substitutePathParams } from './requestTarget.js';
+
+export type SnippetLanguage = 'curl' | 'fetch' | 'axios' | 'python';
+
+export interface RequestSnippetOptions {
+  languages: SnippetLanguage[];
+  /** Name of a project env (`project.env[].name`); defaults to the first env */
+  env?: string;
+  /** Overrides the env's domain, e.g. "http://localhost:8080" */
+  domain?: string;
+}
+
+export interface RequestSnippetResult {
+  interface: { id: number; method: string; path: string; title: string };
+  method: string;
+  url: string;
+  snippets: Partial<Record<SnippetLanguage, string>>;
+  // Placeholders the reader has to fill in (values without a documented example)
+  notes: string[];
+}
+
+// Used when the project has no env and no domain is given
+const PLACEHOLDER_DOMAIN = 'http://localhost:8080';
+
+type SnippetBody =
+  | { kind: 'json'; value: unknown }
+  | { kind: 'form'; fields: Array<[string, string]>; files: string[] }
+  | { kind: 'raw'; text: string };
+
+/**
+ * Everything the language renderers need, with example values already filled in.
+ */
+interface RequestModel {
+  method: string;
+  // Without the query string
+  baseUrl: string;
+  query: Array<[string, string]>;
+  headers: Array<[string, string]>;
+  body?: SnippetBody;
+  jsonResponse: boolean;
+}
+
+function placeholder(name: string): string {
+  return `<${name}>`;
+}
+
+function resolveDomain(project: YapiProject, options: RequestSnippetOptions, notes: string[]): string {
+  if (options.domain) return options.domain;
+  const domain = envDomain(project, options.env);
+  if (domain !== undefined) return domain;
+  const envs = project.env ?? [];
+  if (envs.length > 0) {
+    notes.push(`Using env '${envs[0].name}'; other envs: ${envs.slice(1).map(env => env.name).join(', ')}.`);
+    return envs[0].domain;
+  }
+  notes.push(`The project has no env; replace ${PLACEHOLDER_DOMAIN} with the real domain.`);
+  return PLACEHOLDER_DOMAIN;
+}
+
+function buildPath(detail: YapiInterfaceDetail, notes: string[]): string {
+  return substitutePathParams(detail, {}, name => {
+    notes.push(`Path parameter '${name}' has no example; replace ${placeholder(name)}.`);
+    return placeholder(name);
+  });
+}
+
+interface ExampleRow {
+  name: string;
+  example?: string | null;
+  required?: string | null;
+}
+
+/**
+ * Rows with an example, plus required rows (as placeholders). Optional rows without an
+ * example are left out to keep the snippet minimal.
+ */
+function exampleRows(rows: ExampleRow[] | undefined, label: string, notes: string[]): Array<[string, string]> {
+  const result: Array<[string, string]> = [];
+  for (const row of rows ?? []) {
+    if (row.example) {
+      result.push([row.name, row.example]);
+    } else if (row.required === '1') {
+      notes.push(`Required ${label} '${row.name}' has no example; replace ${placeholder(row.name)}.`);
+      result.push([row.name, placeholder(row.name)]);
+    }
+  }
+  return result;
+}
+
+function buildBody(detail: YapiInterfaceDetail, notes: string[]): SnippetBody | undefined {
+  if (detail.req_body_type === 'form') {
+    const fileRows = (detail.req_body_form ?? []).filter(row => row.type === 'file');
+    const textRows = (detail.req_body_form ?? []).filter(row => row.type !== 'file');
+    const fields = exampleRows(textRows, 'form field', notes);
+    if (fileRows.length > 0) notes.push(`Replace the file path(s) for: ${fileRows.map(row => row.name).join(', ')}.`);
+    return fields.length > 0 || fileRows.length > 0 ? { kind: 'form', fields, files: fileRows.map(row => row.name) } : undefined;
+  }
+
+  // getInterfaceDetails parses JSON bodies; anything still a string is raw text
+  const documented: unknown = detail.req_body_other;
+  if (documented === null || documented === undefined || documented === '') return undefined;
+  if (typeof documented === 'string') {
+    return { kind: 'raw', text: documented };
+  }
+  return {
+    kind: 'json',
+    value: detail.req_body_is_json_schema ? exampleFromSchema(documented as JsonSchema) : exampleFromSample(documented),
+  };
+}
+
+function buildModel(project: YapiProject, detail: YapiInterfaceDetail, options: RequestSnippetOptions, notes: string[]): RequestModel {
+  const method = detail.method.toUpperCase();
+  const baseUrl = joinRequestUrl(resolveDomain(project, options, notes), project.basepath, buildPath(detail, notes));
+
+  // Header rows carry fixed values (e.g. Content-Type) in `value`
+  const headerRows = (detail.req_headers ?? []).map(row => ({ ...row, example: row.value || row.example }));
+  let headers = exampleRows(headerRows, 'header', notes);
+  const body = method === 'GET' || method === 'HEAD' ? undefined : buildBody(detail, notes);
+  if (body?.kind === 'form' && body.files.length > 0) {
+    // The client sets multipart/form-data with its boundary
+    headers = headers.filter(([name]) => name.toLowerCase() !== 'content-type');
+  } else if (body?.kind === 'form' && !hasHeader(headers.map(([name]) => name), 'Content-Type')) {
+    headers.push(['Content-Type', 'application/x-www-form-urlencoded']);
+  } else if (body?.kind === 'json' && !hasHeader(headers.map(([name]) => name), 'Content-Type')) {
+    headers.push(['Content-Type', 'application/json']);
+  }
+
+  return {
+    method,
+    baseUrl,
+    query: exampleRows(detail.req_query, 'query parameter', notes),
+    headers,
+    body,
+    jsonResponse: !detail.res_body_type || detail.res_body_type === 'json',
+  };
+}
+
+function fullUrl(model: RequestModel): string {
+  if (model.query.length === 0) return model.baseUrl;
+  // Placeholders stay readable instead of being percent-encoded
+  const encode = (value: string) => /^<[A-Za-z0-9_-]+>$/.test(value) ? value : encodeURIComponent(value);
+  return `${model.baseUrl}?${model.query.map(([name, value]) => `${encodeURIComponent(name)}=${encode(value)}`).join('&')}`;
+}
+
+// --- Literals ---
+
+interface LiteralStyle {
+  indent: string;
+  string: (text: string) => string;
+  key: (name: string) => string;
+  true: string;
+  false: string;
+  null: string;
+}
+
+function quote(text: string, quoteChar: string): string {
+  const escaped = text
+    .replace(/\\/g, '\\\\')
+    .replace(new RegExp(quoteChar, 'g'), `\\${quoteChar}`)
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+    .replace(/\t/g, '\\t');
+  return `${quoteChar}${escaped}${quoteChar}`;
+}
+
+const JS_STYLE: LiteralStyle = {
+  indent: '  ',
+  string: text => quote(text, "'"),
+  key: name => /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : quote(name, "'"),
+  true: 'true',
+  false: 'false',
+  null: 'null',
+};
+
+const PYTHON_STYLE: LiteralStyle = {
+  indent: '    ',
+  string: text => quote(text, "'"),
+  key: name => quote(name, "'"),
+  true: 'True',
+  false: 'False',
+  null: 'None',
+};
+
+/**
+ * Renders a JSON value as a source literal; `level` is the indentation of the line it starts on.
+ */
+function literal(value: unknown, style: LiteralStyle, level: number): string {
+  if (value === null || value === undefined) return style.null;
+  if (typeof value === 'string') return style.string(value);
+  if (typeof value === 'boolean') return value ? style.true : style.false;
+  if (typeof value === 'number') return String(value);
+  const inner = style.indent.repeat(level + 1);
+  const outer = style.indent.repeat(level);
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '[]';
+    return `[\n${value.map(item => `${inner}${literal(item, style, level + 1)},`).join('\n')}\n${outer}]`;
+  }
+  const entries = Object.entries(value as Record<string, unknown>);
+  if (entries.length === 0) return '{}';
+  return `{\n${entries.map(([name, item]) => `${inner}${style.key(name)}: ${literal(item, style, level + 1)},`).join('\n')}\n${outer}}`;
+}
+
+// --- Renderers ---
+
+function shellQuote(text: string): string {
+  return `'${text.replace(/'/g, `'\\''`)}'`;
+}
+
+function curlSnippet(model: RequestModel): string {
+  const parts = [model.method === 'GET' ? `curl ${shellQuote(fullUrl(model))}` : `curl -X ${model.method} ${shellQuote(fullUrl(model))}`];
+  for (const [name, value] of model.headers) parts.push(`-H ${shellQuote(`${name}: ${value}`)}`);
+  const body = model.body;
+  if (body?.kind === 'json') {
+    parts.push(`--data-raw ${shellQuote(JSON.stringify(body.value, null, 2))}`);
+  } else if (body?.kind === 'raw') {
+    parts.push(`--data-raw ${shellQuote(body.text)}`);
+  } else if (body?.kind === 'form' && body.files.length > 0) {
+    for (const [name, value] of body.fields) parts.push(`-F ${shellQuote(`${name}=${value}`)}`);
+    for (const name of body.files) parts.push(`-F ${shellQuote(`${name}=@/path/to/file`)}`);
+  } else if (body?.kind === 'form') {
+    for (const [name, value] of body.fields) parts.push(`--data-urlencode ${shellQuote(`${name}=${value}`)}`);
+  }
+  return parts.join(' \\\n  ');
+}
+
+function formDataLines(body: Extract<SnippetBody, { kind: 'form' }>, indent: string = ''): string[] {
+  return [
+    `${indent}const formData = new FormData();`,
+    ...body.fields.map(([name, value]) => `${indent}formData.append(${JS_STYLE.string(name)}, ${JS_STYLE.string(value)});`),
+    ...body.files.map(name => `${indent}formData.append(${JS_STYLE.string(name)}, file); // a File or Blob`),
+  ];
+}
+
+/**
+ * The JS expression for the request body (fetch `body` / axios `data`).
+ */
+function jsBody(body: SnippetBody, serializeJson: boolean): string {
+  switch (body.kind) {
+    case 'json':
+      return serializeJson ? `JSON.stringify(${literal(body.value, JS_STYLE, 1)})` : literal(body.value, JS_STYLE, 1);
+    case 'raw':
+      return JS_STYLE.string(body.text);
+    case 'form':
+      return body.files.length > 0 ? 'formData' : `new URLSearchParams(${literal(Object.fromEntries(body.fields), JS_STYLE, 1)})`;
+  }
+}
+
+function fetchSnippet(model: RequestModel): string {
+  const lines: string[] = [];
+  if (model.body?.kind === 'form' && model.body.files.length > 0) lines.push(...formDataLines(model.body), '');
+  lines.push(`const response = await fetch(${JS_STYLE.string(fullUrl(model))}, {`);
+  lines.push(`  method: ${JS_STYLE.string(model.method)},`);
+  if (model.headers.length > 0) lines.push(`  headers: ${literal(Object.fromEntries(model.headers), JS_STYLE, 1)},`);
+  if (model.body) lines.push(`  body: ${jsBody(model.body, true)},`);
+  lines.push('});');
+  lines.push(`const data = await response.${model.jsonResponse ? 'json' : 'text'}();`);
+  lines.push('console.log(data);');
+  return lines.join('\n');
+}
+
+function axiosSnippet(model: RequestModel): string {
+  const lines = ["import axios from 'axios';", ''];
+  if (model.body?.kind === 'form' && model.body.files.length > 0) lines.push(...formDataLines(model.body), '');
+  lines.push('const { data } = await axios.request({');
+  lines.push(`  method: ${JS_STYLE.string(model.method.toLowerCase())},`);
+  lines.push(`  url: ${JS_STYLE.string(model.baseUrl)},`);
+  if (model.query.length > 0) lines.push(`  params: ${literal(Object.fromEntries(model.query), JS_STYLE, 1)},`);
+  if (model.headers.length > 0) lines.push(`  headers: ${literal(Object.fromEntries(model.headers), JS_STYLE, 1)},`);
+  if (model.body) lines.push(`  data: ${jsBody(model.body, false)},`);
+  if (!model.jsonResponse) lines.push("  responseType: 'text',");
+  lines.push('});');
+  lines.push('console.log(data);');
+  return lines.join('\n');
+}
+
+function pythonSnippet(model: RequestModel): string {
+  const args = [PYTHON_STYLE.string(model.method), PYTHON_STYLE.string(model.baseUrl)];
+  if (model.query.length > 0) args.push(`params=${literal(Object.fromEntries(model.query), PYTHON_STYLE, 1)}`);
+  // requests sets the multipart Content-Type itself when `files` is given
+  if (model.headers.length > 0) args.push(`headers=${literal(Object.fromEntries(model.headers), PYTHON_STYLE, 1)}`);
+  const body = model.body;
+  if (body?.kind === 'json') {
+    args.push(`json=${literal(body.value, PYTHON_STYLE, 1)}`);
+  } else if (body?.kind === 'raw') {
+    args.push(`data=${PYTHON_STYLE.string(body.text)}`);
+  } else if (body?.kind === 'form') {
+    if (body.fields.length > 0) args.push(`data=${literal(Object.fromEntries(body.fields), PYTHON_STYLE, 1)}`);
+    if (body.files.length > 0) {
+      const files = body.files.map(name => `        ${PYTHON_STYLE.string(name)}: open('/path/to/file', 'rb'),`);
+      args.push(`files={\n${files.join('\n')}\n    }`);
+    }
+  }
+  return [
+    'import requests',
+    '',
+    'response = requests.request(',
+    ...args.map(arg => `    ${arg},`),
+    ')',
+    `print(response.${model.jsonResponse ? 'json()' : 'text'})`,
+  ].join('\n');
+}
+
+const RENDERERS: Record<SnippetLanguage, (model: RequestModel) => string> = {
+  curl: curlSnippet,
+  fetch: fetchSnippet,
+  axios: axiosSnippet,
+  python: pythonSnippet,
+};
+
+/**
+ * Builds ready-to-run request snippets for an interface: env domain + project basepath + path,
+ * with path/query/header/body values taken from the documented examples (body examples come
+ * from the JSON Schema or sample). Values without an example become "<name>" placeholders,
+ * listed in `notes`.
+ */
+export async function generateRequestSnippets(yapiService: YapiService, interfaceId: number, options: RequestSnippetOptions): Promise<RequestSnippetResult> {
+  const [project, detail] = await Promise.all([yapiService.getProjectInfo(), yapiService.getInterfaceDetails(interfaceId)]);
+  const notes: string[] = [];
+  const model = buildModel(project, detail, options, notes);
+  const snippets: Partial<Record<SnippetLanguage, string>> = {};
+  for (const language of options.languages) {
+    snippets[language] = RENDERERS[language](model);
+  }
+  return {
+    interface: { id: detail._id, method: model.method, path: detail.path, title: detail.title },
+    method: model.method,
+    url: fullUrl(model),
+    snippets,
+    notes,
+  };
+}
@@ -0,0 +1,60 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { YapiInterfaceDetail, YapiProject } from './schemas.js';
+
+/**
+ * Returns the domain of the named env, or of the only env when no name is given.
+ * Returns undefined when no env is named and the project has none or several.
+ */
+export function envDomain(project: YapiProject, env: string | undefined): string | undefined {
+  const envs = project.env ?? [];
+  if (env) {
+    const match = envs.find(candidate => candidate.name === env);
+    if (!match) throw new McpError(ErrorCode.InvalidParams, `Unknown env '${env}'. Project envs: ${envNames(project)}.`);
+    return match.domain;
+  }
+  return envs.length === 1 ? envs[0].domain : undefined;
+}
+
+/**
+ * Lists the project's env names for error messages and notes.
+ */
+export function envNames(project: YapiProject): string {
+  return (project.env ?? []).map(env => env.name).join(', ') || '(none)';
+}
+
+/**
+ * Joins a domain, the project basepath and an interface path, tolerating missing or extra slashes.
+ */
+export function joinRequestUrl(domain: string, basepath: string | null | undefined, path: string): string {
+  const trimmed = (basepath ?? '').trim().replace(/\/+$/, '');
+  const prefix = trimmed === '' || trimmed.startsWith('/') ? trimmed : `/${trimmed}`;
+  return `${domain.replace(/\/+$/, '')}${prefix}/${path.replace(/^\/+/, '')}`;
+}
+
+/**
+ * Substitutes ":name" / "{name}" path parameters with the given values, falling back to the
+ * documented examples. Parameters without either are replaced by `onMissing(name)`.
+ */
+export function substitutePathParams(
+  detail: YapiInterfaceDetail,
+  values: Record<string, string | number>,
+  onMissing: (name: string) => string
+): string {
+  const examples = new Map((detail.req_params ?? []).map(param => [param.name, param.example]));
+  return detail.path.replace(/:([A-Za-z0-9_]+)|\{([A-Za-z0-9_]+)\}/g, (_match, colonName?: string, braceName?: string) => {
+    const name = (colonName ?? braceName)!;
+    const value = values[name] ?? examples.get(name);
+    return value === undefined || value === null || value === '' ? onMissing(name) : encodeURIComponent(String(value));
+  });
+}
+
+/**
+ * Tells whether a header is among `names`; header names are case-insensitive.
+ */
+export function hasHeader(names: Iterable<string>, name: string): boolean {
+  const wanted = name.toLowerCase();
+  for (const existing of names) {
+    if (existing.toLowerCase() === wanted) return true;
+  }
+  return false;
+}
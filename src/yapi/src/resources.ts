@@ -0,0 +1,224 @@
+import {
+  ErrorCode,
+  McpError,
+  Resource,
+  ResourceTemplate,
+  ReadResourceResult,
+} from "@modelcontextprotocol/sdk/types.js";
+import { YapiProjectRegistry } from "./projectRegistry.js";
+import { listRecentChanges, MenuChangeEvent } from "./changeFeed.js";
+import { toUnixSeconds } from "./interfaceFilter.js";
+import { createLogger } from "./logger.js";
+
+const log = createLogger('Resources');
+
+// --- URI Scheme ---
+// yapi://project                 -> project info (/api/project/get)
+// yapi://category/{catid}        -> interfaces of a category (/api/interface/list_cat)
+// yapi://interface/{id}          -> interface details (/api/interface/get)
+// yapi://changes                 -> interfaces added or updated recently (?since=<ISO date or Unix seconds>)
+// Any of these may carry ?project=<alias> to target a non-default project.
+const URI_SCHEME = "yapi:";
+const JSON_MIME_TYPE = "application/json";
+
+// list_cat is paginated; a resource should represent the whole category in one read
+const CATEGORY_RESOURCE_PAGE_LIMIT = 1000;
+
+const RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: "yapi://project{?project}",
+    name: "YAPI Project",
+    description: "已配置 YAPI 项目的基本信息（project 为项目别名或 ID，省略时为默认项目）。",
+    mimeType: JSON_MIME_TYPE,
+  },
+  {
+    uriTemplate: "yapi://category/{catid}{?project}",
+    name: "YAPI Category",
+    description: "YAPI 分类下的接口列表（仅包含基本信息如名称、路径、方法）。",
+    mimeType: JSON_MIME_TYPE,
+  },
+  {
+    uriTemplate: "yapi://interface/{id}{?project}",
+    name: "YAPI Interface",
+    description: "YAPI 接口的详细信息（包括请求/响应参数、类型、状态等）。",
+    mimeType: JSON_MIME_TYPE,
+  },
+  {
+    uriTemplate: "yapi://changes{?project,since}",
+    name: "YAPI Recent Changes",
+    description: "最近新增或更新的接口（since 为 ISO 8601 时间或 Unix 秒，省略时为最近 24 小时）。订阅后项目变更时会收到 notifications/resources/updated。",
+    mimeType: JSON_MIME_TYPE,
+  },
+];
+
+// Discriminated union describing a parsed yapi:// URI
+type ParsedResourceUri = { project?: string } & (
+  | { kind: "project" }
+  | { kind: "changes"; since?: string }
+  | { kind: "category"; id: number }
+  | { kind: "interface"; id: number }
+);
+
+/**
+ * Builds a yapi:// URI, adding the project query only for non-default projects
+ * so single-project setups keep the short form.
+ */
+export function buildResourceUri(projects: YapiProjectRegistry, alias: string, path: string): string {
+  const uri = `yapi://${path}`;
+  return alias === projects.getDefaultAlias() ? uri : `${uri}?project=${encodeURIComponent(alias)}`;
+}
+
+/**
+ * Parses a yapi:// resource URI. Throws an InvalidParams McpError for anything
+ * that does not match one of the supported shapes.
+ */
+function parseResourceUri(uri: string): ParsedResourceUri {
+  let parsed: URL;
+  try {
+    parsed = new URL(uri);
+  } catch {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid resource URI: '${uri}'`);
+  }
+  if (parsed.protocol !== URI_SCHEME) {
+    throw new McpError(ErrorCode.InvalidParams, `Unsupported resource URI scheme: '${parsed.protocol}'`);
+  }
+
+  // For "yapi://interface/123" the URL parser puts "interface" in host and "/123" in pathname
+  const kind = parsed.host;
+  const segments = parsed.pathname.split("/").filter(Boolean);
+  const project = parsed.searchParams.get("project") ?? undefined;
+
+  if (kind === "project" && segments.length === 0) {
+    return { kind: "project", project };
+  }
+  if (kind === "changes" && segments.length === 0) {
+    return { kind: "changes", since: parsed.searchParams.get("since") ?? undefined, project };
+  }
+  if ((kind === "category" || kind === "interface") && segments.length === 1) {
+    const id = Number(segments[0]);
+    if (Number.isInteger(id) && id > 0) {
+      return { kind, id, project };
+    }
+  }
+  throw new McpError(ErrorCode.InvalidParams, `Unknown resource URI: '${uri}'`);
+}
+
+/**
+ * Checks that `uri` is a supported yapi:// URI of a configured project, e.g. before subscribing to it.
+ */
+export function validateResourceUri(projects: YapiProjectRegistry, uri: string): void {
+  projects.resolve(parseResourceUri(uri).project);
+}
+
+/**
+ * Lists the concrete resources of every configured project: the project itself,
+ * every category and every interface found in the project menu.
+ * A project whose menu cannot be fetched is skipped rather than failing the whole list.
+ */
+export async function listResources(projects: YapiProjectRegistry): Promise<Resource[]> {
+  const perProject = await Promise.all(projects.aliases().map(async (alias): Promise<Resource[]> => {
+    let menu;
+    try {
+      menu = await projects.get(alias).getProjectInterfaceMenu();
+    } catch (error) {
+      log.warning(`Skipping project '${alias}': failed to fetch interface menu`, { error });
+      return [];
+    }
+    // Prefix names with the alias only when several projects are listed side by side
+    const prefix = projects.aliases().length > 1 ? `[${alias}] ` : "";
+    const resources: Resource[] = [
+      {
+        uri: buildResourceUri(projects, alias, "project"),
+        name: `${prefix}YAPI Project`,
+        description: "当前配置 Token 所对应 YAPI 项目的基本信息。",
+        mimeType: JSON_MIME_TYPE,
+      },
+      {
+        uri: buildResourceUri(projects, alias, "changes"),
+        name: `${prefix}YAPI Recent Changes`,
+        description: "最近 24 小时内新增或更新的接口，可订阅变更通知。",
+        mimeType: JSON_MIME_TYPE,
+      },
+    ];
+
+    for (const category of menu) {
+      resources.push({
+        uri: buildResourceUri(projects, alias, `category/${category._id}`),
+        name: `${prefix}[分类] ${category.name}`,
+        description: category.desc || undefined,
+        mimeType: JSON_MIME_TYPE,
+      });
+      for (const item of category.list ?? []) {
+        resources.push({
+          uri: buildResourceUri(projects, alias, `interface/${item._id}`),
+          name: `${prefix}${item.method.toUpperCase()} ${item.path} - ${item.title}`,
+          mimeType: JSON_MIME_TYPE,
+        });
+      }
+    }
+    return resources;
+  }));
+  return perProject.flat();
+}
+
+/**
+ * Returns the resource templates clients can use to address categories and interfaces by ID.
+ */
+export function listResourceTemplates(): ResourceTemplate[] {
+  return RESOURCE_TEMPLATES;
+}
+
+/**
+ * Reads a yapi:// resource and returns its content as a JSON text resource.
+ */
+export async function readResource(projects: YapiProjectRegistry, uri: string): Promise<ReadResourceResult> {
+  const target = parseResourceUri(uri);
+  const yapiService = projects.get(target.project);
+  let data: unknown;
+
+  switch (target.kind) {
+    case "project":
+      data = await yapiService.getProjectInfo();
+      break;
+    case "category":
+      data = await yapiService.listInterfacesByCategory(target.id, 1, CATEGORY_RESOURCE_PAGE_LIMIT);
+      break;
+    case "interface":
+      data = await yapiService.getInterfaceDetails(target.id);
+      break;
+    case "changes":
+      data = await listRecentChanges(yapiService, {
+        since: target.since === undefined ? undefined : toUnixSeconds(target.since, "since"),
+      });
+      break;
+  }
+
+  return {
+    contents: [{ uri, mimeType: JSON_MIME_TYPE, text: JSON.stringify(data, null, 2) }],
+  };
+}
+
+/**
+ * Tells whether a change detected by the ChangeWatcher affects the resource `uri`: the project's
+ * change feed, or a changed interface or category. The project resource never changes this way.
+ * Events are matched by alias, so they must come from a watcher of the same registry.
+ */
+export function isResourceAffected(projects: YapiProjectRegistry, uri: string, event: MenuChangeEvent): boolean {
+  let target: ParsedResourceUri;
+  try {
+    target = parseResourceUri(uri);
+    if (projects.resolve(target.project).alias !== event.alias) return false;
+  } catch {
+    return false;
+  }
+  switch (target.kind) {
+    case "changes":
+      return true;
+    case "category":
+      return event.categoryIds.includes(target.id);
+    case "interface":
+      return event.interfaceIds.includes(target.id);
+    default:
+      return false;
+  }
+}
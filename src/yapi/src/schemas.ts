@@ -1,25 +1,274 @@
 import { z } from 'zod';
 
 // --- Input Argument Schemas ---
+// Every tool accepts an optional project selector (alias or YAPI project ID); omitted means the default project
+const ProjectSelectorSchema = z.string().optional().describe("目标 YAPI 项目的别名或项目 ID (可选, 默认为默认项目, 可通过 yapi_list_projects 查看)");
+
+// Every tool also accepts an output format for its result
+export const OutputFormatSchema = z.enum(["json", "markdown", "compact"]).optional().default("json")
+  .describe("结果输出格式 (可选, 默认为 json): json 为原始数据, markdown 为便于阅读的表格与大纲, compact 去除 _id/uid/add_time 等内部字段以节省 token");
+export type OutputFormat = z.infer<typeof OutputFormatSchema>;
+
+// Reads only the format of any tool's arguments
+export const OutputFormatArgsSchema = z.object({ format: OutputFormatSchema });
+
+// Filters over interface list items, shared by the category listing and the project menu
+export const InterfaceFilterSchema = z.object({
+  method: z.string().optional().describe("按请求方法过滤 (可选, 例如 POST)"),
+  status: z.enum(["done", "undone", "design"]).optional().describe("按接口状态过滤 (可选)"),
+  tag: z.string().optional().describe("按接口标签过滤 (可选)"),
+  path_prefix: z.string().optional().describe("按路径前缀过滤 (可选, 例如 /order; 不含项目 basepath)"),
+  updated_after: z.union([z.number().int().nonnegative(), z.string().min(1)]).optional().describe("只返回此时间之后 (含) 更新的接口 (可选; ISO 8601 日期/时间如 2024-05-01, 或 Unix 秒)"),
+  updated_before: z.union([z.number().int().nonnegative(), z.string().min(1)]).optional().describe("只返回此时间之前 (含) 更新的接口 (可选; ISO 8601 日期/时间, 或 Unix 秒)"),
+});
+
 export const GetInterfaceDetailsArgsSchema = z.object({
+  project: ProjectSelectorSchema,
+  format: OutputFormatSchema,
   interface_id: z.number().int().positive().describe("要获取详情的 YAPI 接口 ID"),
 });
 
+export const GetInterfacesBatchArgsSchema = z.object({
+  project: ProjectSelectorSchema,
+  format: OutputFormatSchema,
+  interface_ids: z.array(z.number().int().positive()).max(200).optional().describe("要获取详情的 YAPI 接口 ID 列表 (可选, 最多 200 个)"),
+  category_id: z.number().int().positive().optional().describe("获取该分类下全部接口的详情 (可选, 可与 interface_ids 同时使用)"),
+  fields: z.array(z.string().min(1)).min(1).optional().describe("只返回这些顶层字段, 例如 [\"title\", \"path\", \"req_body_other\"] (可选, 默认返回全部字段; _id 始终保留)"),
+  concurrency: z.number().int().positive().max(10).optional().default(5).describe("同时请求 YAPI 的最大数量 (可选, 默认为 5, 最大为 10)"),
+}).refine(args => (args.interface_ids && args.interface_ids.length > 0) || args.category_id !== undefined, { message: "Either interface_ids or category_id is required" });
+
 export const ListInterfacesByCategoryArgsSchema = z.object({
+  project: ProjectSelectorSchema,
+  format: OutputFormatSchema,
   category_id: z.number().int().positive().describe("要获取列表的 YAPI 分类 ID"),
   page: z.number().int().positive().optional().default(1).describe("页码 (可选, 默认为 1)"),
-  limit: z.number().int().positive().optional().default(10).describe("每页数量 (可选, 默认为 10, 最大建议 100)")
+  limit: z.number().int().positive().optional().default(10).describe("每页数量 (可选, 默认为 10, 最大建议 100)"),
+  all: z.boolean().optional().default(false).describe("是否自动翻页获取分类下的全部接口 (可选, 默认为 false; 为 true 时忽略 page 和 limit)"),
+  ...InterfaceFilterSchema.shape,
 });
 
-export const GetProjectInterfaceMenuArgsSchema = z.object({}).describe("获取项目接口菜单，无需参数");
+export const GetProjectInterfaceMenuArgsSchema = z.object({
+  project: ProjectSelectorSchema,
+  format: OutputFormatSchema,
+  ...InterfaceFilterSchema.shape,
+}).describe("获取项目接口菜单，可按方法、状态、标签、路径前缀和更新时间过滤接口");
+
+export const GetProjectInfoArgsSchema = z.object({
+  project: ProjectSelectorSchema,
+  format: OutputFormatSchema,
+}).describe("获取项目基本信息，除项目与输出格式外无需参数");
 
-export const GetProjectInfoArgsSchema = z.object({}).describe("获取项目基本信息，无需参数");
+export const ListProjectsArgsSchema = z.object({
+  format: OutputFormatSchema,
+}).describe("列出已配置的 YAPI 项目，除输出格式外无需参数");
+
+export const GenerateTypeScriptTypesArgsSchema = z.object({
+  project: ProjectSelectorSchema,
+  format: OutputFormatSchema,
+  interface_id: z.number().int().positive().describe("要生成 TypeScript 类型的 YAPI 接口 ID"),
+  type_name: z.string().regex(/^[A-Za-z_$][A-Za-z0-9_$]*$/, "必须是合法的 TypeScript 标识符").optional().describe("类型名前缀 (可选, 默认根据接口标题或路径生成)"),
+});
+
+export const GenerateRequestSnippetArgsSchema = z.object({
+  project: ProjectSelectorSchema,
+  format: OutputFormatSchema,
+  interface_id: z.number().int().positive().describe("要生成请求代码的 YAPI 接口 ID"),
+  languages: z.array(z.enum(["curl", "fetch", "axios", "python"])).min(1).optional().default(["curl", "fetch", "axios"]).describe("要生成的代码类型 (可选, 默认为 curl、fetch 和 axios; python 使用 requests 库)"),
+  env: z.string().optional().describe("项目环境名称 (project.env 中的 name, 可选, 默认使用第一个环境)"),
+  domain: z.string().optional().describe("覆盖环境域名, 例如 http://localhost:8080 (可选)"),
+});
+
+export const ExportOpenApiArgsSchema = z.object({
+  project: ProjectSelectorSchema,
+  format: OutputFormatSchema,
+  version: z.string().optional().default("1.0.0").describe("OpenAPI 文档 info.version 的值 (可选, 默认为 1.0.0)"),
+});
+
+export const SearchInterfacesArgsSchema = z.object({
+  project: ProjectSelectorSchema,
+  format: OutputFormatSchema,
+  query: z.string().describe("搜索关键词，空格分隔多个词；匹配标题、路径、标签、分类、描述及参数名。可为空字符串以仅按条件过滤"),
+  method: z.string().optional().describe("按请求方法过滤 (可选, 例如 POST)"),
+  status: z.enum(["done", "undone", "design"]).optional().describe("按接口状态过滤 (可选)"),
+  tag: z.string().optional().describe("按接口标签过滤 (可选)"),
+  category_id: z.number().int().positive().optional().describe("按分类 ID 过滤 (可选)"),
+  include_details: z.boolean().optional().default(true).describe("是否索引接口详情 (描述与参数名)。首次搜索需逐个拉取详情, 设为 false 则只搜索菜单字段 (可选, 默认为 true)"),
+  limit: z.number().int().positive().max(200).optional().default(20).describe("返回结果数量上限 (可选, 默认为 20)"),
+});
+
+export const RecentChangesArgsSchema = z.object({
+  project: ProjectSelectorSchema,
+  format: OutputFormatSchema,
+  since: z.union([z.number().int().nonnegative(), z.string().min(1)]).optional().describe("起始时间, 报告此时间之后 (含) 新增或更新的接口 (可选; ISO 8601 日期/时间如 2024-05-01T00:00:00+08:00, 或 Unix 秒; 默认为 24 小时前)"),
+  category_id: z.number().int().positive().optional().describe("只报告该分类下的接口 (可选)"),
+  limit: z.number().int().positive().max(500).optional().default(100).describe("返回结果数量上限 (可选, 默认为 100, 按更新时间倒序)"),
+});
+
+export const RefreshCacheArgsSchema = z.object({
+  project: ProjectSelectorSchema,
+  format: OutputFormatSchema,
+  interface_id: z.number().int().positive().optional().describe("仅刷新该接口的详情缓存 (可选, 省略时清空该项目的全部缓存)"),
+});
+
+export const CreateSnapshotArgsSchema = z.object({
+  project: ProjectSelectorSchema,
+  format: OutputFormatSchema,
+  path: z.string().min(1).describe("快照文件的保存路径 (相对于服务器文件目录 YAPI_FILES_DIR, 不能包含 .., 已存在则覆盖)"),
+});
+
+export const DiffSnapshotArgsSchema = z.object({
+  project: ProjectSelectorSchema,
+  format: OutputFormatSchema,
+  base_path: z.string().min(1).describe("基准快照文件路径 (旧版本, 相对于服务器文件目录)"),
+  target_path: z.string().min(1).optional().describe("对比快照文件路径 (新版本, 相对于服务器文件目录, 可选, 省略时与 YAPI 中的当前项目对比)"),
+  breaking_only: z.boolean().optional().default(false).describe("是否只返回破坏性变更 (可选, 默认为 false)"),
+});
+
+export const ValidatePayloadArgsSchema = z.object({
+  project: ProjectSelectorSchema,
+  format: OutputFormatSchema,
+  interface_id: z.number().int().positive().describe("用于校验的 YAPI 接口 ID"),
+  direction: z.enum(["request", "response"]).describe("校验方向: request 校验请求 (query、headers、body), response 校验响应体"),
+  body: z.unknown().optional().describe("请求体或响应体 (JSON 值, 也可以是 JSON 字符串; 表单请求传字段对象)"),
+  query: z.record(z.unknown()).optional().describe("请求的 query 参数 (仅 request, 可选, 省略时不校验必填 query)"),
+  headers: z.record(z.unknown()).optional().describe("请求头 (仅 request, 可选, 省略时不校验必填请求头)"),
+});
+
+export const CallInterfaceArgsSchema = z.object({
+  project: ProjectSelectorSchema,
+  format: OutputFormatSchema,
+  interface_id: z.number().int().positive().describe("要调用的 YAPI 接口 ID"),
+  env: z.string().optional().describe("项目环境名称 (project.env 中的 name, 可选; 项目只有一个环境或提供 domain 时可省略)"),
+  domain: z.string().optional().describe("覆盖环境域名, 例如 http://localhost:8080 (可选, 用于调用本地服务; 须为项目环境域名或服务器 YAPI_CALL_ALLOWED_DOMAINS 中允许的域名)"),
+  path_params: z.record(z.union([z.string(), z.number()])).optional().describe("路径参数值 (可选, 缺省时使用文档中的示例值)"),
+  query: z.record(z.union([z.string(), z.number(), z.boolean()])).optional().describe("Query 参数 (可选)"),
+  headers: z.record(z.string()).optional().describe("请求头 (可选, 覆盖文档中 req_headers 的默认值)"),
+  body: z.unknown().optional().describe("请求体 (可选; JSON 值或字符串, 表单接口传字段对象)"),
+  validate_response: z.boolean().optional().default(false).describe("是否按 res_body 校验响应体 (可选, 默认为 false)"),
+  timeout_ms: z.number().int().positive().max(120000).optional().default(30000).describe("请求超时毫秒数 (可选, 默认为 30000)"),
+});
+
+// --- Write Argument Schemas ---
+// Parameter rows as accepted by /api/interface/save and /api/interface/up
+const RequiredFlagSchema = z.enum(["0", "1"]).describe("是否必填: '1' 必填, '0' 可选");
+
+const WriteParamRowSchema = z.object({
+  name: z.string().min(1),
+  desc: z.string().optional(),
+  example: z.string().optional(),
+});
+
+const WriteQueryRowSchema = WriteParamRowSchema.extend({
+  required: RequiredFlagSchema.optional(),
+});
+
+const WriteHeaderRowSchema = WriteParamRowSchema.extend({
+  required: RequiredFlagSchema.optional(),
+  value: z.string().optional(),
+});
+
+const WriteBodyFormRowSchema = WriteParamRowSchema.extend({
+  required: RequiredFlagSchema.optional(),
+  type: z.enum(["text", "file"]).optional(),
+});
+
+// Bodies may be passed as a JSON string or as an object (serialized before sending)
+const WriteBodySchema = z.union([z.string(), z.record(z.unknown()), z.array(z.unknown())]);
+
+const InterfaceWriteFieldsSchema = z.object({
+  title: z.string().min(1).describe("接口名称"),
+  path: z.string().startsWith("/").describe("接口路径 (不含项目 basepath), 例如 /order/create"),
+  method: z.enum(["GET", "POST", "PUT", "DELETE", "PATCH", "HEAD", "OPTIONS"]).describe("请求方法 (大写)"),
+  status: z.enum(["done", "undone", "design"]).optional().describe("接口状态"),
+  desc: z.string().optional().describe("接口描述 (HTML)"),
+  markdown: z.string().optional().describe("接口描述 (Markdown)"),
+  tag: z.array(z.string()).optional().describe("接口标签"),
+  req_query: z.array(WriteQueryRowSchema).optional().describe("Query 参数"),
+  req_headers: z.array(WriteHeaderRowSchema).optional().describe("请求头"),
+  req_params: z.array(WriteParamRowSchema).optional().describe("路径参数"),
+  req_body_type: z.enum(["raw", "form", "json"]).optional().describe("请求体类型"),
+  req_body_form: z.array(WriteBodyFormRowSchema).optional().describe("表单请求体字段 (req_body_type 为 form 时)"),
+  req_body_is_json_schema: z.boolean().optional().describe("req_body_other 是否为 JSON Schema"),
+  req_body_other: WriteBodySchema.optional().describe("JSON/raw 请求体 (字符串或对象)"),
+  res_body_type: z.enum(["json", "raw", "xml"]).optional().describe("响应体类型"),
+  res_body_is_json_schema: z.boolean().optional().describe("res_body 是否为 JSON Schema"),
+  res_body: WriteBodySchema.optional().describe("响应体 (字符串或对象)"),
+  switch_notice: z.boolean().optional().describe("是否通知项目成员 (可选, 默认 YAPI 设置)"),
+});
+
+export const SaveInterfaceArgsSchema = InterfaceWriteFieldsSchema.extend({
+  project: ProjectSelectorSchema,
+  format: OutputFormatSchema,
+  catid: z.number().int().positive().describe("接口所属的 YAPI 分类 ID"),
+}).describe("新增或保存接口：同一项目下 path + method 相同的接口会被覆盖");
+
+export const UpdateInterfaceArgsSchema = InterfaceWriteFieldsSchema.partial().extend({
+  project: ProjectSelectorSchema,
+  format: OutputFormatSchema,
+  id: z.number().int().positive().describe("要更新的 YAPI 接口 ID"),
+  catid: z.number().int().positive().optional().describe("移动到的分类 ID (可选)"),
+}).describe("按 ID 更新接口，仅提交传入的字段");
+
+export const AddCategoryArgsSchema = z.object({
+  project: ProjectSelectorSchema,
+  format: OutputFormatSchema,
+  name: z.string().min(1).describe("分类名称"),
+  desc: z.string().optional().describe("分类描述 (可选)"),
+});
+
+export const ImportOpenApiArgsSchema = z.object({
+  project: ProjectSelectorSchema,
+  format: OutputFormatSchema,
+  path: z.string().min(1).describe("OpenAPI 3.x 或 Swagger 2.0 文件路径 (相对于服务器文件目录 YAPI_FILES_DIR, 不能包含 .., JSON 或 YAML)"),
+  strategy: z.enum(["skip", "overwrite", "merge"]).optional().default("skip").describe("已存在接口 (method + path 相同) 的处理方式: skip 跳过, overwrite 覆盖, merge 合并 (保留文件中没有的参数和描述)。可选, 默认为 skip"),
+  dry_run: z.boolean().optional().default(false).describe("仅预览将要新增/更新的接口与契约变更, 不写入 YAPI (可选, 默认为 false)"),
+  category_id: z.number().int().positive().optional().describe("新接口统一放入的分类 ID (可选, 省略时按 OpenAPI 的第一个 tag 归类, 缺少的分类会自动创建)"),
+});
+
+// --- Prompt Argument Schemas ---
+// MCP prompt arguments always arrive as strings, so numeric IDs are coerced.
+export const GenerateClientPromptArgsSchema = z.object({
+  project: ProjectSelectorSchema,
+  interface_id: z.coerce.number().int().positive().describe("要生成客户端代码的 YAPI 接口 ID"),
+  language: z.string().optional().default("TypeScript").describe("目标语言 (可选, 默认为 TypeScript)"),
+});
+
+export const WriteIntegrationTestsPromptArgsSchema = z.object({
+  project: ProjectSelectorSchema,
+  category_id: z.coerce.number().int().positive().describe("要编写集成测试的 YAPI 分类 ID"),
+  framework: z.string().optional().describe("测试框架 (可选, 例如 jest、vitest、pytest)"),
+});
+
+export const ReviewInterfaceDesignPromptArgsSchema = z.object({
+  project: ProjectSelectorSchema,
+  interface_id: z.coerce.number().int().positive().describe("要评审设计的 YAPI 接口 ID"),
+});
 
 // --- Inferred Input Types ---
+export type InterfaceFilter = z.infer<typeof InterfaceFilterSchema>;
 export type GetInterfaceDetailsArgs = z.infer<typeof GetInterfaceDetailsArgsSchema>;
+export type GetInterfacesBatchArgs = z.infer<typeof GetInterfacesBatchArgsSchema>;
 export type ListInterfacesByCategoryArgs = z.infer<typeof ListInterfacesByCategoryArgsSchema>;
 export type GetProjectInterfaceMenuArgs = z.infer<typeof GetProjectInterfaceMenuArgsSchema>;
 export type GetProjectInfoArgs = z.infer<typeof GetProjectInfoArgsSchema>;
+export type ListProjectsArgs = z.infer<typeof ListProjectsArgsSchema>;
+export type GenerateTypeScriptTypesArgs = z.infer<typeof GenerateTypeScriptTypesArgsSchema>;
+export type GenerateRequestSnippetArgs = z.infer<typeof GenerateRequestSnippetArgsSchema>;
+export type ExportOpenApiArgs = z.infer<typeof ExportOpenApiArgsSchema>;
+export type SearchInterfacesArgs = z.infer<typeof SearchInterfacesArgsSchema>;
+export type RecentChangesArgs = z.infer<typeof RecentChangesArgsSchema>;
+export type RefreshCacheArgs = z.infer<typeof RefreshCacheArgsSchema>;
+export type CreateSnapshotArgs = z.infer<typeof CreateSnapshotArgsSchema>;
+export type DiffSnapshotArgs = z.infer<typeof DiffSnapshotArgsSchema>;
+export type ValidatePayloadArgs = z.infer<typeof ValidatePayloadArgsSchema>;
+export type CallInterfaceArgs = z.infer<typeof CallInterfaceArgsSchema>;
+export type SaveInterfaceArgs = z.infer<typeof SaveInterfaceArgsSchema>;
+export type UpdateInterfaceArgs = z.infer<typeof UpdateInterfaceArgsSchema>;
+export type AddCategoryArgs = z.infer<typeof AddCategoryArgsSchema>;
+export type ImportOpenApiArgs = z.infer<typeof ImportOpenApiArgsSchema>;
+export type GenerateClientPromptArgs = z.infer<typeof GenerateClientPromptArgsSchema>;
+export type WriteIntegrationTestsPromptArgs = z.infer<typeof WriteIntegrationTestsPromptArgsSchema>;
+export type ReviewInterfaceDesignPromptArgs = z.infer<typeof ReviewInterfaceDesignPromptArgsSchema>;
 
 // --- YAPI Response Data Schemas (Refined based on YAPI doc) ---
 // These schemas represent the actual data *within* the 'data' field of successful YAPI responses.
@@ -143,6 +392,45 @@ export const YapiProjectSchema = z.object({
     role: z.string().optional().nullable(),
 }).passthrough();
 
+// --- Multi-project Configuration Schema ---
+// Shape of the JSON file passed via --config / YAPI_CONFIG_FILE
+export const YapiProjectsConfigSchema = z.object({
+  baseUrl: z.string().optional(), // Falls back to YAPI_BASE_URL
+  defaultProject: z.string().optional(), // Alias; defaults to the first project
+  projects: z.record(z.object({
+    token: z.string().min(1).optional(),
+    projectId: z.number().int().positive().optional(), // Lets callers select the project by its YAPI ID
+    baseUrl: z.string().optional(), // Per-project override of the instance URL
+    description: z.string().optional(),
+    offlineFile: z.string().min(1).optional(), // Serve the project from an export instead of YAPI
+  }).refine(project => project.token || project.offlineFile, { message: "Either token or offlineFile is required" })).refine(projects => Object.keys(projects).length > 0, { message: "At least one project must be configured" }),
+});
+
+export type YapiProjectsConfig = z.infer<typeof YapiProjectsConfigSchema>;
+
+// --- Project Snapshot Schema ---
+// Shape of snapshot files written by the 'snapshot' command / yapi_create_snapshot.
+// Interface bodies are stored parsed, so only the fields used to match interfaces are checked.
+export const ProjectSnapshotSchema = z.object({
+  version: z.literal(1),
+  created_at: z.string(),
+  base_url: z.string(),
+  project: YapiProjectSchema,
+  menu: YapiMenuDataSchema,
+  interfaces: z.record(z.object({
+    _id: z.number(),
+    method: z.string(),
+    path: z.string(),
+    title: z.string(),
+  }).passthrough()),
+});
+
+// --- Inferred Data Types ---
+export type YapiInterfaceDetail = z.infer<typeof YapiInterfaceDetailDataSchema>;
+export type YapiInterfaceListItem = z.infer<typeof YapiInterfaceListItemSchema>;
+export type YapiCategory = z.infer<typeof YapiCategorySchema>;
+export type YapiProject = z.infer<typeof YapiProjectSchema>;
+
 
 // --- YAPI API Response Wrapper Schemas ---
 // These define the *full* response structure including errcode/errmsg
@@ -170,4 +458,15 @@ export const YapiListMenuResponseSchema = YapiBaseResponseSchema.extend({
 // Wrapper for /api/project/get
 export const YapiProjectGetResponseSchema = YapiBaseResponseSchema.extend({
   data: YapiProjectSchema,
+});
+
+// Wrapper for /api/interface/save and /api/interface/up
+// The data shape differs between YAPI versions (saved documents or a MongoDB update result)
+export const YapiWriteResponseSchema = YapiBaseResponseSchema.extend({
+  data: z.unknown(),
+});
+
+// Wrapper for /api/interface/add_cat
+export const YapiAddCategoryResponseSchema = YapiBaseResponseSchema.extend({
+  data: YapiCategorySchema,
 });
\ No newline at end of file
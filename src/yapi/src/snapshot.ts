@@ -0,0 +1,79 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { ZodError } from 'zod';
+import { YapiService } from './yapiService.js';
+import { ProjectSnapshotSchema, YapiCategory, YapiInterfaceDetail, YapiProject } from './schemas.js';
+import { mapWithConcurrency } from './concurrency.js';
+import { ConfigurationError } from './errors.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('Snapshot');
+
+// Number of interface detail requests issued in parallel while taking a snapshot
+const DETAIL_FETCH_CONCURRENCY = 5;
+
+export const SNAPSHOT_VERSION = 1;
+
+/**
+ * Point-in-time copy of a project's contract: project info, the interface menu and
+ * every interface's details (bodies parsed as returned by getInterfaceDetails).
+ */
+export interface ProjectSnapshot {
+  version: typeof SNAPSHOT_VERSION;
+  created_at: string;
+  base_url: string;
+  project: YapiProject;
+  menu: YapiCategory[];
+  // Keyed by interface ID
+  interfaces: Record<string, YapiInterfaceDetail>;
+}
+
+/**
+ * Reads the whole project from YAPI. Interface details are fetched with bounded concurrency.
+ */
+export async function createSnapshot(yapiService: YapiService): Promise<ProjectSnapshot> {
+  const [project, menu] = await Promise.all([yapiService.getProjectInfo(), yapiService.getProjectInterfaceMenu()]);
+  const ids = menu.flatMap(category => (category.list ?? []).map(item => item._id));
+  const details = await mapWithConcurrency(ids, DETAIL_FETCH_CONCURRENCY, id => yapiService.getInterfaceDetails(id));
+  log.info(`Snapshot of project ${project._id} taken (${details.length} interfaces)`);
+
+  return {
+    version: SNAPSHOT_VERSION,
+    created_at: new Date().toISOString(),
+    base_url: yapiService.getBaseUrl(),
+    project,
+    menu,
+    interfaces: Object.fromEntries(details.map(detail => [String(detail._id), detail])),
+  };
+}
+
+export async function writeSnapshot(path: string, snapshot: ProjectSnapshot): Promise<void> {
+  await writeFile(path, JSON.stringify(snapshot, null, 2) + '\n', 'utf8');
+  log.info(`Snapshot written to ${path}`);
+}
+
+/**
+ * Loads a snapshot file written by `writeSnapshot` (or the `snapshot` command).
+ */
+export async function readSnapshot(path: string): Promise<ProjectSnapshot> {
+  let raw: string;
+  try {
+    raw = await readFile(path, 'utf8');
+  } catch (error) {
+    throw new ConfigurationError(`Cannot read snapshot file "${path}": ${error instanceof Error ? error.message : String(error)}`);
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    // The parser's message quotes the file's content, which may not be a snapshot at all
+    throw new ConfigurationError(`Invalid snapshot file "${path}": not valid JSON`);
+  }
+  try {
+    return ProjectSnapshotSchema.parse(parsed) as ProjectSnapshot;
+  } catch (error) {
+    const details = error instanceof ZodError
+      ? error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')
+      : (error instanceof Error ? error.message : String(error));
+    throw new ConfigurationError(`Invalid snapshot file "${path}": ${details}`);
+  }
+}
@@ -0,0 +1,57 @@
+import { realpathSync, statSync } from 'node:fs';
+import { lstat, realpath } from 'node:fs/promises';
+import { basename, dirname, isAbsolute, join, relative, resolve, sep, win32 } from 'node:path';
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { ConfigurationError } from './errors.js';
+
+/**
+ * Checks the directory configured for tool files (YAPI_FILES_DIR) and returns its real path.
+ */
+export function loadFilesDir(dir: string): string {
+  let realDir: string;
+  try {
+    realDir = realpathSync(dir);
+  } catch (error) {
+    throw new ConfigurationError(`Cannot access files directory "${dir}": ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!statSync(realDir).isDirectory()) {
+    throw new ConfigurationError(`Files directory "${dir}" is not a directory.`);
+  }
+  return realDir;
+}
+
+function isInside(dir: string, file: string): boolean {
+  const relativePath = relative(dir, file);
+  return relativePath !== '' && relativePath.split(sep)[0] !== '..' && !isAbsolute(relativePath);
+}
+
+/**
+ * Resolves a file path passed to a tool against the files directory. Only relative paths
+ * without `..` segments are accepted, and symlinks may not lead out of the directory: tool
+ * arguments come from clients (possibly remote ones over HTTP), not from the server's operator.
+ * @param filesDir - Real path of the files directory; file tools are refused without one.
+ * @param file - The path from the tool arguments.
+ * @param argument - Argument name used in error messages.
+ * @param mode - `read` requires the file to exist; `write` only requires its parent directory.
+ */
+export async function resolveToolFile(filesDir: string | undefined, file: string, argument: string, mode: 'read' | 'write'): Promise<string> {
+  if (!filesDir) {
+    throw new McpError(ErrorCode.InvalidParams, 'File tools are disabled on this server: set YAPI_FILES_DIR to the directory they may use.');
+  }
+  if (isAbsolute(file) || win32.isAbsolute(file) || file.split(/[\\/]/).includes('..')) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid ${argument} '${file}': use a path relative to the files directory, without '..'.`);
+  }
+  const resolved = resolve(filesDir, file);
+  // Existing files (and symlinks, dangling ones included) are followed; new files are checked by their parent
+  const exists = mode === 'read' || await lstat(resolved).then(() => true, () => false);
+  let realPath: string;
+  try {
+    realPath = exists ? await realpath(resolved) : join(await realpath(dirname(resolved)), basename(resolved));
+  } catch {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid ${argument} '${file}': not found in the files directory.`);
+  }
+  if (!isInside(filesDir, realPath)) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid ${argument} '${file}': resolves outside the files directory.`);
+  }
+  return realPath;
+}
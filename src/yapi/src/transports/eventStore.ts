@@ -0,0 +1,56 @@
+import { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import { EventStore, EventId, StreamId } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { createLogger } from "../logger.js";
+
+const log = createLogger('EventStore');
+
+interface StoredEvent {
+    streamId: StreamId;
+    message: JSONRPCMessage;
+}
+
+/**
+ * In-memory event store for one session, enabling clients to resume SSE streams with
+ * Last-Event-ID. Only the most recent `maxEvents` events are kept, so memory stays bounded
+ * however long the session lives; it is dropped together with the session's transport.
+ */
+export class BoundedEventStore implements EventStore {
+    // Map preserves insertion order, so the first key is always the oldest event
+    private readonly events = new Map<EventId, StoredEvent>();
+    private nextSequence = 1;
+
+    constructor(private readonly maxEvents: number = 1000) {}
+
+    async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+        const eventId = String(this.nextSequence++);
+        this.events.set(eventId, { streamId, message });
+        while (this.events.size > this.maxEvents) {
+            const oldest = this.events.keys().next().value;
+            if (oldest === undefined) break;
+            this.events.delete(oldest);
+        }
+        return eventId;
+    }
+
+    /**
+     * Re-sends the events of the same stream stored after `lastEventId`.
+     * Returns '' when the event is unknown (never stored or already evicted).
+     */
+    async replayEventsAfter(
+        lastEventId: EventId,
+        { send }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> }
+    ): Promise<StreamId> {
+        const lastEvent = this.events.get(lastEventId);
+        if (!lastEvent) {
+            log.warning(`Cannot resume after unknown event ${lastEventId}`);
+            return '';
+        }
+        const lastSequence = Number(lastEventId);
+        for (const [eventId, { streamId, message }] of this.events) {
+            if (Number(eventId) > lastSequence && streamId === lastEvent.streamId) {
+                await send(eventId, message);
+            }
+        }
+        return lastEvent.streamId;
+    }
+}
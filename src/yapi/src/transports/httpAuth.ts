@@ -0,0 +1,260 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { createHash, createPublicKey, timingSafeEqual, verify as verifySignature, JsonWebKey, KeyObject } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { ConfigurationError } from '../errors.js';
+import { createLogger } from '../logger.js';
+
+const log = createLogger('HTTP Auth');
+
+// --- Configuration ---
+
+export interface JwtVerificationConfig {
+  /** Keys from a static JWKS file, indexed by `kid` (keys without a kid are tried in order) */
+  keys: Array<{ kid?: string; alg?: string; key: KeyObject }>;
+  issuer?: string;
+  audience?: string;
+  /** Allowed clock skew when checking exp/nbf, in seconds */
+  clockToleranceSec: number;
+  /** Accept tokens without an `exp` claim (they never expire) */
+  allowMissingExp: boolean;
+}
+
+export interface HttpAuthConfig {
+  /** SHA-256 digests of the accepted API keys (raw keys are not kept in memory) */
+  apiKeyDigests: Buffer[];
+  jwt?: JwtVerificationConfig;
+  /** Scopes every token must carry (JWT `scope`/`scp` claims); API keys are exempt */
+  requiredScopes: string[];
+}
+
+export interface HttpAuthSources {
+  apiKeys?: string;        // MCP_AUTH_API_KEYS, comma-separated
+  apiKeysFile?: string;    // MCP_AUTH_API_KEYS_FILE, one key per line ('#' comments allowed)
+  jwksFile?: string;       // MCP_AUTH_JWKS_FILE
+  jwtIssuer?: string;      // MCP_AUTH_JWT_ISSUER
+  jwtAudience?: string;    // MCP_AUTH_JWT_AUDIENCE
+  requiredScopes?: string; // MCP_AUTH_REQUIRED_SCOPES, space- or comma-separated
+  jwtAllowNoExp?: boolean; // MCP_AUTH_JWT_ALLOW_NO_EXP
+}
+
+const JWT_CLOCK_TOLERANCE_SEC = 60;
+
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+function splitList(value: string | undefined, separator: RegExp): string[] {
+  return (value ?? '').split(separator).map(item => item.trim()).filter(Boolean);
+}
+
+function loadJwks(jwksFile: string): JwtVerificationConfig['keys'] {
+  let jwks: { keys?: Array<JsonWebKey & { kid?: string; alg?: string; use?: string }> };
+  try {
+    jwks = JSON.parse(readFileSync(jwksFile, 'utf8'));
+  } catch (error) {
+    throw new ConfigurationError(`Cannot read JWKS file "${jwksFile}": ${error instanceof Error ? error.message : String(error)}`);
+  }
+  const keys = (jwks.keys ?? [])
+    .filter(jwk => !jwk.use || jwk.use === 'sig')
+    .map(jwk => {
+      try {
+        return { kid: jwk.kid, alg: jwk.alg, key: createPublicKey({ key: jwk, format: 'jwk' }) };
+      } catch (error) {
+        throw new ConfigurationError(`Invalid key${jwk.kid ? ` '${jwk.kid}'` : ''} in JWKS file "${jwksFile}": ${error instanceof Error ? error.message : String(error)}`);
+      }
+    });
+  if (keys.length === 0) {
+    throw new ConfigurationError(`JWKS file "${jwksFile}" contains no signing keys.`);
+  }
+  return keys;
+}
+
+/**
+ * Builds the HTTP auth configuration. Returns undefined when neither API keys nor a JWKS
+ * file are configured, i.e. authentication is disabled.
+ */
+export function loadHttpAuthConfig(sources: HttpAuthSources): HttpAuthConfig | undefined {
+  const apiKeys = splitList(sources.apiKeys, /,/);
+  if (sources.apiKeysFile) {
+    let content: string;
+    try {
+      content = readFileSync(sources.apiKeysFile, 'utf8');
+    } catch (error) {
+      throw new ConfigurationError(`Cannot read API keys file "${sources.apiKeysFile}": ${error instanceof Error ? error.message : String(error)}`);
+    }
+    apiKeys.push(...content.split(/\r?\n/).map(line => line.trim()).filter(line => line && !line.startsWith('#')));
+  }
+
+  const jwt = sources.jwksFile
+    ? {
+        keys: loadJwks(sources.jwksFile),
+        issuer: sources.jwtIssuer || undefined,
+        audience: sources.jwtAudience || undefined,
+        clockToleranceSec: JWT_CLOCK_TOLERANCE_SEC,
+        allowMissingExp: sources.jwtAllowNoExp ?? false,
+      }
+    : undefined;
+
+  if (apiKeys.length === 0 && !jwt) {
+    return undefined;
+  }
+  return {
+    apiKeyDigests: apiKeys.map(digest),
+    jwt,
+    requiredScopes: splitList(sources.requiredScopes, /[\s,]+/),
+  };
+}
+
+// --- Verification ---
+
+class AuthenticationError extends Error {
+  constructor(message: string, public readonly status: 401 | 403 = 401) {
+    super(message);
+    this.name = 'AuthenticationError';
+  }
+}
+
+// JWS algorithm -> node:crypto digest and signature options (a Map, so "constructor" & co. are not algorithms)
+const JWT_ALGORITHMS = new Map<string, { hash: string | null; options?: { padding?: number; saltLength?: number; dsaEncoding?: 'ieee-p1363' } }>([
+  ['RS256', { hash: 'sha256' }],
+  ['RS384', { hash: 'sha384' }],
+  ['RS512', { hash: 'sha512' }],
+  ['PS256', { hash: 'sha256', options: { padding: 6, saltLength: 32 } }], // 6 = RSA_PKCS1_PSS_PADDING
+  ['PS384', { hash: 'sha384', options: { padding: 6, saltLength: 48 } }],
+  ['PS512', { hash: 'sha512', options: { padding: 6, saltLength: 64 } }],
+  ['ES256', { hash: 'sha256', options: { dsaEncoding: 'ieee-p1363' } }],
+  ['ES384', { hash: 'sha384', options: { dsaEncoding: 'ieee-p1363' } }],
+  ['ES512', { hash: 'sha512', options: { dsaEncoding: 'ieee-p1363' } }],
+  ['EdDSA', { hash: null }],
+]);
+
+/**
+ * Decodes a JOSE header or claims segment; both must be JSON objects.
+ */
+function decodeSegment(segment: string | undefined): Record<string, unknown> {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(segment ?? '', 'base64url').toString('utf8'));
+  } catch {
+    throw new AuthenticationError('Malformed token');
+  }
+  if (decoded === null || typeof decoded !== 'object' || Array.isArray(decoded)) {
+    throw new AuthenticationError('Malformed token');
+  }
+  return decoded as Record<string, unknown>;
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Verifies a compact JWS against the configured JWKS and checks exp/nbf/iss/aud.
+ */
+function verifyJwt(token: string, config: JwtVerificationConfig): AuthInfo {
+  const [headerSegment, payloadSegment, signatureSegment] = token.split('.');
+  const header = decodeSegment(headerSegment);
+  const alg = optionalString(header.alg);
+  const algorithm = alg === undefined ? undefined : JWT_ALGORITHMS.get(alg);
+  if (!algorithm) {
+    // Also rejects "none"
+    throw new AuthenticationError(`Unsupported token algorithm '${String(header.alg)}'`);
+  }
+
+  const kid = optionalString(header.kid);
+  const candidates = config.keys.filter(key => (!kid || !key.kid || key.kid === kid) && (!key.alg || key.alg === alg));
+  const signedData = Buffer.from(`${headerSegment}.${payloadSegment}`);
+  const signature = Buffer.from(signatureSegment ?? '', 'base64url');
+  const valid = candidates.some(({ key }) => {
+    try {
+      return verifySignature(algorithm.hash, signedData, { key, ...algorithm.options }, signature);
+    } catch {
+      return false; // Key type does not match the algorithm
+    }
+  });
+  if (!valid) {
+    throw new AuthenticationError('Invalid token signature');
+  }
+
+  const claims = decodeSegment(payloadSegment);
+  const now = Math.floor(Date.now() / 1000);
+  if (typeof claims.exp !== 'number') {
+    if (claims.exp !== undefined || !config.allowMissingExp) {
+      throw new AuthenticationError('Token has no valid expiry (exp)');
+    }
+  } else if (claims.exp + config.clockToleranceSec < now) {
+    throw new AuthenticationError('Token expired');
+  }
+  if (typeof claims.nbf === 'number' && claims.nbf - config.clockToleranceSec > now) {
+    throw new AuthenticationError('Token not yet valid');
+  }
+  if (config.issuer && claims.iss !== config.issuer) {
+    throw new AuthenticationError('Token issuer mismatch');
+  }
+  if (config.audience) {
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!audiences.includes(config.audience)) {
+      throw new AuthenticationError('Token audience mismatch');
+    }
+  }
+
+  const scopes: string[] = typeof claims.scope === 'string'
+    ? claims.scope.split(' ').filter(Boolean)
+    : (Array.isArray(claims.scp) ? claims.scp.filter((scope): scope is string => typeof scope === 'string') : []);
+  return {
+    token,
+    clientId: optionalString(claims.client_id) ?? optionalString(claims.azp) ?? optionalString(claims.sub) ?? 'unknown',
+    scopes,
+    expiresAt: typeof claims.exp === 'number' ? claims.exp : undefined,
+    extra: { method: 'jwt', subject: optionalString(claims.sub) },
+  };
+}
+
+function authenticate(req: Request, config: HttpAuthConfig): AuthInfo {
+  const authorization = req.headers.authorization;
+  const bearer = authorization?.match(/^Bearer\s+(.+)$/i)?.[1].trim();
+  const apiKeyHeader = req.headers['x-api-key'];
+  const credential = bearer ?? (typeof apiKeyHeader === 'string' ? apiKeyHeader.trim() : undefined);
+  if (!credential) {
+    throw new AuthenticationError('Missing credentials: send "Authorization: Bearer <token>" or "X-API-Key: <key>"');
+  }
+
+  const credentialDigest = digest(credential);
+  const keyIndex = config.apiKeyDigests.findIndex(keyDigest => timingSafeEqual(keyDigest, credentialDigest));
+  if (keyIndex !== -1) {
+    // Identify API key clients by position, never by the key itself
+    return { token: credential, clientId: `api-key-${keyIndex + 1}`, scopes: [], extra: { method: 'api-key' } };
+  }
+
+  if (config.jwt && credential.split('.').length === 3) {
+    const authInfo = verifyJwt(credential, config.jwt);
+    const missing = config.requiredScopes.filter(scope => !authInfo.scopes.includes(scope));
+    if (missing.length > 0) {
+      throw new AuthenticationError(`Insufficient scope: missing ${missing.join(', ')}`, 403);
+    }
+    return authInfo;
+  }
+  throw new AuthenticationError('Invalid credentials');
+}
+
+/**
+ * Express middleware enforcing API key / JWT authentication. The verified identity is
+ * stored in `res.locals.auth` (an MCP SDK AuthInfo) for downstream handlers.
+ */
+export function createAuthMiddleware(config: HttpAuthConfig): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    try {
+      res.locals.auth = authenticate(req, config);
+      next();
+    } catch (error) {
+      if (!(error instanceof AuthenticationError)) {
+        next(error);
+        return;
+      }
+      log.warning(`Rejected ${req.method} ${req.originalUrl} from ${req.ip}: ${error.message}`);
+      res.setHeader('WWW-Authenticate', `Bearer error="${error.status === 403 ? 'insufficient_scope' : 'invalid_token'}"`);
+      res.status(error.status).json({ jsonrpc: '2.0', error: { code: -32001, message: `${error.status === 403 ? 'Forbidden' : 'Unauthorized'}: ${error.message}` }, id: null });
+    }
+  };
+}
@@ -1,21 +1,26 @@
 import { Server as McpServer } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { YapiService } from "../yapiService.js";
+import { YapiProjectRegistry } from "../projectRegistry.js";
+import { createLogger } from "../logger.js";
+
+const log = createLogger('STDIO');
 
 /**
  * Starts the MCP server using the STDIO transport.
  * @param server - The configured McpServer instance.
- * @param yapiService - The configured YapiService instance.
+ * @param projects - The configured YAPI project registry.
  */
-export async function runStdioServer(server: McpServer, yapiService: YapiService): Promise<void> {
+export async function runStdioServer(server: McpServer, projects: YapiProjectRegistry): Promise<void> {
     const transport = new StdioServerTransport();
     try {
         await server.connect(transport);
-        // Use console.error for status messages, not console.log
-        console.error("YAPI MCP Server running on stdio");
-        console.error(`Connected to YAPI instance: ${yapiService.getBaseUrl()}`);
+        // Logs go to stderr; stdout carries the protocol
+        log.info("YAPI MCP Server running on stdio");
+        for (const project of projects.list()) {
+            log.info(`Connected to YAPI instance: ${project.baseUrl} (project: ${project.alias}${project.isDefault ? ', default' : ''})`);
+        }
     } catch (error) {
-        console.error("Failed to connect STDIO server:", error);
+        log.error("Failed to connect STDIO server", { error });
         throw error; // Re-throw to be caught by main handler
     }
 }
\ No newline at end of file
@@ -5,97 +5,300 @@ import { randomUUID } from 'node:crypto';
 import { Server as McpServer } from "@modelcontextprotocol/sdk/server/index.js";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
 import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
-import { YapiService } from "../yapiService.js";
-// Optional: Use an in-memory event store for basic resumability example
-// import { InMemoryEventStore } from "../../../examples/shared/inMemoryEventStore.js"; // Adjust path if using
+import { YapiProjectRegistry } from "../projectRegistry.js";
+import { HttpAuthConfig, createAuthMiddleware } from "./httpAuth.js";
+import { BoundedEventStore } from "./eventStore.js";
+import { ConfigurationError, YapiError } from "../errors.js";
+import { metrics } from "../metrics.js";
+import { createLogger, withLogContext } from "../logger.js";
 
-// Define an interface for active transports for better type safety
-interface ActiveStreamableTransports {
-    [sessionId: string]: StreamableHTTPServerTransport;
+const log = createLogger('HTTP');
+
+// Readiness results are reused briefly so frequent probes do not hammer YAPI
+const READINESS_CACHE_MS = 5000;
+// Upper bound for one readiness check (YAPI requests may otherwise retry for much longer)
+const READINESS_TIMEOUT_MS = 5000;
+
+interface ReadinessResult {
+    ready: boolean;
+    projects: Array<{ alias: string; ok: boolean; projectId?: number; error?: string }>;
+}
+
+// Each session owns its transport and its own MCP server instance
+interface ActiveSession {
+    transport: StreamableHTTPServerTransport;
+    server: McpServer;
+    clientId?: string;   // Authenticated client that created the session
+    yapi: string;        // Which YAPI token the session uses
+    createdAt: number;   // epoch ms
+    lastActivityAt: number; // epoch ms
+    openRequests: number;   // Requests (incl. SSE streams) currently being served
+}
+
+// Define an interface for active sessions for better type safety
+interface ActiveStreamableSessions {
+    [sessionId: string]: ActiveSession;
+}
+
+/**
+ * How per-session YAPI tokens (X-Yapi-Token header on initialize) are handled:
+ * 'off' ignores the header, 'optional' uses it when present, 'required' rejects sessions without it.
+ */
+export type SessionTokenMode = 'off' | 'optional' | 'required';
+
+export interface StreamableHttpOptions {
+    /** API key / JWT authentication for /mcp; disabled when undefined */
+    auth?: HttpAuthConfig;
+    /** Allowed CORS origins; '*' (the default) allows any origin */
+    corsOrigins?: string[];
+    /** Default: 'optional' */
+    sessionTokens?: SessionTokenMode;
+    /** Sessions without requests for this long are closed; 0 disables expiry. Default: 30 minutes */
+    sessionIdleTimeoutMs?: number;
+    /** Maximum concurrently active sessions; 0 means unlimited. Default: 100 */
+    maxSessions?: number;
+    /** Events kept per session for Last-Event-ID resumption; 0 disables resumability. Default: 1000 */
+    eventStoreMaxEvents?: number;
+    /** Authentication for the /admin endpoints; they are disabled when undefined */
+    adminAuth?: HttpAuthConfig;
+}
+
+export interface StreamableHttpServer {
+    httpServer: http.Server;
+    /** Closes every active session and its MCP server instance */
+    closeSessions(): Promise<void>;
 }
 
 /**
  * Starts the MCP server using the Streamable HTTP transport via an Express app.
- * Returns the running HTTP server instance for graceful shutdown.
+ * Every session gets its own MCP server from `createServer`; sessions initialized with an
+ * X-Yapi-Token header are bound to a registry that uses that token instead of the configured one.
+ * Returns the running HTTP server and a way to close the sessions for graceful shutdown.
  */
-export function runStreamableHttpServer(mcpServer: McpServer, yapiService: YapiService, port: number): http.Server {
+export function runStreamableHttpServer(
+    createServer: (projects: YapiProjectRegistry) => McpServer,
+    projects: YapiProjectRegistry,
+    port: number,
+    options: StreamableHttpOptions = {}
+): StreamableHttpServer {
     const app = express();
-    const activeTransports: ActiveStreamableTransports = {};
+    const activeSessions: ActiveStreamableSessions = {};
+    // Initializations in progress: they hold a slot until their session is stored (or fails)
+    let pendingSessions = 0;
+    const sessionTokens = options.sessionTokens ?? 'optional';
+    const sessionIdleTimeoutMs = options.sessionIdleTimeoutMs ?? 30 * 60 * 1000;
+    const maxSessions = options.maxSessions ?? 100;
+    const eventStoreMaxEvents = options.eventStoreMaxEvents ?? 1000;
+    const corsOrigins = options.corsOrigins?.length ? options.corsOrigins : ['*'];
 
     // --- Middleware ---
     app.use(cors({
-        origin: '*', // Adjust for production: specific origins or function
+        origin: corsOrigins.includes('*') ? '*' : corsOrigins,
         methods: ['GET', 'POST', 'DELETE'], // Allow DELETE for session termination
-        allowedHeaders: ['Content-Type', 'Accept', 'Mcp-Session-Id', 'Last-Event-ID'], // Add MCP specific headers
-        exposedHeaders: ['Mcp-Session-Id'], // Expose session ID header to clients
+        allowedHeaders: ['Content-Type', 'Accept', 'Authorization', 'X-Request-Id', 'X-API-Key', 'X-Yapi-Token', 'X-Yapi-Project', 'Mcp-Session-Id', 'Last-Event-ID'], // Add MCP specific headers
+        exposedHeaders: ['Mcp-Session-Id', 'WWW-Authenticate', 'X-Request-Id'], // Expose session ID header to clients
     }));
     app.use(express.json({ limit: '10mb' })); // Parse JSON bodies
 
     app.use((req: Request, res: Response, next: NextFunction) => {
-        const startTime = Date.now();
-        // Use console.error for operational logging
-        console.error(`[HTTP Request] ${req.method} ${req.originalUrl} from ${req.ip} Session: ${req.headers['mcp-session-id'] || 'N/A'}`);
-        res.on('finish', () => {
-            const duration = Date.now() - startTime;
-            console.error(`[HTTP Response] ${req.method} ${req.originalUrl} - Status: ${res.statusCode} (${duration}ms)`);
+        // Probes and scrapes arrive every few seconds; keep them out of the log
+        if (['/healthz', '/readyz', '/metrics'].includes(req.path)) {
+            next();
+            return;
+        }
+        // Correlate every log record of this request (an upstream proxy may supply the ID)
+        const requestId = (req.headers['x-request-id'] as string | undefined) || randomUUID();
+        res.setHeader('X-Request-Id', requestId);
+        withLogContext({ requestId, sessionId: req.headers['mcp-session-id'] as string | undefined }, () => {
+            const startTime = Date.now();
+            log.debug(`${req.method} ${req.originalUrl} from ${req.ip}`);
+            res.on('finish', () => {
+                const duration = Date.now() - startTime;
+                log.info(`${req.method} ${req.originalUrl} - Status: ${res.statusCode} (${duration}ms)`);
+            });
+            next();
         });
-        next();
     });
 
+    // --- Health, Readiness & Metrics ---
+    // Unauthenticated so Kubernetes probes and Prometheus can reach them
+    metrics.gauge('yapi_mcp_active_sessions', 'Active Streamable HTTP sessions.', () => Object.keys(activeSessions).length);
+
+    app.get('/healthz', (_req: Request, res: Response) => {
+        res.json({ status: 'ok' });
+    });
+
+    let readiness: { checkedAt: number; result: Promise<ReadinessResult> } | undefined;
+    const checkReadiness = async (): Promise<ReadinessResult> => {
+        const checks = await Promise.all(projects.list().map(async ({ alias }) => {
+            let timeoutId: NodeJS.Timeout | undefined;
+            const timeout = new Promise<never>((_, reject) => {
+                timeoutId = setTimeout(() => reject(new Error(`Timed out after ${READINESS_TIMEOUT_MS}ms`)), READINESS_TIMEOUT_MS);
+            });
+            try {
+                // Bypass the cache so the token and connectivity are actually verified
+                const projectInfo = await Promise.race([projects.get(alias).getProjectInfo(true), timeout]);
+                return { alias, ok: true, projectId: projectInfo._id };
+            } catch (error) {
+                return { alias, ok: false, error: error instanceof Error ? error.message : String(error) };
+            } finally {
+                clearTimeout(timeoutId);
+            }
+        }));
+        return { ready: checks.every(check => check.ok), projects: checks };
+    };
+
+    app.get('/readyz', async (_req: Request, res: Response) => {
+        if (!readiness || Date.now() - readiness.checkedAt > READINESS_CACHE_MS) {
+            readiness = { checkedAt: Date.now(), result: checkReadiness() };
+        }
+        const result = await readiness.result;
+        if (!result.ready) {
+            log.warning(`Not ready: ${result.projects.filter(check => !check.ok).map(check => `${check.alias}: ${check.error}`).join('; ')}`);
+        }
+        res.status(result.ready ? 200 : 503).json({ status: result.ready ? 'ready' : 'not ready', projects: result.projects });
+    });
+
+    app.get('/metrics', (_req: Request, res: Response) => {
+        res.type('text/plain; version=0.0.4').send(metrics.render());
+    });
+
+    // --- Authentication ---
+    // Only /mcp is protected; CORS preflight requests are answered by the cors middleware above
+    const authMiddleware = options.auth
+        ? createAuthMiddleware(options.auth)
+        : (_req: Request, _res: Response, next: NextFunction) => next();
+
+    /**
+     * Picks the project registry of a new session. With an X-Yapi-Token header the session is bound
+     * to that token (for the project named by X-Yapi-Project, default: the default project), after
+     * checking the token against YAPI. Sends an error response and returns undefined on failure.
+     */
+    const resolveSessionProjects = async (req: Request, res: Response): Promise<YapiProjectRegistry | undefined> => {
+        const token = sessionTokens === 'off' ? undefined : (req.headers['x-yapi-token'] as string | undefined)?.trim();
+        if (!token) {
+            if (sessionTokens === 'required') {
+                res.status(401).json({ jsonrpc: '2.0', error: { code: -32001, message: 'Unauthorized: X-Yapi-Token header required to initialize a session.' }, id: req.body?.id ?? null });
+                return undefined;
+            }
+            return projects;
+        }
+
+        try {
+            const sessionProjects = projects.withToken(token, req.headers['x-yapi-project'] as string | undefined);
+            const entry = sessionProjects.resolve();
+            const projectInfo = await entry.service.getProjectInfo(true);
+            if (entry.projectId !== undefined && projectInfo._id !== entry.projectId) {
+                throw new ConfigurationError(`Token belongs to YAPI project ${projectInfo._id}, not to project '${entry.alias}' (${entry.projectId}).`);
+            }
+            return sessionProjects;
+        } catch (error) {
+            const message = error instanceof YapiError || error instanceof ConfigurationError
+                ? error.message
+                : 'Could not verify the YAPI token.';
+            log.warning(`Rejected session YAPI token from ${req.ip}`, { error });
+            res.status(401).json({ jsonrpc: '2.0', error: { code: -32001, message: `Unauthorized: Invalid X-Yapi-Token. ${message}` }, id: req.body?.id ?? null });
+            return undefined;
+        }
+    };
+
     // --- Unified MCP Endpoint (/mcp) ---
     // Handles GET, POST, DELETE for Streamable HTTP
-    app.all('/mcp', async (req: Request, res: Response) => {
-        console.error(`[MCP Endpoint] Handling ${req.method} request`);
+    app.all('/mcp', authMiddleware, async (req: Request, res: Response) => {
+        log.debug(`Handling ${req.method} request`);
         const sessionId = req.headers['mcp-session-id'] as string | undefined;
         let transport: StreamableHTTPServerTransport;
 
         try {
-            if (sessionId && activeTransports[sessionId]) {
+            if (sessionId && activeSessions[sessionId]) {
                 // Session exists, reuse transport
-                transport = activeTransports[sessionId];
-                console.error(`[MCP Endpoint] Reusing transport for session: ${sessionId}`);
+                const session = activeSessions[sessionId];
+                if (session.clientId !== res.locals.auth?.clientId) {
+                    // Session IDs are not credentials: only the client that created a session may use it
+                    log.warning(`Session ${sessionId} belongs to another client.`);
+                    res.status(403).json({ jsonrpc: '2.0', error: { code: -32001, message: 'Forbidden: Session belongs to another client.' }, id: null });
+                    return;
+                }
+                transport = session.transport;
+                session.lastActivityAt = Date.now();
+                session.openRequests++;
+                res.on('close', () => {
+                    session.openRequests--;
+                    session.lastActivityAt = Date.now();
+                });
+                log.debug(`Reusing transport for session: ${sessionId}`);
             } else if (!sessionId && req.method === 'POST' && isInitializeRequest(req.body)) {
                 // New session initialization via POST
-                console.error('[MCP Endpoint] Initializing new session...');
-                // Optional: const eventStore = new InMemoryEventStore();
-                transport = new StreamableHTTPServerTransport({
-                    sessionIdGenerator: () => randomUUID(),
-                    // eventStore, // Enable resumability if using EventStore
-                    onsessioninitialized: (newSessionId) => {
-                        console.error(`[MCP Transport] Session initialized: ${newSessionId}`);
-                        activeTransports[newSessionId] = transport; // Store transport once ID is generated
-                    }
-                });
+                log.debug('Initializing new session...');
+                if (maxSessions > 0 && Object.keys(activeSessions).length + pendingSessions >= maxSessions) {
+                    log.warning(`Session limit of ${maxSessions} reached.`);
+                    res.setHeader('Retry-After', '60');
+                    res.status(503).json({ jsonrpc: '2.0', error: { code: -32000, message: `Service Unavailable: Too many active sessions (limit: ${maxSessions}). Close unused sessions or retry later.` }, id: null });
+                    return;
+                }
+                // Reserve the slot before anything is awaited, so concurrent initializations cannot exceed the limit
+                pendingSessions++;
+                try {
+                    const sessionProjects = await resolveSessionProjects(req, res);
+                    if (!sessionProjects) return;
+                    const server = createServer(sessionProjects);
+                    const tokenSource = sessionProjects === projects ? 'server token' : `session token for project '${sessionProjects.getDefaultAlias()}'`;
+                    transport = new StreamableHTTPServerTransport({
+                        sessionIdGenerator: () => randomUUID(),
+                        // Lets clients resume interrupted SSE streams with Last-Event-ID
+                        eventStore: eventStoreMaxEvents > 0 ? new BoundedEventStore(eventStoreMaxEvents) : undefined,
+                        onsessioninitialized: (newSessionId) => {
+                            log.info(`Session initialized: ${newSessionId} (client: ${res.locals.auth?.clientId ?? 'anonymous'}, YAPI: ${tokenSource})`, { sessionId: newSessionId });
+                            const now = Date.now();
+                            // Store session once ID is generated
+                            activeSessions[newSessionId] = {
+                                transport,
+                                server,
+                                clientId: res.locals.auth?.clientId,
+                                yapi: tokenSource,
+                                createdAt: now,
+                                lastActivityAt: now,
+                                openRequests: 0,
+                            };
+                        }
+                    });
 
-                transport.onclose = () => {
-                    const sid = transport.sessionId;
-                    if (sid && activeTransports[sid]) {
-                        console.error(`[MCP Transport] Transport closed for session ${sid}, removing.`);
-                        delete activeTransports[sid];
-                    }
-                };
+                    // server.connect() takes over transport.onclose, so listen on the server instead
+                    // (keeping any handler createServer installed, e.g. to stop change notifications)
+                    const serverOnClose = server.onclose;
+                    server.onclose = () => {
+                        serverOnClose?.();
+                        const sid = transport.sessionId;
+                        if (sid && activeSessions[sid]) {
+                            log.info(`Transport closed for session ${sid}, removing.`);
+                            delete activeSessions[sid];
+                        }
+                    };
 
-                // Connect the main MCP Server instance to this *new* transport
-                // Crucial: Do this *before* handling the request so the server can respond
-                await mcpServer.connect(transport);
-                console.error(`[MCP Server] Connected to new transport for session: ${transport.sessionId || '(pending)'}`);
+                    // Connect the session's MCP Server instance to this *new* transport
+                    // Crucial: Do this *before* handling the request so the server can respond
+                    await server.connect(transport);
+                    log.debug(`Connected to new transport for session: ${transport.sessionId || '(pending)'}`);
 
-                // Handle the request (initialization) which will also send the response
-                await transport.handleRequest(req, res, req.body);
-                return; // Request fully handled
+                    // Handle the request (initialization) which will also send the response
+                    await transport.handleRequest(req, res, req.body);
+                    return; // Request fully handled
+                } finally {
+                    pendingSessions--;
+                }
 
             } else if (!sessionId && req.method !== 'POST') {
-                 console.error(`[MCP Endpoint] Error: ${req.method} request received without session ID.`);
+                 log.warning(`${req.method} request received without session ID.`);
                  res.status(400).json({ jsonrpc: '2.0', error: { code: -32000, message: 'Bad Request: Mcp-Session-Id header required for this request.' }, id: null });
                  return;
-            } else if (sessionId && !activeTransports[sessionId]) {
-                 console.error(`[MCP Endpoint] Error: Session ID ${sessionId} not found.`);
+            } else if (sessionId && !activeSessions[sessionId]) {
+                 log.warning(`Session ID ${sessionId} not found.`);
                  res.status(404).json({ jsonrpc: '2.0', error: { code: -32000, message: 'Not Found: Invalid or expired session ID.' }, id: null });
                  return;
             }
             else {
                 // Catch other invalid states, e.g. non-initialize POST without session ID
-                console.error(`[MCP Endpoint] Error: Invalid request state. Method: ${req.method}, Session ID: ${sessionId}, IsInit: ${isInitializeRequest(req.body)}`);
+                log.warning(`Invalid request state. Method: ${req.method}, Session ID: ${sessionId}, IsInit: ${isInitializeRequest(req.body)}`);
                 res.status(400).json({ jsonrpc: '2.0', error: { code: -32000, message: 'Bad Request: Invalid request combination.' }, id: null });
                 return;
             }
@@ -104,7 +307,7 @@ export function runStreamableHttpServer(mcpServer: McpServer, yapiService: YapiS
             await transport.handleRequest(req, res, req.body);
 
         } catch (error) {
-            console.error(`[MCP Endpoint] Error handling ${req.method} for session ${sessionId || 'N/A'}:`, error);
+            log.error(`Error handling ${req.method} for session ${sessionId || 'N/A'}`, { error });
             if (!res.headersSent) {
                 // Determine request ID if possible for JSON-RPC error
                 let reqId: string | number | null = null;
@@ -119,9 +322,63 @@ export function runStreamableHttpServer(mcpServer: McpServer, yapiService: YapiS
     });
 
 
+    // --- Idle Session Expiry ---
+    // Clients that never send DELETE would otherwise keep their sessions forever
+    const closeSession = async (sid: string, reason: string) => {
+        const session = activeSessions[sid];
+        if (!session) return;
+        log.info(`Closing session ${sid}: ${reason}`, { sessionId: sid });
+        delete activeSessions[sid];
+        await session.server.close().catch(error => log.error(`Error closing session ${sid}`, { error }));
+    };
+
+    let idleSweepTimer: NodeJS.Timeout | undefined;
+    if (sessionIdleTimeoutMs > 0) {
+        idleSweepTimer = setInterval(() => {
+            const now = Date.now();
+            for (const [sid, session] of Object.entries(activeSessions)) {
+                // Open requests (e.g. a GET SSE stream) count as activity
+                if (session.openRequests === 0 && now - session.lastActivityAt > sessionIdleTimeoutMs) {
+                    void closeSession(sid, `idle for ${Math.round((now - session.lastActivityAt) / 1000)}s`);
+                }
+            }
+        }, Math.min(60_000, Math.max(1000, sessionIdleTimeoutMs / 2)));
+        idleSweepTimer.unref();
+    }
+
+    // --- Admin Endpoints ---
+    // Disabled unless admin credentials are configured (separate from the /mcp credentials)
+    if (options.adminAuth) {
+        const adminAuthMiddleware = createAuthMiddleware(options.adminAuth);
+
+        app.get('/admin/sessions', adminAuthMiddleware, (_req: Request, res: Response) => {
+            const now = Date.now();
+            const sessions = Object.entries(activeSessions).map(([sid, session]) => ({
+                id: sid,
+                client: session.clientId ?? null,
+                yapi: session.yapi,
+                createdAt: new Date(session.createdAt).toISOString(),
+                lastActivityAt: new Date(session.lastActivityAt).toISOString(),
+                idleSeconds: session.openRequests > 0 ? 0 : Math.round((now - session.lastActivityAt) / 1000),
+                openRequests: session.openRequests,
+            }));
+            res.json({ count: sessions.length, maxSessions: maxSessions || null, idleTimeoutSeconds: sessionIdleTimeoutMs / 1000 || null, sessions });
+        });
+
+        app.delete('/admin/sessions/:sessionId', adminAuthMiddleware, async (req: Request, res: Response) => {
+            const sid = String(req.params.sessionId);
+            if (!activeSessions[sid]) {
+                res.status(404).json({ error: 'Session not found' });
+                return;
+            }
+            await closeSession(sid, 'closed by admin');
+            res.status(204).end();
+        });
+    }
+
     // --- Express Not Found Handler ---
     app.use((req: Request, res: Response) => {
-        console.warn(`[HTTP Not Found] ${req.method} ${req.originalUrl}`);
+        log.warning(`Not Found: ${req.method} ${req.originalUrl}`);
         res.status(404).json({ error: 'Not Found' });
     });
 
@@ -129,13 +386,13 @@ export function runStreamableHttpServer(mcpServer: McpServer, yapiService: YapiS
     // --- Express Global Error Handler ---
     // Catches errors from middleware or route handlers
     app.use((err: any, req: Request, res: Response, next: NextFunction) => {
-        console.error("[Express Global Error Handler]", err);
+        log.error("Unhandled error in request", { error: err });
         const statusCode = err.status || err.statusCode || 500;
         const message = err.message || 'Internal Server Error';
         if (!res.headersSent) {
             res.status(statusCode).json({ error: message });
         } else {
-            console.error("Error occurred after headers were sent. Cannot send error response.");
+            log.error("Error occurred after headers were sent. Cannot send error response.");
             // Attempt to close the connection if still open
             if (!res.writableEnded) {
                  res.end();
@@ -147,10 +404,27 @@ export function runStreamableHttpServer(mcpServer: McpServer, yapiService: YapiS
     // --- Start Listening ---
     const httpServer = http.createServer(app);
     httpServer.listen(port, () => {
-        // Use console.error for server status logs
-        console.error(`YAPI MCP Server (Streamable HTTP) running on http://localhost:${port}`);
-        console.error(`MCP Endpoint: /mcp (Accepts GET, POST, DELETE)`);
-        console.error(`Connected to YAPI instance: ${yapiService.getBaseUrl()}`);
+        log.info(`YAPI MCP Server (Streamable HTTP) running on http://localhost:${port}`);
+        log.info(`MCP Endpoint: /mcp (Accepts GET, POST, DELETE)`);
+        log.info(`Probes: /healthz, /readyz; Metrics: /metrics`);
+        log.info(`Allowed CORS origins: ${corsOrigins.join(', ')}`);
+        log.info(`Per-session YAPI tokens (X-Yapi-Token): ${sessionTokens}`);
+        log.info(`Sessions: max ${maxSessions || 'unlimited'}, idle timeout ${sessionIdleTimeoutMs > 0 ? `${sessionIdleTimeoutMs / 1000}s` : 'disabled'}, resumability ${eventStoreMaxEvents > 0 ? `on (${eventStoreMaxEvents} events)` : 'off'}`);
+        if (options.adminAuth) {
+            log.info(`Admin Endpoint: /admin/sessions (GET, DELETE /admin/sessions/:id)`);
+        }
+        if (options.auth) {
+            const methods = [
+                options.auth.apiKeyDigests.length > 0 ? `${options.auth.apiKeyDigests.length} API key(s)` : '',
+                options.auth.jwt ? `JWT (${options.auth.jwt.keys.length} key(s) from JWKS)` : '',
+            ].filter(Boolean);
+            log.info(`Authentication: ${methods.join(', ')}`);
+        } else {
+            log.warning('Authentication is disabled. Anyone who can reach this port can use the YAPI token(s). Set MCP_AUTH_API_KEYS or MCP_AUTH_JWKS_FILE.');
+        }
+        for (const project of projects.list()) {
+            log.info(`Connected to YAPI instance: ${project.baseUrl} (project: ${project.alias}${project.isDefault ? ', default' : ''})`);
+        }
     });
 
     // Handle server errors like EADDRINUSE
@@ -158,19 +432,27 @@ export function runStreamableHttpServer(mcpServer: McpServer, yapiService: YapiS
         if (error.syscall !== 'listen') throw error;
         switch (error.code) {
             case 'EACCES':
-                console.error(`Port ${port} requires elevated privileges`);
+                log.error(`Port ${port} requires elevated privileges`);
                 process.exit(1);
                 break;
             case 'EADDRINUSE':
-                console.error(`Port ${port} is already in use`);
+                log.error(`Port ${port} is already in use`);
                 process.exit(1);
                 break;
             default:
-                console.error(`[HTTP Server Error] Failed to start server:`, error);
+                log.error(`Failed to start server`, { error });
                 process.exit(1);
         }
     });
 
     // Return the server instance for graceful shutdown handling
-    return httpServer;
+    return {
+        httpServer,
+        closeSessions: async () => {
+            clearInterval(idleSweepTimer);
+            const sessionIds = Object.keys(activeSessions);
+            log.info(`Closing ${sessionIds.length} active MCP session(s)...`);
+            await Promise.all(sessionIds.map(sid => closeSession(sid, 'server shutting down')));
+        },
+    };
 }
\ No newline at end of file
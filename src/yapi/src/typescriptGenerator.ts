@@ -0,0 +1,228 @@
+import { YapiInterfaceDetail } from './schemas.js';
+
+// Loose JSON Schema shape as produced by YAPI's schema editor
+export interface JsonSchema {
+  type?: string | string[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema | JsonSchema[];
+  enum?: unknown[];
+  const?: unknown;
+  oneOf?: JsonSchema[];
+  anyOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  additionalProperties?: boolean | JsonSchema;
+  description?: string;
+  title?: string;
+  [key: string]: unknown;
+}
+
+// A YAPI parameter row (req_query / req_headers / req_params / req_body_form)
+interface YapiParamRow {
+  name: string;
+  desc?: string | null;
+  example?: string | null;
+  required?: string | null;
+  type?: string;
+}
+
+const INDENT = '  ';
+const VALID_IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+/**
+ * Converts arbitrary text (title, path) into a PascalCase identifier.
+ * Non-ASCII characters are dropped; returns an empty string if nothing usable remains.
+ */
+export function toPascalCase(text: string): string {
+  const identifier = text
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map(word => word[0].toUpperCase() + word.slice(1))
+    .join('');
+  return /^[0-9]/.test(identifier) ? `_${identifier}` : identifier;
+}
+
+/**
+ * Derives the base type name for an interface: the title if it yields an identifier,
+ * otherwise the method plus the path (path parameters are dropped).
+ */
+export function baseTypeName(detail: Pick<YapiInterfaceDetail, 'title' | 'method' | 'path'>): string {
+  const fromTitle = toPascalCase(detail.title);
+  if (fromTitle) return fromTitle;
+  const pathWithoutParams = detail.path.replace(/\{[^}]*\}|:[A-Za-z0-9_]+/g, '');
+  return toPascalCase(`${detail.method.toLowerCase()} ${pathWithoutParams}`) || `Interface${toPascalCase(detail.method)}`;
+}
+
+function propertyKey(name: string): string {
+  return VALID_IDENTIFIER.test(name) ? name : JSON.stringify(name);
+}
+
+function docComment(lines: Array<string | null | undefined>, indent: string): string {
+  const text = lines
+    .filter((line): line is string => !!line && line.trim() !== '')
+    .flatMap(line => line.split(/\r?\n/))
+    .map(line => line.replace(/\*\//g, '*\\/'));
+  if (text.length === 0) return '';
+  if (text.length === 1) return `${indent}/** ${text[0]} */\n`;
+  return `${indent}/**\n${text.map(line => `${indent} * ${line}`).join('\n')}\n${indent} */\n`;
+}
+
+function literal(value: unknown): string {
+  return value === null ? 'null' : JSON.stringify(value);
+}
+
+function wrapArrayItem(type: string): string {
+  return /^[A-Za-z0-9_$.<>]+$/.test(type) ? `${type}[]` : `Array<${type}>`;
+}
+
+/**
+ * Renders a JSON Schema node as a TypeScript type expression.
+ */
+function schemaToType(schema: JsonSchema | undefined, indent: string): string {
+  if (!schema || typeof schema !== 'object') return 'unknown';
+
+  if (schema.const !== undefined) return literal(schema.const);
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+    return schema.enum.map(literal).join(' | ');
+  }
+  const union = schema.oneOf ?? schema.anyOf;
+  if (Array.isArray(union) && union.length > 0) {
+    return union.map(member => schemaToType(member, indent)).join(' | ');
+  }
+  if (Array.isArray(schema.allOf) && schema.allOf.length > 0) {
+    return schema.allOf.map(member => schemaToType(member, indent)).join(' & ');
+  }
+
+  if (Array.isArray(schema.type)) {
+    return schema.type.map(type => schemaToType({ ...schema, type }, indent)).join(' | ');
+  }
+
+  switch (schema.type) {
+    case 'string':
+      return 'string';
+    case 'number':
+    case 'integer':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'null':
+      return 'null';
+    case 'array': {
+      if (Array.isArray(schema.items)) {
+        return `[${schema.items.map(item => schemaToType(item, indent)).join(', ')}]`;
+      }
+      return wrapArrayItem(schemaToType(schema.items, indent));
+    }
+    case 'object':
+    case undefined:
+      if (schema.properties || schema.type === 'object') {
+        return objectSchemaToType(schema, indent);
+      }
+      return 'unknown';
+    default:
+      return 'unknown';
+  }
+}
+
+function objectSchemaToType(schema: JsonSchema, indent: string): string {
+  const properties = schema.properties ?? {};
+  const required = new Set(schema.required ?? []);
+  const innerIndent = indent + INDENT;
+  const members = Object.entries(properties).map(([name, propSchema]) => {
+    const optional = required.has(name) ? '' : '?';
+    return `${docComment([propSchema?.description ?? propSchema?.title], innerIndent)}` +
+      `${innerIndent}${propertyKey(name)}${optional}: ${schemaToType(propSchema, innerIndent)};`;
+  });
+  if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+    members.push(`${innerIndent}[key: string]: ${schemaToType(schema.additionalProperties, innerIndent)};`);
+  }
+  if (members.length === 0) return 'Record<string, unknown>';
+  return `{\n${members.join('\n')}\n${indent}}`;
+}
+
+/**
+ * Infers a TypeScript type from an example value (used when the body is a JSON sample, not a schema).
+ */
+function valueToType(value: unknown, indent: string): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) {
+    return value.length > 0 ? wrapArrayItem(valueToType(value[0], indent)) : 'unknown[]';
+  }
+  if (typeof value === 'object') {
+    const innerIndent = indent + INDENT;
+    const members = Object.entries(value as Record<string, unknown>)
+      .map(([name, propValue]) => `${innerIndent}${propertyKey(name)}: ${valueToType(propValue, innerIndent)};`);
+    return members.length > 0 ? `{\n${members.join('\n')}\n${indent}}` : 'Record<string, unknown>';
+  }
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    return typeof value;
+  }
+  return 'unknown';
+}
+
+/**
+ * Renders a body (parsed JSON Schema, parsed JSON sample or raw string) as a type expression.
+ */
+function bodyToType(body: unknown, isJsonSchema: boolean | undefined): string {
+  if (body === null || body === undefined || body === '') return 'unknown';
+  if (typeof body === 'string') return 'string';
+  return isJsonSchema ? schemaToType(body as JsonSchema, '') : valueToType(body, '');
+}
+
+function paramRowsToType(rows: YapiParamRow[], requiredByDefault: boolean, fileAware = false): string {
+  const members = rows.map(row => {
+    const required = row.required === undefined || row.required === null ? requiredByDefault : row.required === '1';
+    const type = fileAware && row.type === 'file' ? 'Blob' : 'string';
+    return `${docComment([row.desc, row.example ? `@example ${row.example}` : null], INDENT)}` +
+      `${INDENT}${propertyKey(row.name)}${required ? '' : '?'}: ${type};`;
+  });
+  return `{\n${members.join('\n')}\n}`;
+}
+
+/**
+ * Tells whether a top-level type expression is exactly one object literal. Only top-level literals
+ * close with a "}" at column 0 (nested ones are indented, and literals and comments never start a
+ * line with one), so the first such brace must end the expression; `{…} | null` or `{…} & {…}` are not.
+ */
+function isObjectLiteral(type: string): boolean {
+  return type.startsWith('{\n') && type.indexOf('\n}') === type.length - 2;
+}
+
+function declaration(name: string, type: string, doc: string | null): string {
+  const comment = docComment([doc], '');
+  return isObjectLiteral(type)
+    ? `${comment}export interface ${name} ${type}`
+    : `${comment}export type ${name} = ${type};`;
+}
+
+/**
+ * Generates TypeScript declarations for an interface's path params, query, headers,
+ * request body and response body. `typeName` overrides the name derived from title/path.
+ */
+export function generateTypeScriptTypes(detail: YapiInterfaceDetail, typeName?: string): string {
+  const base = typeName || baseTypeName(detail);
+  const blocks: string[] = [
+    `// ${detail.method.toUpperCase()} ${detail.path} - ${detail.title} (YAPI interface ${detail._id})`,
+  ];
+
+  if (detail.req_params && detail.req_params.length > 0) {
+    // Path parameters are always required
+    blocks.push(declaration(`${base}PathParams`, paramRowsToType(detail.req_params, true), 'Path parameters'));
+  }
+  if (detail.req_query && detail.req_query.length > 0) {
+    blocks.push(declaration(`${base}Query`, paramRowsToType(detail.req_query, false), 'Query parameters'));
+  }
+  if (detail.req_headers && detail.req_headers.length > 0) {
+    blocks.push(declaration(`${base}Headers`, paramRowsToType(detail.req_headers, false), 'Request headers'));
+  }
+
+  if (detail.req_body_type === 'form' && detail.req_body_form && detail.req_body_form.length > 0) {
+    blocks.push(declaration(`${base}RequestBody`, paramRowsToType(detail.req_body_form, false, true), 'Request body (form)'));
+  } else if (detail.req_body_other !== undefined && detail.req_body_other !== null && detail.req_body_other !== '') {
+    blocks.push(declaration(`${base}RequestBody`, bodyToType(detail.req_body_other, detail.req_body_is_json_schema), 'Request body'));
+  }
+
+  blocks.push(declaration(`${base}Response`, bodyToType(detail.res_body, detail.res_body_is_json_schema), 'Response body'));
+
+  return blocks.join('\n\n') + '\n';
+}
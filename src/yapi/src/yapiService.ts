@@ -1,25 +1,123 @@
 import { ZodError, z } from 'zod';
 import { YapiError, ConfigurationError } from './errors.js';
+import { CacheStore, CacheTtls, YapiCache } from './cache.js';
+import { RequestLimiter } from './concurrency.js';
+import { YapiDataSource } from './dataSource.js';
+import { upstreamRequestDuration } from './metrics.js';
+import { createLogger } from './logger.js';
 import {
   // Data schemas
   YapiInterfaceDetailDataSchema,
   YapiListCatDataSchema,
   YapiMenuDataSchema,
   YapiProjectSchema,
+  YapiCategorySchema,
+  YapiInterfaceListItem,
   // Full Response schemas for validation
   YapiInterfaceGetResponseSchema,
   YapiListCatResponseSchema,
   YapiListMenuResponseSchema,
-  YapiProjectGetResponseSchema
+  YapiProjectGetResponseSchema,
+  YapiWriteResponseSchema,
+  YapiAddCategoryResponseSchema,
+  // Write payloads
+  SaveInterfaceArgs,
+  UpdateInterfaceArgs,
 } from './schemas.js';
 
+/**
+ * Parses a JSON request body for debug logging (the logger redacts the token).
+ */
+function requestBodyForLog(body: RequestInit['body']): unknown {
+  try {
+    return JSON.parse(String(body));
+  } catch {
+    return '(Could not parse as JSON)';
+  }
+}
+
+/**
+ * YAPI stores req_body_other/res_body as strings; serialize object bodies before writing.
+ */
+function serializeInterfacePayload<T extends { req_body_other?: unknown; res_body?: unknown }>(payload: T): T {
+  const serialize = (value: unknown) =>
+    value !== undefined && typeof value !== 'string' ? JSON.stringify(value, null, 2) : value;
+  return { ...payload, req_body_other: serialize(payload.req_body_other), res_body: serialize(payload.res_body) };
+}
+
+export interface YapiServiceOptions {
+  /** Shared response cache; caching is disabled when omitted */
+  cacheStore?: CacheStore;
+  /** Per-endpoint TTLs in seconds (defaults to DEFAULT_CACHE_TTLS) */
+  cacheTtls?: CacheTtls;
+  /** Per-attempt timeout in ms, including reading the body (default 30000) */
+  timeoutMs?: number;
+  /** Retries after the first attempt for GET requests failing with 5xx/429 or network errors (default 2) */
+  retries?: number;
+  /** Backoff before the first retry in ms; doubles on each further retry (default 500) */
+  retryBaseDelayMs?: number;
+  /** Shared limiter bounding concurrency/rate of outgoing requests */
+  limiter?: RequestLimiter;
+  /** Serves requests from this source instead of the YAPI HTTP API (offline mode); no token is needed */
+  dataSource?: YapiDataSource;
+}
+
+const log = createLogger('YapiService');
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_RETRY_BASE_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 10000;
+// Page size used when walking a whole category
+const LIST_ALL_PAGE_SIZE = 100;
+
+/**
+ * Reads errcode/errmsg from a response body, which may be anything the server sent.
+ */
+function responseStatus(body: unknown): { errcode?: number; errmsg?: string } {
+  if (body === null || typeof body !== 'object' || Array.isArray(body)) return {};
+  return {
+    errcode: 'errcode' in body && typeof body.errcode === 'number' ? body.errcode : undefined,
+    errmsg: 'errmsg' in body && typeof body.errmsg === 'string' && body.errmsg !== '' ? body.errmsg : undefined,
+  };
+}
+
+/**
+ * Transient failures worth retrying: network errors/timeouts (anything that is not a YapiError
+ * yet), HTTP 5xx and 429. YAPI business errors and validation failures are final.
+ */
+function isRetryableError(error: unknown): boolean {
+  if (error instanceof YapiError) {
+    return error.status !== undefined && (error.status >= 500 || error.status === 429);
+  }
+  return !(error instanceof ConfigurationError);
+}
+
 export class YapiService {
   private readonly baseUrl: string;
   private readonly token: string;
   private readonly apiBase: string;
   private readonly userAgent: string = `@mcp-servers/yapi/0.2.0`; // Use package name/version
+  private readonly cache?: YapiCache;
+  private readonly timeoutMs: number;
+  private readonly retries: number;
+  private readonly retryBaseDelayMs: number;
+  private readonly limiter?: RequestLimiter;
+  private readonly dataSource?: YapiDataSource;
 
-  constructor(baseUrl?: string, token?: string) {
+  constructor(baseUrl?: string, token?: string, options: YapiServiceOptions = {}) {
+    if (options.dataSource) {
+      // Offline: nothing is fetched, so there is no token, timeout or cache to configure
+      this.dataSource = options.dataSource;
+      this.baseUrl = options.dataSource.baseUrl;
+      this.apiBase = '';
+      this.token = '';
+      this.timeoutMs = 0;
+      this.retries = 0;
+      this.retryBaseDelayMs = 0;
+      log.info(`Initialized offline from ${options.dataSource.location}`);
+      return;
+    }
     if (!baseUrl) {
       throw new ConfigurationError("YAPI_BASE_URL environment variable is not configured.");
     }
@@ -31,7 +129,7 @@ export class YapiService {
     try {
         const parsedUrl = new URL(baseUrl);
         if (parsedUrl.pathname !== '/' && parsedUrl.pathname !== '') {
-             console.warn(`[YapiService Config Warning] The provided YAPI_BASE_URL "${baseUrl}" includes a path ("${parsedUrl.pathname}"). It should typically be just the base domain (e.g., "https://yapi.example.com"). Removing the path.`);
+             log.warning(`The provided YAPI_BASE_URL "${baseUrl}" includes a path ("${parsedUrl.pathname}"). It should typically be just the base domain (e.g., "https://yapi.example.com"). Removing the path.`);
              this.baseUrl = `${parsedUrl.protocol}//${parsedUrl.host}`;
         } else {
              this.baseUrl = baseUrl.endsWith('/') ? baseUrl.slice(0, -1) : baseUrl;
@@ -42,14 +140,27 @@ export class YapiService {
 
     this.apiBase = `${this.baseUrl}/api`; // Construct API base path
     this.token = token;
-    // Use console.error for server status logs
-    console.error(`[YapiService] Initialized with API base: ${this.apiBase}`);
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.retries = options.retries ?? DEFAULT_RETRIES;
+    this.retryBaseDelayMs = options.retryBaseDelayMs ?? DEFAULT_RETRY_BASE_DELAY_MS;
+    this.limiter = options.limiter;
+    if (options.cacheStore) {
+      this.cache = new YapiCache(options.cacheStore, this.baseUrl, token, options.cacheTtls);
+    }
+    log.info(`Initialized with API base: ${this.apiBase}`);
   }
 
   public getBaseUrl(): string {
     return this.baseUrl; // Return the original base URL for display/logging
   }
 
+  /**
+   * The export file served in offline mode, or undefined when talking to YAPI.
+   */
+  getOfflineLocation(): string | undefined {
+    return this.dataSource?.location;
+  }
+
   /**
    * Generic method to make requests to the YAPI API.
    */
@@ -60,6 +171,19 @@ export class YapiService {
     method: 'GET' | 'POST' = 'GET',
     body?: any
   ): Promise<z.infer<TResponseSchema>> {
+    if (this.dataSource) {
+      return this.parseResponse(apiPath, await this.dataSource.request(apiPath, params, method), schema);
+    }
+
+    // Only reads are cached; writes invalidate explicitly (see the write methods)
+    if (method === 'GET' && this.cache) {
+      const cached = this.cache.get<z.infer<TResponseSchema>>(apiPath, params);
+      if (cached !== undefined) {
+        log.debug(`Cache hit for ${apiPath}`, { params });
+        return cached;
+      }
+    }
+
     const url = new URL(`${this.apiBase}${apiPath}`);
     const headers: Record<string, string> = {
       'Accept': 'application/json',
@@ -88,34 +212,76 @@ export class YapiService {
         headers['Content-Type'] = 'application/json';
     }
 
-    const logUrl = new URL(url);
-    logUrl.searchParams.delete('token'); // Don't log token
-    // Use console.error for operational logs
-    console.error(`[YapiService Request] ${method} ${logUrl.pathname}${logUrl.search}`);
-     if (method === 'POST' && requestOptions.body) {
-        try {
-            const loggableBody = JSON.parse(requestOptions.body as string);
-            delete loggableBody?.token; // Don't log token from body
-            console.error(`[YapiService Request Body]`, JSON.stringify(loggableBody, null, 2));
-        } catch {
-            console.error(`[YapiService Request Body] (Could not parse as JSON)`);
+    // The token in the URL and body is masked by the logger's redaction rules
+    log.debug(`Request ${method} ${url}`, method === 'POST' ? { body: requestBodyForLog(requestOptions.body) } : undefined);
+
+
+    // Only GETs are retried: a failed POST may already have been applied by YAPI
+    const maxAttempts = method === 'GET' ? this.retries + 1 : 1;
+    const startedAt = Date.now();
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const execute = () => this.executeRequest(url, requestOptions, apiPath, method, schema);
+        const data = await (this.limiter ? this.limiter.run(execute) : execute());
+        if (method === 'GET') {
+          this.cache?.set(apiPath, params, data);
         }
-     }
+        return data;
 
+      } catch (error) {
+        if (attempt < maxAttempts && isRetryableError(error)) {
+          const delay = Math.min(this.retryBaseDelayMs * 2 ** (attempt - 1), MAX_RETRY_DELAY_MS);
+          // Jitter spreads out retries of concurrent calls hitting the same outage
+          const jitteredDelay = Math.round(delay * (0.8 + Math.random() * 0.4));
+          log.warning(`${method} ${apiPath} failed (attempt ${attempt}/${maxAttempts}), retrying in ${jitteredDelay}ms`, { error });
+          await new Promise(resolve => setTimeout(resolve, jitteredDelay));
+          continue;
+        }
+
+        // Not logged here: whoever handles the error (tool call, resource read, command) logs it once
+        if (error instanceof ConfigurationError) {
+          throw error;
+        }
+        const yapiError = error instanceof YapiError
+          ? error
+          : new YapiError(`Network or fetch error during request to ${apiPath}: ${error instanceof Error ? error.message : String(error)}`);
+        yapiError.attempts = attempt;
+        yapiError.elapsedMs = Date.now() - startedAt;
+        throw yapiError;
+      }
+    }
+  }
+
+  /**
+   * Performs a single HTTP attempt (bounded by the timeout) and validates the response.
+   */
+  private async executeRequest<TResponseSchema extends z.ZodTypeAny>(
+    url: URL,
+    requestOptions: RequestInit,
+    apiPath: string,
+    method: 'GET' | 'POST',
+    schema: TResponseSchema
+  ): Promise<z.infer<TResponseSchema>> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeoutMs);
+    const startedAt = Date.now();
+    let status = 'error';
 
     try {
-      const response = await fetch(url.toString(), requestOptions);
+      const response = await fetch(url.toString(), { ...requestOptions, signal: controller.signal });
+      status = String(response.status);
 
-      console.error(`[YapiService Response] Status: ${response.status} for ${method} ${logUrl.pathname}${logUrl.search}`);
+      log.info(`${method} ${url.pathname} -> ${response.status} (${Date.now() - startedAt}ms)`);
 
-      let responseData: any;
+      let responseData: unknown;
       const contentType = response.headers.get("content-type");
 
       if (contentType && contentType.includes("application/json")) {
           try {
             responseData = await response.json();
           } catch (jsonError) {
-            console.error(`[YapiService Response Error] Failed to parse JSON despite Content-Type header. Status: ${response.status}. Error:`, jsonError);
+            log.error(`Failed to parse JSON despite Content-Type header. Status: ${response.status}`, { error: jsonError });
             // Attempt to read as text for debugging
             const textResponse = await response.text().catch(() => "[Could not read text body]");
             throw new YapiError(`Failed to parse JSON response from YAPI. Status: ${response.status}. Response body fragment: ${textResponse.substring(0, 100)}`, undefined, response.status, textResponse);
@@ -123,7 +289,7 @@ export class YapiService {
       } else {
           // Handle non-JSON responses if necessary, or throw an error
           const textResponse = await response.text();
-          console.error(`[YapiService Response Warning] Received non-JSON response (Content-Type: ${contentType || 'N/A'}). Status: ${response.status}. Body: ${textResponse.substring(0, 200)}...`);
+          log.warning(`Received non-JSON response (Content-Type: ${contentType || 'N/A'}). Status: ${response.status}`, { body: textResponse.substring(0, 200) });
            // If a non-JSON response is unexpected, treat it as an error
            if (!response.ok) {
                 throw new YapiError(`YAPI request failed with non-JSON response. Status: ${response.status}. Body: ${textResponse}`, undefined, response.status, textResponse);
@@ -134,39 +300,81 @@ export class YapiService {
       }
 
 
-      // console.error(`[YapiService Response Body]`, JSON.stringify(responseData, null, 2)); // Uncomment for deep debugging
+      log.debug(`Response body for ${apiPath}`, { body: responseData });
 
       if (!response.ok) {
-        const errorMessage = responseData?.errmsg || response.statusText || `YAPI request failed with status ${response.status}`;
-        console.error(`[YapiService Error Body on !ok]`, responseData);
-        throw new YapiError(errorMessage, responseData?.errcode, response.status, responseData);
+        const { errcode, errmsg } = responseStatus(responseData);
+        const errorMessage = errmsg || response.statusText || `YAPI request failed with status ${response.status}`;
+        throw new YapiError(errorMessage, errcode, response.status, responseData);
       }
 
-      // Check YAPI business error code
-      if (responseData && typeof responseData === 'object' && 'errcode' in responseData && responseData.errcode !== 0) {
-        console.error(`[YapiService Business Error Body]`, responseData);
-        throw new YapiError(responseData.errmsg || `YAPI operation failed with code ${responseData.errcode}`, responseData.errcode, response.status, responseData);
-      }
+      return this.parseResponse(apiPath, responseData, schema, response.status);
 
-      // Validate the *entire* response structure
-      const parsed = schema.safeParse(responseData);
-      if (!parsed.success) {
-          console.error("[Zod Parse Error]", parsed.error.format());
-          const validationErrors = parsed.error.errors.map(e => `Path: ${e.path.join('.')}, Message: ${e.message}`).join('; ');
-          throw new YapiError(`YAPI response validation failed for ${apiPath}. Details: ${validationErrors}`, undefined, response.status, { zodErrors: parsed.error.format(), rawData: responseData });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        status = 'timeout';
+        throw new Error(`Request timed out after ${this.timeoutMs}ms`);
       }
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+      upstreamRequestDuration.observe({ endpoint: apiPath, method, status }, (Date.now() - startedAt) / 1000);
+    }
+  }
 
-      return parsed.data;
+  /**
+   * Checks the YAPI business error code and validates the *entire* response structure.
+   */
+  private parseResponse<TResponseSchema extends z.ZodTypeAny>(
+    apiPath: string,
+    responseData: unknown,
+    schema: TResponseSchema,
+    status?: number
+  ): z.infer<TResponseSchema> {
+    const { errcode, errmsg } = responseStatus(responseData);
+    if (errcode !== undefined && errcode !== 0) {
+      throw new YapiError(errmsg || `YAPI operation failed with code ${errcode}`, errcode, status, responseData);
+    }
 
-    } catch (error) {
-      console.error(`[YapiService Error] Request to ${apiPath} failed:`, error);
-      if (error instanceof YapiError || error instanceof ConfigurationError) {
-        throw error;
+    const parsed = schema.safeParse(responseData);
+    if (!parsed.success) {
+        const validationErrors = parsed.error.errors.map(e => `Path: ${e.path.join('.')}, Message: ${e.message}`).join('; ');
+        throw new YapiError(`YAPI response validation failed for ${apiPath}. Details: ${validationErrors}`, undefined, status, { zodErrors: parsed.error.format(), rawData: responseData });
+    }
+    return parsed.data;
+  }
+
+  /**
+   * Drops cached interface details whose up_time no longer matches the list/menu data,
+   * so edits in YAPI become visible as soon as a fresh menu has been seen.
+   */
+  private revalidateInterfaceDetails(items: YapiInterfaceListItem[]): void {
+    if (!this.cache) return;
+    for (const item of items) {
+      const cached = this.cache.peek('/interface/get', { id: item._id }) as { data?: { up_time?: number } } | undefined;
+      if (cached && cached.data?.up_time !== item.up_time) {
+        log.debug(`Interface ${item._id} changed (up_time ${cached.data?.up_time} -> ${item.up_time}), invalidating details`);
+        this.cache.delete('/interface/get', { id: item._id });
       }
-      throw new YapiError(`Network or fetch error during request to ${apiPath}: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
+  /**
+   * Invalidates cached responses: one interface's details, or everything cached for this project.
+   * @returns The number of removed cache entries.
+   */
+  refreshCache(interfaceId?: number): number {
+    if (!this.cache) return 0;
+    if (interfaceId !== undefined) {
+      return this.cache.delete('/interface/get', { id: interfaceId }) ? 1 : 0;
+    }
+    return this.cache.invalidate();
+  }
+
+  isCacheEnabled(): boolean {
+    return this.cache !== undefined;
+  }
+
   // --- Public API Methods ---
 
   async getInterfaceDetails(interfaceId: number): Promise<z.infer<typeof YapiInterfaceDetailDataSchema>> {
@@ -208,13 +416,38 @@ export class YapiService {
         { catid: categoryId, page, limit }
     );
      if (response.errcode === 0 && response.data) {
+        this.revalidateInterfaceDetails(response.data.list);
         return response.data;
     } else {
         throw new YapiError(response.errmsg || 'Failed to list interfaces by category', response.errcode);
     }
   }
 
-  async getProjectInterfaceMenu(): Promise<z.infer<typeof YapiMenuDataSchema>> {
+  /**
+   * Walks every page of a category (`total` is YAPI's page count), so callers get the whole
+   * category instead of the first page. `total` of the result is the number of pages fetched.
+   */
+  async listAllInterfacesByCategory(categoryId: number): Promise<z.infer<typeof YapiListCatDataSchema>> {
+    const first = await this.listInterfacesByCategory(categoryId, 1, LIST_ALL_PAGE_SIZE);
+    const list = [...first.list];
+    let page = 1;
+    // An empty page also ends the walk, in case interfaces are deleted while paging
+    while (page < first.total) {
+      page++;
+      const next = await this.listInterfacesByCategory(categoryId, page, LIST_ALL_PAGE_SIZE);
+      if (next.list.length === 0) break;
+      list.push(...next.list);
+    }
+    return { count: first.count, total: page, list };
+  }
+
+  /**
+   * @param fresh - Bypass the cache, e.g. to detect changes made in YAPI.
+   */
+  async getProjectInterfaceMenu(fresh: boolean = false): Promise<z.infer<typeof YapiMenuDataSchema>> {
+    if (fresh) {
+      this.cache?.delete('/interface/list_menu', undefined);
+    }
     // Note: YAPI doc shows project_id, but it's often inferred from the token.
     // If your YAPI instance requires project_id here, you'll need to add it.
     const response = await this.request(
@@ -223,13 +456,20 @@ export class YapiService {
         // If needed: { project_id: your_project_id_logic_here }
     );
      if (response.errcode === 0 && response.data) {
+        this.revalidateInterfaceDetails(response.data.flatMap(category => category.list ?? []));
         return response.data;
     } else {
         throw new YapiError(response.errmsg || 'Failed to get project interface menu', response.errcode);
     }
   }
 
-  async getProjectInfo(): Promise<z.infer<typeof YapiProjectSchema>> {
+  /**
+   * @param fresh - Bypass the cache, e.g. to verify the token and connectivity.
+   */
+  async getProjectInfo(fresh: boolean = false): Promise<z.infer<typeof YapiProjectSchema>> {
+    if (fresh) {
+      this.cache?.delete('/project/get', undefined);
+    }
     const response = await this.request(
         `/project/get`,
         YapiProjectGetResponseSchema
@@ -240,4 +480,58 @@ export class YapiService {
         throw new YapiError(response.errmsg || 'Failed to get project info', response.errcode);
     }
   }
-}
\ No newline at end of file
+
+  // --- Write Methods ---
+
+  /**
+   * Creates an interface, or overwrites the one with the same path + method (/api/interface/save).
+   */
+  async saveInterface(payload: Omit<SaveInterfaceArgs, 'project' | 'format'>): Promise<unknown> {
+    const response = await this.request(
+        `/interface/save`,
+        YapiWriteResponseSchema,
+        undefined,
+        'POST',
+        serializeInterfacePayload(payload)
+    );
+    // save may overwrite any interface with the same path + method, so drop all details
+    this.cache?.invalidate('/interface/list_menu');
+    this.cache?.invalidate('/interface/list_cat');
+    this.cache?.invalidate('/interface/get');
+    return response.data;
+  }
+
+  /**
+   * Updates an existing interface by ID; only the given fields are changed (/api/interface/up).
+   */
+  async updateInterface(payload: Omit<UpdateInterfaceArgs, 'project' | 'format'>): Promise<unknown> {
+    const response = await this.request(
+        `/interface/up`,
+        YapiWriteResponseSchema,
+        undefined,
+        'POST',
+        serializeInterfacePayload(payload)
+    );
+    this.cache?.invalidate('/interface/list_menu');
+    this.cache?.invalidate('/interface/list_cat');
+    this.cache?.delete('/interface/get', { id: payload.id });
+    return response.data;
+  }
+
+  /**
+   * Adds a category to the project bound to the token (/api/interface/add_cat).
+   */
+  async addCategory(name: string, desc?: string): Promise<z.infer<typeof YapiCategorySchema>> {
+    // add_cat requires an explicit project_id, which is resolved from the token
+    const project = await this.getProjectInfo();
+    const response = await this.request(
+        `/interface/add_cat`,
+        YapiAddCategoryResponseSchema,
+        undefined,
+        'POST',
+        { project_id: project._id, name, desc: desc ?? '' }
+    );
+    this.cache?.invalidate('/interface/list_menu');
+    return response.data;
+  }
+}
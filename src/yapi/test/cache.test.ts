@@ -0,0 +1,121 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { mkdtempSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FileCacheStore, LruCacheStore, YapiCache, parseCacheTtls } from '../src/cache.js';
+import { ConfigurationError } from '../src/errors.js';
+import { YapiService } from '../src/yapiService.js';
+
+// A YAPI instance with one interface; counts the requests it serves per API path
+const hits: Record<string, number> = {};
+let upTime = 100;
+const yapi = createServer((req, res) => {
+  const { pathname } = new URL(req.url ?? '/', 'http://yapi');
+  hits[pathname] = (hits[pathname] ?? 0) + 1;
+  const item = { _id: 11, method: 'GET', catid: 1, title: 'Order', path: '/orders', project_id: 9, uid: 1, add_time: 0, up_time: upTime };
+  const data = pathname === '/api/interface/list_menu'
+    ? [{ _id: 1, name: 'Orders', project_id: 9, uid: 1, add_time: 0, up_time: 0, list: [item] }]
+    : pathname === '/api/interface/up' ? { ok: 1 } : item;
+  res.writeHead(200, { 'content-type': 'application/json' }).end(JSON.stringify({ errcode: 0, errmsg: 'success', data }));
+});
+await new Promise<void>(resolve => yapi.listen(0, '127.0.0.1', resolve));
+after(() => yapi.close());
+const baseUrl = `http://127.0.0.1:${(yapi.address() as AddressInfo).port}`;
+
+function detailHits(): number {
+  return hits['/api/interface/get'] ?? 0;
+}
+
+test('evicts the least recently used entry', () => {
+  const store = new LruCacheStore(2);
+  const entry = { value: 1, storedAt: 0, expiresAt: Infinity };
+  store.set('a', entry);
+  store.set('b', entry);
+  store.get('a');
+  store.set('c', entry);
+  assert.deepEqual(store.keys(), ['a', 'c']);
+});
+
+test('expires entries, hands out copies and keeps projects apart', () => {
+  const store = new LruCacheStore();
+  const cache = new YapiCache(store, baseUrl, 'token-a', { '/interface/get': 60, '/interface/list_menu': 0 });
+  const other = new YapiCache(store, baseUrl, 'token-b');
+  cache.set('/interface/get', { id: 1 }, { title: 'Order' });
+  cache.get<{ title: string }>('/interface/get', { id: 1 })!.title = 'Changed';
+  assert.deepEqual(cache.get('/interface/get', { id: 1 }), { title: 'Order' });
+  assert.equal(other.get('/interface/get', { id: 1 }), undefined);
+  // The token never appears in keys (they may be persisted)
+  assert.ok(store.keys().every(key => !key.includes('token-a')));
+
+  cache.set('/interface/list_menu', undefined, []);
+  assert.equal(cache.get('/interface/list_menu', undefined), undefined);
+
+  const [key] = store.keys();
+  store.set(key, { ...store.get(key)!, expiresAt: Date.now() - 1 });
+  assert.equal(cache.get('/interface/get', { id: 1 }), undefined);
+  assert.deepEqual(store.keys(), []);
+});
+
+test('invalidates one API path or the whole project', () => {
+  const store = new LruCacheStore();
+  const cache = new YapiCache(store, baseUrl, 'token-a');
+  const other = new YapiCache(store, baseUrl, 'token-b');
+  cache.set('/interface/get', { id: 1 }, {});
+  cache.set('/interface/get', { id: 2 }, {});
+  cache.set('/project/get', undefined, {});
+  other.set('/project/get', undefined, {});
+  assert.equal(cache.invalidate('/interface/get'), 2);
+  assert.equal(cache.invalidate(), 1);
+  assert.notEqual(other.get('/project/get', undefined), undefined);
+});
+
+test('persists file caches across restarts', () => {
+  const filePath = join(mkdtempSync(join(tmpdir(), 'yapi-cache-')), 'nested', 'cache.json');
+  const store = new FileCacheStore(filePath);
+  new YapiCache(store, baseUrl, 'token-a').set('/project/get', undefined, { name: 'Shop' });
+  store.flush();
+  assert.deepEqual(new YapiCache(new FileCacheStore(filePath), baseUrl, 'token-a').get('/project/get', undefined), { name: 'Shop' });
+});
+
+test('parses TTL overrides', () => {
+  const ttls = parseCacheTtls('/api/interface/get=60, interface/list_menu=0');
+  assert.equal(ttls['/interface/get'], 60);
+  assert.equal(ttls['/interface/list_menu'], 0);
+  assert.equal(ttls['/project/get'], 600);
+  assert.throws(() => parseCacheTtls('/interface/get=soon'), ConfigurationError);
+});
+
+test('serves interface details from the cache until the menu reports a newer up_time', async () => {
+  const service = new YapiService(baseUrl, 'token', { cacheStore: new LruCacheStore() });
+  const before = detailHits();
+  await service.getInterfaceDetails(11);
+  await service.getInterfaceDetails(11);
+  assert.equal(detailHits(), before + 1);
+
+  // Unchanged up_time keeps the details
+  await service.getProjectInterfaceMenu();
+  await service.getInterfaceDetails(11);
+  assert.equal(detailHits(), before + 1);
+
+  upTime = 200;
+  await service.getProjectInterfaceMenu(true);
+  assert.equal((await service.getInterfaceDetails(11)).up_time, 200);
+  assert.equal(detailHits(), before + 2);
+});
+
+test('drops cached details after writes and on refresh', async () => {
+  const service = new YapiService(baseUrl, 'token', { cacheStore: new LruCacheStore() });
+  const before = detailHits();
+  await service.getInterfaceDetails(11);
+  await service.updateInterface({ id: 11, title: 'Renamed' });
+  await service.getInterfaceDetails(11);
+  assert.equal(detailHits(), before + 2);
+
+  assert.equal(service.refreshCache(11), 1);
+  await service.getInterfaceDetails(11);
+  assert.equal(detailHits(), before + 3);
+  assert.equal(service.refreshCache(), 1);
+});
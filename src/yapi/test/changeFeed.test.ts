@@ -0,0 +1,78 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ChangeWatcher, MenuChangeEvent } from '../src/changeFeed.js';
+import { YapiProjectRegistry } from '../src/projectRegistry.js';
+import { YapiCategory } from '../src/schemas.js';
+
+function item(id: number, catid: number, upTime: number) {
+  return { _id: id, catid, up_time: upTime, add_time: 0, method: 'GET', path: `/items/${id}`, title: `Item ${id}`, project_id: 9, uid: 1 };
+}
+
+// Only what the watcher reads from the registry; each poll returns the next menu of the alias (the last one repeats)
+function registry(menus: Record<string, YapiCategory[][]>): YapiProjectRegistry {
+  const polls = new Map<string, number>();
+  return {
+    list: () => Object.keys(menus).map(alias => ({ alias })),
+    get: (alias: string) => ({
+      getProjectInterfaceMenu: async () => {
+        const poll = polls.get(alias) ?? 0;
+        polls.set(alias, poll + 1);
+        return structuredClone(menus[alias][Math.min(poll, menus[alias].length - 1)]);
+      },
+    }),
+  } as unknown as YapiProjectRegistry;
+}
+
+function nextEvent(watcher: ChangeWatcher): { event: Promise<MenuChangeEvent>; unsubscribe: () => void } {
+  let unsubscribe = () => {};
+  const event = new Promise<MenuChangeEvent>((resolve, reject) => {
+    // Also keeps the process alive: the watcher's own timers are unref'd
+    const timeout = setTimeout(() => reject(new Error('No change event')), 5000);
+    unsubscribe = watcher.subscribe(event => {
+      clearTimeout(timeout);
+      resolve(event);
+    });
+  });
+  return { event, unsubscribe };
+}
+
+test('reports updated, moved, added and removed interfaces after the baseline poll', async () => {
+  const watcher = new ChangeWatcher(registry({
+    shop: [
+      [{ _id: 1, name: 'Orders', list: [item(11, 1, 100), item(12, 1, 100)] }, { _id: 2, name: 'Users', list: [item(21, 2, 100)] }] as YapiCategory[],
+      [{ _id: 1, name: 'Orders', list: [item(11, 1, 200)] }, { _id: 2, name: 'Users', list: [item(21, 2, 100), item(12, 2, 100), item(13, 2, 300)] }] as YapiCategory[],
+    ],
+  }), 10);
+  const { event, unsubscribe } = nextEvent(watcher);
+  const { alias, interfaceIds, categoryIds, listChanged } = await event;
+  unsubscribe();
+  assert.equal(alias, 'shop');
+  assert.deepEqual(interfaceIds.sort(), [11, 12, 13]);
+  assert.deepEqual(categoryIds.sort(), [1, 2]);
+  assert.equal(listChanged, true);
+});
+
+test('watchers only poll the registry they were created for', async () => {
+  const serverWatcher = new ChangeWatcher(registry({
+    default: [[{ _id: 1, name: 'Orders', list: [item(11, 1, 100)] }] as YapiCategory[]],
+  }), 10);
+  const sessionWatcher = new ChangeWatcher(registry({
+    default: [
+      [{ _id: 5, name: 'Other', list: [item(51, 5, 100)] }] as YapiCategory[],
+      [{ _id: 5, name: 'Other', list: [item(51, 5, 200)] }] as YapiCategory[],
+    ],
+  }), 10);
+  const serverEvents: MenuChangeEvent[] = [];
+  const stopServer = serverWatcher.subscribe(event => serverEvents.push(event));
+  const { event, unsubscribe } = nextEvent(sessionWatcher);
+  assert.deepEqual(await event, { alias: 'default', interfaceIds: [51], categoryIds: [5], listChanged: false });
+  unsubscribe();
+  stopServer();
+  assert.deepEqual(serverEvents, []);
+});
+
+test('does not poll when disabled', () => {
+  const watcher = new ChangeWatcher(registry({}), 0);
+  assert.equal(watcher.isEnabled(), false);
+  watcher.subscribe(() => assert.fail('no events expected'))();
+});
@@ -0,0 +1,50 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mapWithConcurrency, RequestLimiter } from '../src/concurrency.js';
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+test('maps with bounded concurrency, keeping the input order', async () => {
+  let active = 0;
+  let maxActive = 0;
+  const results = await mapWithConcurrency([30, 10, 20, 5, 15], 2, async (ms, index) => {
+    maxActive = Math.max(maxActive, ++active);
+    await delay(ms);
+    active--;
+    return index;
+  });
+  assert.deepEqual(results, [0, 1, 2, 3, 4]);
+  assert.equal(maxActive, 2);
+  assert.deepEqual(await mapWithConcurrency([], 3, async () => 1), []);
+});
+
+test('limits requests in flight and serves waiters in order', async () => {
+  const limiter = new RequestLimiter(2);
+  let active = 0;
+  let maxActive = 0;
+  const started: number[] = [];
+  await Promise.all([0, 1, 2, 3, 4].map(index => limiter.run(async () => {
+    started.push(index);
+    maxActive = Math.max(maxActive, ++active);
+    await delay(10);
+    active--;
+  })));
+  assert.equal(maxActive, 2);
+  assert.deepEqual(started, [0, 1, 2, 3, 4]);
+});
+
+test('releases the slot when a request fails', async () => {
+  const limiter = new RequestLimiter(1);
+  await assert.rejects(limiter.run(async () => { throw new Error('boom'); }), /boom/);
+  assert.equal(await limiter.run(async () => 'next'), 'next');
+});
+
+test('spaces out request starts to honour the rate', async () => {
+  const limiter = new RequestLimiter(10, 20);
+  const startedAt: number[] = [];
+  await Promise.all([0, 1, 2].map(() => limiter.run(async () => { startedAt.push(Date.now()); })));
+  // 20 per second: 50ms apart, with some slack for timer granularity
+  assert.ok(startedAt[2] - startedAt[0] >= 90, `started ${startedAt[2] - startedAt[0]}ms apart`);
+});
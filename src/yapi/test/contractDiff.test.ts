@@ -0,0 +1,139 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { diffInterface, diffSnapshots, FieldChange } from '../src/contractDiff.js';
+import { ProjectSnapshot, SNAPSHOT_VERSION } from '../src/snapshot.js';
+import { YapiInterfaceDetail } from '../src/schemas.js';
+
+// Snapshots hold details as returned by getInterfaceDetails, i.e. with parsed bodies
+function detail(id: number, fields: Record<string, unknown> = {}): YapiInterfaceDetail {
+  return {
+    _id: id, method: 'GET', path: `/items/${id}`, title: `Item ${id}`, catid: 1, project_id: 9, uid: 1, add_time: 0, up_time: 0,
+    ...fields,
+  } as YapiInterfaceDetail;
+}
+
+function snapshot(details: YapiInterfaceDetail[]): ProjectSnapshot {
+  return {
+    version: SNAPSHOT_VERSION,
+    created_at: '2026-01-01T00:00:00.000Z',
+    base_url: 'http://yapi.example.com',
+    project: { _id: 9, name: 'Shop', uid: 1, group_id: 1, add_time: 0, up_time: 0 },
+    menu: [],
+    interfaces: Object.fromEntries(details.map(item => [String(item._id), item])),
+  };
+}
+
+function schema(properties: Record<string, unknown>, required: string[] = []): Record<string, unknown> {
+  return { type: 'object', properties, required };
+}
+
+function find(changes: FieldChange[], field: string): FieldChange | undefined {
+  return changes.find(change => change.field === field);
+}
+
+test('reports no changes for identical interfaces', () => {
+  const item = detail(1, { req_query: [{ name: 'page', required: '0' }], res_body_is_json_schema: true, res_body: schema({ id: { type: 'number' } }, ['id']) });
+  assert.deepEqual(diffInterface(item, structuredClone(item)), []);
+});
+
+test('new required request parameters break callers, optional ones do not', () => {
+  const changes = diffInterface(
+    detail(1, { req_query: [{ name: 'page', required: '0' }] }),
+    detail(1, { req_query: [{ name: 'page', required: '0' }, { name: 'size', required: '0' }, { name: 'shop', required: '1' }], req_params: [{ name: 'id' }] }),
+  );
+  assert.deepEqual(find(changes, 'size'), { location: 'req_query', field: 'size', change: 'added', before: undefined, after: 'string', breaking: false });
+  assert.equal(find(changes, 'shop')?.breaking, true);
+  // Path parameters are always required
+  assert.equal(find(changes, 'id')?.breaking, true);
+});
+
+test('requiredness changes break the side that relies on them', () => {
+  const before = detail(1, {
+    req_headers: [{ name: 'X-Trace', required: '0' }],
+    res_body_is_json_schema: true,
+    res_body: schema({ id: { type: 'number' } }, ['id']),
+  });
+  const after = detail(1, {
+    req_headers: [{ name: 'X-Trace', required: '1' }],
+    res_body_is_json_schema: true,
+    res_body: schema({ id: { type: 'number' } }),
+  });
+  const changes = diffInterface(before, after);
+  assert.deepEqual(find(changes, 'X-Trace'), { location: 'req_headers', field: 'X-Trace', change: 'became_required', before: undefined, after: undefined, breaking: true });
+  assert.equal(find(changes, '$.id')?.change, 'became_optional');
+  assert.equal(find(changes, '$.id')?.breaking, true);
+});
+
+test('response fields: additions are compatible, removals and type changes break', () => {
+  const before = detail(1, {
+    res_body_is_json_schema: true,
+    res_body: schema({ data: { type: 'object', properties: { list: { type: 'array', items: schema({ id: { type: 'number' }, name: { type: 'string' } }) } } }, code: { type: 'number' } }),
+  });
+  const after = detail(1, {
+    res_body_is_json_schema: true,
+    res_body: schema({ data: { type: 'object', properties: { list: { type: 'array', items: schema({ id: { type: 'string' }, price: { type: 'number' } }) } } }, msg: { type: 'string' } }),
+  });
+  const changes = diffInterface(before, after);
+  assert.deepEqual(find(changes, '$.data.list[].id'), { location: 'res_body', field: '$.data.list[].id', change: 'type_changed', before: 'number', after: 'string', breaking: true });
+  assert.equal(find(changes, '$.data.list[].name')?.breaking, true);
+  assert.equal(find(changes, '$.data.list[].price')?.breaking, false);
+  assert.equal(find(changes, '$.code')?.change, 'removed');
+  assert.equal(find(changes, '$.msg')?.breaking, false);
+});
+
+test('children of removed objects are not reported separately', () => {
+  const changes = diffInterface(
+    detail(1, { req_body_type: 'json', req_body_is_json_schema: true, req_body_other: schema({ address: schema({ city: { type: 'string' }, zip: { type: 'string' } }) }) }),
+    detail(1, { req_body_type: 'json', req_body_is_json_schema: true, req_body_other: schema({}) }),
+  );
+  assert.deepEqual(changes.map(change => change.field), ['$.address']);
+});
+
+test('form bodies compare rows, and body type changes break', () => {
+  const changes = diffInterface(
+    detail(1, { method: 'POST', req_body_type: 'form', req_body_form: [{ name: 'file', type: 'file', required: '1' }] }),
+    detail(1, { method: 'POST', req_body_type: 'json', req_body_other: { file: 'data' } }),
+  );
+  assert.deepEqual(find(changes, 'req_body_type'), { location: 'req_body_type', field: 'req_body_type', change: 'type_changed', before: 'form', after: 'json', breaking: true });
+  assert.equal(find(changes, 'file')?.change, 'removed');
+  // Samples carry no required information; the new body's fields are implied by '$'
+  assert.equal(find(changes, '$')?.breaking, false);
+  assert.equal(find(changes, '$.file'), undefined);
+});
+
+test('diffs snapshots by method and path, not by ID', () => {
+  const base = snapshot([
+    detail(1, { path: '/orders' }),
+    detail(2, { path: '/users' }),
+    detail(3, { path: '/carts', req_query: [{ name: 'page', required: '0' }] }),
+  ]);
+  const target = snapshot([
+    // Same interface under another ID (e.g. a different YAPI instance)
+    detail(11, { path: '/orders' }),
+    detail(13, { path: '/carts', req_query: [{ name: 'page', required: '0' }, { name: 'size', required: '0' }] }),
+    detail(14, { path: '/coupons', method: 'post' }),
+  ]);
+  const diff = diffSnapshots(base, target, { baseLabel: 'v1.json', targetLabel: 'live' });
+  assert.deepEqual(diff.summary, { added: 1, removed: 1, changed: 1, breaking_changes: 1 });
+  assert.deepEqual(diff.added, [{ id: 14, method: 'POST', path: '/coupons', title: 'Item 14' }]);
+  assert.deepEqual(diff.removed, [{ id: 2, method: 'GET', path: '/users', title: 'Item 2' }]);
+  assert.equal(diff.changed[0].id, 13);
+  assert.equal(diff.changed[0].breaking, false);
+  assert.equal(diff.base.label, 'v1.json');
+});
+
+test('breaking_only keeps removals and breaking field changes only', () => {
+  const base = snapshot([
+    detail(1, { req_query: [{ name: 'page', required: '0' }] }),
+    detail(2),
+    detail(3),
+  ]);
+  const target = snapshot([
+    detail(1, { req_query: [{ name: 'size', required: '0' }] }),
+    detail(3, { req_query: [{ name: 'size', required: '0' }] }),
+    detail(4),
+  ]);
+  const diff = diffSnapshots(base, target, { baseLabel: 'a', targetLabel: 'b', breakingOnly: true });
+  assert.deepEqual(diff.summary, { added: 0, removed: 1, changed: 1, breaking_changes: 2 });
+  assert.deepEqual(diff.changed[0].changes.map(change => change.field), ['page']);
+});
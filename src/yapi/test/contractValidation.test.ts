@@ -0,0 +1,115 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { validateAgainstSchema, validatePayload, validateRequiredRows } from '../src/contractValidation.js';
+import { YapiInterfaceDetail } from '../src/schemas.js';
+import { JsonSchema } from '../src/typescriptGenerator.js';
+
+// Details as returned by getInterfaceDetails, i.e. with parsed bodies
+function detail(fields: Record<string, unknown>): YapiInterfaceDetail {
+  return { _id: 7, method: 'post', path: '/orders', title: 'Create order', catid: 1, project_id: 9, uid: 1, add_time: 0, up_time: 0, ...fields } as YapiInterfaceDetail;
+}
+
+const orderSchema: JsonSchema = {
+  type: 'object',
+  required: ['id', 'items'],
+  properties: {
+    id: { type: 'integer', minimum: 1 },
+    status: { type: 'string', enum: ['new', 'paid'] },
+    items: { type: 'array', minItems: 1, items: { type: 'object', required: ['sku'], properties: { sku: { type: 'string', pattern: '^[A-Z]+-\\d+$' }, qty: { type: 'number' } } } },
+  },
+};
+
+test('accepts a payload matching the schema', () => {
+  assert.deepEqual(validateAgainstSchema(orderSchema, { id: 3, status: 'paid', items: [{ sku: 'AB-1', qty: 1.5 }] }), []);
+});
+
+test('reports violations with their field paths', () => {
+  const violations = validateAgainstSchema(orderSchema, { id: 0, status: 'lost', items: [{ qty: 'two' }, { sku: 'ab' }] });
+  assert.deepEqual(violations, [
+    { path: '$.id', message: 'must be >= 1' },
+    { path: '$.status', message: 'expected one of "new", "paid", got "lost"' },
+    { path: '$.items[0].sku', message: 'required field is missing' },
+    { path: '$.items[0].qty', message: 'expected number, got string' },
+    { path: '$.items[1].sku', message: 'does not match pattern ^[A-Z]+-\\d+$' },
+  ]);
+  assert.deepEqual(validateAgainstSchema(orderSchema, { status: 'new', items: [] }), [
+    { path: '$.id', message: 'required field is missing' },
+    { path: '$.items', message: 'fewer than minItems 1' },
+  ]);
+});
+
+test('stops at a type mismatch instead of repeating it for nested fields', () => {
+  assert.deepEqual(validateAgainstSchema(orderSchema, [1, 2]), [{ path: '$', message: 'expected object, got array' }]);
+  // Integers are numbers, but not the other way around
+  assert.deepEqual(validateAgainstSchema({ type: 'number' }, 2), []);
+  assert.deepEqual(validateAgainstSchema({ type: 'integer' }, 2.5), [{ path: '$', message: 'expected integer, got number' }]);
+});
+
+test('supports draft-04 and later exclusive bounds', () => {
+  assert.deepEqual(validateAgainstSchema({ type: 'number', minimum: 0, exclusiveMinimum: true } as JsonSchema, 0), [{ path: '$', message: 'must be > 0' }]);
+  assert.deepEqual(validateAgainstSchema({ type: 'number', exclusiveMaximum: 10 } as JsonSchema, 10), [{ path: '$', message: 'must be < 10' }]);
+});
+
+test('checks additionalProperties, anyOf and oneOf', () => {
+  assert.deepEqual(validateAgainstSchema({ type: 'object', properties: { a: { type: 'string' } }, additionalProperties: false }, { a: 'x', b: 1 }), [
+    { path: '$.b', message: 'field is not allowed (additionalProperties is false)' },
+  ]);
+  assert.deepEqual(validateAgainstSchema({ anyOf: [{ type: 'string' }, { type: 'null' }] }, 1), [{ path: '$', message: 'does not match any of the anyOf schemas' }]);
+  assert.deepEqual(validateAgainstSchema({ oneOf: [{ type: 'number' }, { type: 'integer' }] }, 1), [{ path: '$', message: 'matches 2 of the oneOf schemas, expected exactly 1' }]);
+});
+
+test('treats prototype member names as ordinary fields', () => {
+  const schema: JsonSchema = { type: 'object', required: ['toString'], properties: { toString: { type: 'string' } }, additionalProperties: false };
+  assert.deepEqual(validateAgainstSchema(schema, JSON.parse('{"toString": "x", "constructor": 1}')), [
+    { path: '$.constructor', message: 'field is not allowed (additionalProperties is false)' },
+  ]);
+  assert.deepEqual(validateAgainstSchema(schema, {}), [{ path: '$.toString', message: 'required field is missing' }]);
+  assert.deepEqual(validateAgainstSchema({ type: 'object', properties: { constructor: { type: 'string' } } }, { constructor: 1 }), [
+    { path: '$.constructor', message: 'expected string, got integer' },
+  ]);
+});
+
+test('reports missing required rows, matching headers case-insensitively', () => {
+  const rows = [{ name: 'X-Token', required: '1' }, { name: 'X-Trace', required: '0' }];
+  assert.deepEqual(validateRequiredRows(rows, { 'x-token': 'abc' }, 'headers', true), []);
+  assert.deepEqual(validateRequiredRows(rows, { 'x-token': '' }, 'headers', true), [{ path: 'headers.X-Token', message: 'required parameter is missing' }]);
+  assert.deepEqual(validateRequiredRows(rows, { 'x-token': 'abc' }, 'query'), [{ path: 'query.X-Token', message: 'required parameter is missing' }]);
+});
+
+test('validates requests and notes the parts that were not checked', () => {
+  const interfaceDetail = detail({
+    req_query: [{ name: 'shop', required: '1' }],
+    req_body_type: 'json',
+    req_body_is_json_schema: true,
+    req_body_other: orderSchema,
+  });
+  const result = validatePayload(interfaceDetail, 'request', { query: {}, body: '{"id": 1, "items": [{"sku": "AB-1"}]}' });
+  assert.equal(result.valid, false);
+  assert.deepEqual(result.interface, { id: 7, method: 'POST', path: '/orders', title: 'Create order' });
+  // JSON text bodies are parsed before validation
+  assert.deepEqual(result.violations, [{ path: 'query.shop', message: 'required parameter is missing' }]);
+  assert.deepEqual(result.notes, ['No headers given; required headers were not checked.']);
+});
+
+test('validates form requests by their required rows', () => {
+  const interfaceDetail = detail({ req_body_type: 'form', req_body_form: [{ name: 'file', type: 'file', required: '1' }] });
+  assert.deepEqual(validatePayload(interfaceDetail, 'request', { query: {}, headers: {}, body: {} }).violations, [
+    { path: 'form.file', message: 'required parameter is missing' },
+  ]);
+});
+
+test('checks only field types against documented samples', () => {
+  const interfaceDetail = detail({ res_body_type: 'json', res_body: { code: 0, data: { id: '@guid', 'list|1-3': [{ name: 'x' }], owner: null } } });
+  const ok = validatePayload(interfaceDetail, 'response', { body: { code: 2, data: { id: 5, list: 'any', owner: { id: 1 } } } });
+  assert.deepEqual(ok.violations, []);
+  assert.match(ok.notes[0], /JSON sample/);
+  assert.deepEqual(validatePayload(interfaceDetail, 'response', { body: { code: '0', data: [] } }).violations, [
+    { path: '$.code', message: 'expected number, got string' },
+    { path: '$.data', message: 'expected object, got array' },
+  ]);
+});
+
+test('skips response bodies documented as raw text or not at all', () => {
+  assert.equal(validatePayload(detail({ res_body: 'OK' }), 'response', { body: 'anything' }).valid, true);
+  assert.match(validatePayload(detail({}), 'response', { body: {} }).notes[0], /No response body is documented/);
+});
@@ -0,0 +1,84 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { loadOfflineDataSource } from '../src/dataSource.js';
+import { ConfigurationError, YapiError } from '../src/errors.js';
+import { YapiService } from '../src/yapiService.js';
+
+const dir = mkdtempSync(join(tmpdir(), 'yapi-offline-'));
+
+function file(name: string, content: unknown): string {
+  const path = join(dir, name);
+  writeFileSync(path, typeof content === 'string' ? content : JSON.stringify(content));
+  return path;
+}
+
+function item(index: number) {
+  return { method: 'GET', title: `Item ${index}`, path: `/items/${index}`, res_body: '{"id": 1}', res_body_type: 'json', req_body_other: '' };
+}
+
+// YAPI's own JSON export: categories with full interfaces, without IDs
+const yapiExport = [
+  { name: 'Items', desc: 'Item APIs', list: Array.from({ length: 25 }, (_, index) => item(index + 1)) },
+  { _id: 40, name: 'Empty', list: [] },
+];
+
+test('serves a YAPI export with numbered interfaces and paged categories', async () => {
+  const service = new YapiService(undefined, undefined, { dataSource: loadOfflineDataSource(file('shop.json', yapiExport)) });
+  assert.equal(service.getOfflineLocation(), join(dir, 'shop.json'));
+  assert.equal((await service.getProjectInfo()).name, 'shop');
+
+  const menu = await service.getProjectInterfaceMenu();
+  assert.deepEqual(menu.map(category => [category._id, category.name, category.list?.length]), [[1, 'Items', 25], [40, 'Empty', 0]]);
+  // List items only carry the list fields
+  assert.equal('res_body' in menu[0].list![0], false);
+
+  const page = await service.listInterfacesByCategory(1, 3, 10);
+  assert.deepEqual([page.count, page.total, page.list.map(entry => entry._id)], [25, 3, [21, 22, 23, 24, 25]]);
+  assert.equal((await service.listAllInterfacesByCategory(1)).list.length, 25);
+  assert.deepEqual((await service.listInterfacesByCategory(99)).list, []);
+
+  const detail = await service.getInterfaceDetails(3);
+  assert.equal(detail.title, 'Item 3');
+  assert.deepEqual(detail.res_body, { id: 1 });
+  await assert.rejects(service.getInterfaceDetails(99), (error: YapiError) => error.errcode === 404 && /not in the offline export/.test(error.message));
+});
+
+test('answers writes with read-only errors', async () => {
+  const service = new YapiService(undefined, undefined, { dataSource: loadOfflineDataSource(file('readonly.json', yapiExport)) });
+  await assert.rejects(service.updateInterface({ id: 1, title: 'Renamed' }), (error: YapiError) => {
+    assert.equal(error.errcode, 405);
+    assert.match(error.message, /Offline mode: \/interface\/up is not available, the project is served read-only/);
+    return true;
+  });
+  await assert.rejects(service.saveInterface({ catid: 1, title: 'New', path: '/new', method: 'GET' }), (error: YapiError) => error.errcode === 405);
+});
+
+test('serves snapshots with their parsed bodies', async () => {
+  const detail = { _id: 7, method: 'POST', catid: 2, title: 'Create', path: '/orders', project_id: 9, uid: 1, add_time: 0, up_time: 5, req_body_is_json_schema: true, req_body_other: { type: 'object' } };
+  const snapshot = {
+    version: 1,
+    created_at: '2024-01-01T00:00:00.000Z',
+    base_url: 'https://yapi.example.com',
+    project: { _id: 9, name: 'Shop', uid: 1, group_id: 1, add_time: 0, up_time: 0 },
+    menu: [{ _id: 2, name: 'Orders', project_id: 9, uid: 1, add_time: 0, up_time: 0, list: [{ _id: 7, method: 'POST', catid: 2, title: 'Create', path: '/orders', project_id: 9, uid: 1, add_time: 0, up_time: 5 }] }],
+    interfaces: { 7: detail },
+  };
+  const service = new YapiService(undefined, undefined, { dataSource: loadOfflineDataSource(file('snapshot.json', snapshot)) });
+  assert.equal(service.getBaseUrl(), 'https://yapi.example.com');
+  assert.deepEqual((await service.getInterfaceDetails(7)).req_body_other, { type: 'object' });
+});
+
+test('rejects files that are not exports', () => {
+  assert.throws(() => loadOfflineDataSource(join(dir, 'missing.json')), /Cannot read offline export/);
+  assert.throws(() => loadOfflineDataSource(file('broken.json', '[{')), ConfigurationError);
+  assert.throws(() => loadOfflineDataSource(file('object.json', { name: 'Shop' })), /expected a snapshot or a YAPI JSON export/);
+  assert.throws(() => loadOfflineDataSource(file('null-category.json', [null])), (error: Error) => {
+    assert.ok(error instanceof ConfigurationError);
+    assert.match(error.message, /category 0 is not an object/);
+    return true;
+  });
+  assert.throws(() => loadOfflineDataSource(file('bad-item.json', [{ name: 'Items', list: [item(1), 'x'] }])), /interface 1 of category 0 is not an object/);
+});
@@ -0,0 +1,123 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPairSync, sign, KeyObject } from 'node:crypto';
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Request, Response } from 'express';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { createAuthMiddleware, HttpAuthSources, loadHttpAuthConfig } from '../src/transports/httpAuth.js';
+
+const { privateKey, publicKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+const jwksFile = join(mkdtempSync(join(tmpdir(), 'yapi-auth-')), 'jwks.json');
+writeFileSync(jwksFile, JSON.stringify({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid: 'k1', alg: 'ES256', use: 'sig' }] }));
+
+const now = () => Math.floor(Date.now() / 1000);
+
+function encode(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function signJwt(claims: unknown, header: Record<string, unknown> = { alg: 'ES256', kid: 'k1' }, key: KeyObject = privateKey): string {
+  const signingInput = `${encode(header)}.${encode(claims)}`;
+  const signature = sign('sha256', Buffer.from(signingInput), { key, dsaEncoding: 'ieee-p1363' });
+  return `${signingInput}.${signature.toString('base64url')}`;
+}
+
+interface AuthOutcome {
+  status?: number;
+  message?: string;
+  locals: { auth?: AuthInfo };
+  passed: boolean;
+}
+
+function authenticate(sources: HttpAuthSources, headers: Record<string, string>): AuthOutcome {
+  const config = loadHttpAuthConfig({ jwksFile, ...sources });
+  assert.ok(config);
+  const outcome: AuthOutcome = { locals: {}, passed: false };
+  const res = {
+    locals: outcome.locals,
+    setHeader: () => res,
+    status(code: number) { outcome.status = code; return res; },
+    json(body: { error: { message: string } }) { outcome.message = body.error.message; return res; },
+  };
+  const req = { headers, method: 'POST', originalUrl: '/mcp', ip: '127.0.0.1' };
+  createAuthMiddleware(config)(req as unknown as Request, res as unknown as Response, (error?: unknown) => {
+    if (error) throw error;
+    outcome.passed = true;
+  });
+  return outcome;
+}
+
+function bearer(token: string): Record<string, string> {
+  return { authorization: `Bearer ${token}` };
+}
+
+test('authentication is disabled without keys or a JWKS file', () => {
+  assert.equal(loadHttpAuthConfig({}), undefined);
+});
+
+test('accepts configured API keys and rejects others', () => {
+  assert.equal(authenticate({ apiKeys: 'alpha, beta' }, { 'x-api-key': 'beta' }).locals.auth?.clientId, 'api-key-2');
+  const rejected = authenticate({ apiKeys: 'alpha' }, { 'x-api-key': 'gamma' });
+  assert.equal(rejected.status, 401);
+  assert.equal(rejected.passed, false);
+});
+
+test('accepts a valid JWT and exposes its identity and scopes', () => {
+  const outcome = authenticate({}, bearer(signJwt({ sub: 'alice', exp: now() + 300, scope: 'yapi:read yapi:write' })));
+  assert.equal(outcome.passed, true);
+  assert.equal(outcome.locals.auth?.clientId, 'alice');
+  assert.deepEqual(outcome.locals.auth?.scopes, ['yapi:read', 'yapi:write']);
+});
+
+test('rejects unsupported algorithms, including prototype keys and "none"', () => {
+  for (const alg of ['constructor', 'toString', '__proto__', 'none', 'HS256']) {
+    const outcome = authenticate({}, bearer(signJwt({ exp: now() + 300 }, { alg })));
+    assert.equal(outcome.status, 401, alg);
+    assert.match(outcome.message ?? '', /Unsupported token algorithm/, alg);
+  }
+});
+
+test('rejects tokens signed with another key', () => {
+  const { privateKey: otherKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  const outcome = authenticate({}, bearer(signJwt({ exp: now() + 300 }, undefined, otherKey)));
+  assert.match(outcome.message ?? '', /Invalid token signature/);
+});
+
+test('requires exp unless explicitly allowed', () => {
+  const token = signJwt({ sub: 'alice' });
+  assert.match(authenticate({}, bearer(token)).message ?? '', /no valid expiry/);
+  assert.match(authenticate({}, bearer(signJwt({ exp: 'tomorrow' }))).message ?? '', /no valid expiry/);
+  assert.equal(authenticate({ jwtAllowNoExp: true }, bearer(token)).passed, true);
+});
+
+test('rejects expired and not yet valid tokens, with clock skew', () => {
+  assert.match(authenticate({}, bearer(signJwt({ exp: now() - 120 }))).message ?? '', /Token expired/);
+  assert.equal(authenticate({}, bearer(signJwt({ exp: now() - 30 }))).passed, true);
+  assert.match(authenticate({}, bearer(signJwt({ exp: now() + 600, nbf: now() + 300 }))).message ?? '', /not yet valid/);
+});
+
+test('rejects payloads that are not JSON objects instead of failing with a server error', () => {
+  for (const claims of [null, 42, ['exp']]) {
+    const outcome = authenticate({}, bearer(signJwt(claims)));
+    assert.equal(outcome.status, 401);
+    assert.match(outcome.message ?? '', /Malformed token/);
+  }
+});
+
+test('checks issuer and audience', () => {
+  const sources = { jwtIssuer: 'https://issuer.example.com', jwtAudience: 'yapi-mcp' };
+  const claims = { exp: now() + 300, iss: 'https://issuer.example.com' };
+  assert.equal(authenticate(sources, bearer(signJwt({ ...claims, aud: ['other', 'yapi-mcp'] }))).passed, true);
+  assert.match(authenticate(sources, bearer(signJwt({ ...claims, aud: 'other' }))).message ?? '', /audience mismatch/);
+  assert.match(authenticate(sources, bearer(signJwt({ ...claims, iss: 'https://evil.example.com', aud: 'yapi-mcp' }))).message ?? '', /issuer mismatch/);
+});
+
+test('enforces required scopes from scope or scp with 403', () => {
+  const sources = { requiredScopes: 'yapi:read' };
+  assert.equal(authenticate(sources, bearer(signJwt({ exp: now() + 300, scp: ['yapi:read'] }))).passed, true);
+  const outcome = authenticate(sources, bearer(signJwt({ exp: now() + 300, scope: 'yapi:write' })));
+  assert.equal(outcome.status, 403);
+  assert.match(outcome.message ?? '', /missing yapi:read/);
+});
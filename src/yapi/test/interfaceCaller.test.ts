@@ -0,0 +1,83 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { callInterface, parseAllowedDomains } from '../src/interfaceCaller.js';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { ConfigurationError } from '../src/errors.js';
+import { YapiService } from '../src/yapiService.js';
+
+const target = createServer((req, res) => {
+  if (req.url === '/api/moved') {
+    res.writeHead(302, { location: 'http://169.254.169.254/latest/meta-data' }).end();
+    return;
+  }
+  if (req.url === '/api/stalled' || req.url === '/api/reset') {
+    res.writeHead(200, { 'content-type': 'application/json' });
+    res.write('{"partial": ');
+    if (req.url === '/api/reset') setTimeout(() => res.destroy(), 10);
+    return;
+  }
+  res.writeHead(200, { 'content-type': 'application/json' }).end(JSON.stringify({ url: req.url }));
+});
+await new Promise<void>(resolve => target.listen(0, '127.0.0.1', resolve));
+after(() => {
+  target.closeAllConnections();
+  target.close();
+});
+const origin = `http://127.0.0.1:${(target.address() as AddressInfo).port}`;
+
+// Only what callInterface reads from the service
+function service(envDomain: string, path: string = '/orders/:id'): YapiService {
+  return {
+    getProjectInfo: async () => ({ _id: 9, name: 'Shop', uid: 1, group_id: 1, add_time: 0, up_time: 0, basepath: '/api', env: [{ name: 'dev', domain: envDomain }] }),
+    getInterfaceDetails: async (id: number) => ({ _id: id, method: 'GET', path, title: 'Order', catid: 1, project_id: 9, uid: 1, add_time: 0, up_time: 0, req_params: [{ name: 'id', example: '7' }] }),
+  } as unknown as YapiService;
+}
+
+test('parses allowed domains as origins', () => {
+  assert.deepEqual(parseAllowedDomains(' http://localhost:8080/, https://Staging.Example.com/api ,*'), ['http://localhost:8080', 'https://staging.example.com', '*']);
+  assert.deepEqual(parseAllowedDomains(''), []);
+  assert.throws(() => parseAllowedDomains('localhost:8080'), ConfigurationError);
+  assert.throws(() => parseAllowedDomains('file:///etc/passwd'), ConfigurationError);
+});
+
+test('calls the env domain with the basepath and path parameters', async () => {
+  const result = await callInterface(service(origin), 1, {});
+  assert.equal(result.status, 200);
+  assert.deepEqual(result.body, { url: '/api/orders/7' });
+});
+
+test('substitutes given path parameters and normalizes the basepath', async () => {
+  const noLeadingSlash = {
+    ...service(origin),
+    getProjectInfo: async () => ({ _id: 9, name: 'Shop', uid: 1, group_id: 1, add_time: 0, up_time: 0, basepath: 'api/', env: [{ name: 'dev', domain: `${origin}/` }] }),
+  } as unknown as YapiService;
+  assert.deepEqual((await callInterface(noLeadingSlash, 1, { pathParams: { id: 'a/b' } })).body, { url: '/api/orders/a%2Fb' });
+  await assert.rejects(callInterface(service(origin, '/orders/:id/items/{sku}'), 1, {}), /Missing path parameter\(s\): sku\./);
+});
+
+test('accepts domain overrides only for env domains and allowed origins', async () => {
+  const elsewhere = service('https://yapi-env.example.com');
+  await assert.rejects(callInterface(elsewhere, 1, { domain: origin }), /Domain '.*' is not allowed/);
+  await assert.rejects(callInterface(elsewhere, 1, { domain: 'http://169.254.169.254', allowedDomains: [origin] }), /not allowed/);
+  assert.equal((await callInterface(elsewhere, 1, { domain: `${origin}/`, allowedDomains: [origin] })).status, 200);
+  assert.equal((await callInterface(elsewhere, 1, { domain: origin, allowedDomains: ['*'] })).status, 200);
+  // The env's own domain may always be given explicitly
+  assert.equal((await callInterface(service(origin), 1, { domain: origin })).status, 200);
+});
+
+test('reports redirects instead of following them', async () => {
+  const result = await callInterface(service(origin, '/moved'), 1, {});
+  assert.equal(result.status, 302);
+  assert.equal(result.headers.location, 'http://169.254.169.254/latest/meta-data');
+});
+
+test('reports bodies that stall or break off like failed requests', async () => {
+  await assert.rejects(callInterface(service(origin, '/stalled'), 1, { timeoutMs: 100 }), (error: McpError) => {
+    assert.equal(error.code, ErrorCode.InternalError);
+    assert.match(error.message, /Request to GET .*\/api\/stalled failed: timed out after 100ms/);
+    return true;
+  });
+  await assert.rejects(callInterface(service(origin, '/reset'), 1, {}), /Request to GET .*\/api\/reset failed: /);
+});
@@ -0,0 +1,130 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'node:net';
+import { exampleFromSample, exampleFromSchema, expandPlaceholders, mockResponseBody, renderMockTemplate } from '../src/mockData.js';
+import { runMockServer } from '../src/mockServer.js';
+import { YapiInterfaceDetail } from '../src/schemas.js';
+import { JsonSchema } from '../src/typescriptGenerator.js';
+import { YapiService } from '../src/yapiService.js';
+
+// Details as returned by getInterfaceDetails, i.e. with parsed bodies
+function detail(fields: Record<string, unknown>): YapiInterfaceDetail {
+  return { _id: 7, method: 'GET', path: '/orders', title: 'Orders', catid: 1, project_id: 9, uid: 1, add_time: 0, up_time: 0, ...fields } as YapiInterfaceDetail;
+}
+
+function mockSchema(schema: JsonSchema): unknown {
+  return mockResponseBody(detail({ res_body_type: 'json', res_body_is_json_schema: true, res_body: schema }));
+}
+
+// Random output: check the properties on enough samples
+function repeat(times: number, fn: () => void): void {
+  for (let i = 0; i < times; i++) fn();
+}
+
+test('uses YAPI mock hints, coerced to the declared type', () => {
+  const body = mockSchema({
+    type: 'object',
+    properties: {
+      id: { type: 'string', mock: { mock: '@guid' } },
+      count: { type: 'integer', mock: { mock: '@integer(5, 5)' } },
+      total: { type: 'number', mock: { mock: '12.5' } },
+      active: { type: 'boolean', mock: { mock: 'false' } },
+      label: { type: 'string', mock: { mock: 'Order @integer(3, 3)' } },
+      empty: { type: 'string', mock: { mock: '' }, enum: ['fallback'] },
+    },
+  }) as Record<string, unknown>;
+  assert.match(body.id as string, /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/);
+  assert.equal(body.count, 5);
+  assert.equal(body.total, 12.5);
+  assert.equal(body.active, false);
+  assert.equal(body.label, 'Order 3');
+  assert.equal(body.empty, 'fallback');
+});
+
+test('picks enum values and prefers const, default and examples', () => {
+  repeat(20, () => assert.ok(['new', 'paid'].includes(mockSchema({ type: 'string', enum: ['new', 'paid'] }) as string)));
+  assert.equal(mockSchema({ type: 'string', const: 'fixed', enum: ['other'] }), 'fixed');
+  assert.equal(mockSchema({ type: 'integer', default: 3 }), 3);
+  assert.equal(mockSchema({ type: 'string', examples: ['first', 'second'] }), 'first');
+});
+
+test('respects numeric, length and item bounds', () => {
+  repeat(50, () => {
+    const body = mockSchema({
+      type: 'object',
+      properties: {
+        page: { type: 'integer', minimum: 2, maximum: 4 },
+        price: { type: 'number', minimum: 0.5, maximum: 1 },
+        code: { type: 'string', minLength: 20, maxLength: 20 },
+        short: { type: 'string', maxLength: 2 },
+        tags: { type: 'array', minItems: 2, maxItems: 3, items: { type: 'string', format: 'email' } },
+      },
+    }) as { page: number; price: number; code: string; short: string; tags: string[] };
+    assert.ok(Number.isInteger(body.page) && body.page >= 2 && body.page <= 4, `page ${body.page}`);
+    assert.ok(body.price >= 0.5 && body.price <= 1, `price ${body.price}`);
+    assert.equal(body.code.length, 20);
+    assert.ok(body.short.length <= 2);
+    assert.ok(body.tags.length >= 2 && body.tags.length <= 3);
+    body.tags.forEach(tag => assert.match(tag, /^[a-z]+@[a-z]+\.com$/));
+  });
+});
+
+test('renders Mock.js samples and keeps raw bodies', () => {
+  repeat(20, () => {
+    const body = renderMockTemplate({ 'list|2-3': [{ 'id|1-5': 0, name: '@cname' }], 'status|1': ['on', 'off'], 'price|1-9.2': 1 }) as {
+      list: Array<{ id: number; name: string }>;
+      status: string;
+      price: number;
+    };
+    assert.ok(body.list.length >= 2 && body.list.length <= 3);
+    body.list.forEach(item => assert.ok(item.id >= 1 && item.id <= 5 && item.name.length >= 2));
+    assert.ok(['on', 'off'].includes(body.status));
+    assert.ok(body.price >= 1 && body.price < 10 && /^\d\.\d{1,2}$|^\d$/.test(String(body.price)), `price ${body.price}`);
+  });
+  assert.equal(expandPlaceholders('@unknown(1)'), '@unknown(1)');
+  assert.equal(mockResponseBody(detail({ res_body_type: 'xml', res_body: '<ok/>' })), '<ok/>');
+  assert.equal(mockResponseBody(detail({ res_body: '' })), undefined);
+});
+
+test('builds stable examples without random data', () => {
+  assert.deepEqual(exampleFromSchema({
+    type: 'object',
+    properties: { id: { type: 'integer', minimum: 1, mock: { mock: '@integer' } }, at: { type: 'string', format: 'date-time' }, tags: { type: 'array', items: { type: 'string' } } },
+  }), { id: 1, at: '2024-01-01T00:00:00Z', tags: ['string'] });
+  assert.deepEqual(exampleFromSample({ 'list|1-10': [{ 'id|+1': 1 }] }), { list: [{ id: 1 }] });
+});
+
+// Only what the mock server reads from the service
+const interfaces = [
+  detail({ _id: 1, method: 'GET', path: '/users/:uid', res_body_type: 'json', res_body_is_json_schema: true, res_body: { type: 'object', properties: { uid: { type: 'integer', minimum: 1, maximum: 1 } } } }),
+  detail({ _id: 2, method: 'GET', path: '/users/me', res_body_type: 'raw', res_body: 'me' }),
+  detail({ _id: 3, method: 'POST', path: '/users', req_query: [{ name: 'tenant', required: '1' }], res_body: '' }),
+];
+const service = {
+  getProjectInfo: async () => ({ _id: 9, name: 'Shop', uid: 1, group_id: 1, add_time: 0, up_time: 0, basepath: 'api/' }),
+  getProjectInterfaceMenu: async () => [{ _id: 1, name: 'Users', list: interfaces }],
+  getInterfaceDetails: async (id: number) => interfaces.find(item => item._id === id),
+  getBaseUrl: () => 'http://yapi.example.com',
+} as unknown as YapiService;
+
+const mockServer = await runMockServer(service, 0);
+after(() => mockServer.close());
+const origin = `http://127.0.0.1:${(mockServer.address() as AddressInfo).port}`;
+
+test('serves documented interfaces below the basepath', async () => {
+  const user = await fetch(`${origin}/api/users/42`);
+  assert.equal(user.headers.get('x-yapi-interface-id'), '1');
+  assert.deepEqual(await user.json(), { uid: 1 });
+  // Literal paths win over parameterized ones
+  assert.equal(await (await fetch(`${origin}/api/users/me`)).text(), 'me');
+
+  const invalid = await fetch(`${origin}/api/users`, { method: 'POST' });
+  assert.equal(invalid.status, 400);
+  assert.deepEqual((await invalid.json()).violations, [{ path: 'query.tenant', message: 'required parameter is missing' }]);
+  assert.equal((await fetch(`${origin}/api/users?tenant=a`, { method: 'POST' })).status, 204);
+
+  const wrongMethod = await fetch(`${origin}/api/users/42`, { method: 'DELETE' });
+  assert.equal(wrongMethod.status, 405);
+  assert.equal(wrongMethod.headers.get('allow'), 'GET');
+  assert.equal((await fetch(`${origin}/users/42`)).status, 404);
+});
@@ -0,0 +1,106 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildOpenApiDocument, inferSchemaFromValue, toOpenApiPath } from '../src/openapi.js';
+import { YapiInterfaceDetail } from '../src/schemas.js';
+import { YapiService } from '../src/yapiService.js';
+
+// Details as returned by getInterfaceDetails, i.e. with parsed bodies
+function detail(fields: Record<string, unknown>): YapiInterfaceDetail {
+  return { catid: 1, project_id: 9, uid: 1, add_time: 0, up_time: 0, ...fields } as YapiInterfaceDetail;
+}
+
+const details = [
+  detail({
+    _id: 11,
+    method: 'GET',
+    path: '/orders/:id/items/{sku}',
+    title: 'Get order',
+    desc: '<p>html</p>',
+    markdown: 'Order by id',
+    status: 'done',
+    req_params: [{ name: 'id', desc: 'Order id', example: '7' }],
+    req_query: [{ name: 'expand', required: '0', example: '' }],
+    req_headers: [{ name: 'Content-Type', value: 'application/json' }, { name: 'X-Token', required: '1', value: 'abc' }],
+    res_body_type: 'json',
+    res_body_is_json_schema: true,
+    res_body: { $schema: 'http://json-schema.org/draft-04/schema#', type: 'object', properties: { id: { type: 'integer' } } },
+  }),
+  detail({
+    _id: 12,
+    method: 'POST',
+    path: '/orders',
+    title: 'Get order',
+    req_body_type: 'form',
+    req_body_form: [{ name: 'file', type: 'file', required: '1' }, { name: 'note', type: 'text', example: 'hi' }],
+    res_body_type: 'xml',
+    res_body: '<ok/>',
+  }),
+  detail({ _id: 13, method: 'PUT', path: '/orders', title: 'Replace', req_body_type: 'json', req_body_other: { total: 1.5, tags: ['a'] } }),
+  detail({ _id: 14, method: 'LINK', path: '/orders', title: 'Link' }),
+];
+
+// Only what the exporter reads from the service
+const service = {
+  getProjectInfo: async () => ({ _id: 9, name: 'Shop', desc: '', uid: 1, group_id: 1, add_time: 0, up_time: 0, basepath: '/api/', env: [{ name: 'dev', domain: 'http://dev.example.com/' }] }),
+  getProjectInterfaceMenu: async () => [
+    { _id: 1, name: 'Orders', desc: 'Order APIs', list: details.slice(0, 2) },
+    { _id: 2, name: 'Admin', list: details.slice(2) },
+  ],
+  getInterfaceDetails: async (id: number) => details.find(item => item._id === id),
+} as unknown as YapiService;
+
+test('converts YAPI paths and samples', () => {
+  assert.equal(toOpenApiPath('/orders/:id/items/:item_id'), '/orders/{id}/items/{item_id}');
+  assert.deepEqual(inferSchemaFromValue({ id: 1, price: 1.5, tags: ['a'], owner: null, list: [] }), {
+    type: 'object',
+    properties: { id: { type: 'integer' }, price: { type: 'number' }, tags: { type: 'array', items: { type: 'string' } }, owner: { type: 'null' }, list: { type: 'array' } },
+  });
+});
+
+test('exports the project as an OpenAPI document', async () => {
+  const document = await buildOpenApiDocument(service, { version: '2.0.0' });
+  assert.deepEqual(document.info, { title: 'Shop', version: '2.0.0', description: undefined });
+  assert.deepEqual(document.servers, [{ url: 'http://dev.example.com/api', description: 'dev' }]);
+  assert.deepEqual(document.tags, [{ name: 'Orders', description: 'Order APIs' }, { name: 'Admin', description: undefined }]);
+  // Unsupported methods are skipped
+  assert.deepEqual(Object.keys(document.paths), ['/orders/{id}/items/{sku}', '/orders']);
+  assert.deepEqual(Object.keys(document.paths['/orders']), ['post', 'put']);
+
+  const getOrder = document.paths['/orders/{id}/items/{sku}'].get;
+  assert.equal(getOrder.operationId, 'getOrder');
+  assert.equal(getOrder.description, 'Order by id');
+  assert.deepEqual(getOrder.tags, ['Orders']);
+  assert.equal(getOrder['x-yapi-id'], 11);
+  assert.equal(getOrder['x-yapi-status'], 'done');
+  // Undeclared template segments are added; Content-Type is left to the body
+  assert.deepEqual(getOrder.parameters, [
+    { name: 'id', in: 'path', required: true, description: 'Order id', schema: { type: 'string' }, example: '7' },
+    { name: 'sku', in: 'path', required: true, schema: { type: 'string' } },
+    { name: 'expand', in: 'query', required: false, description: undefined, schema: { type: 'string' }, example: undefined },
+    { name: 'X-Token', in: 'header', required: true, description: undefined, schema: { type: 'string' }, example: 'abc' },
+  ]);
+  assert.deepEqual(getOrder.responses['200'].content, { 'application/json': { schema: { type: 'object', properties: { id: { type: 'integer' } } } } });
+
+  const upload = document.paths['/orders'].post;
+  // Operation ids stay unique
+  assert.equal(upload.operationId, 'getOrder12');
+  assert.deepEqual(upload.requestBody, {
+    required: true,
+    content: {
+      'multipart/form-data': {
+        schema: {
+          type: 'object',
+          properties: { file: { type: 'string', format: 'binary', description: undefined }, note: { type: 'string', description: undefined, examples: ['hi'] } },
+          required: ['file'],
+        },
+      },
+    },
+  });
+  assert.deepEqual(upload.responses['200'].content, { 'application/xml': { schema: { type: 'string' }, example: '<ok/>' } });
+
+  const replace = document.paths['/orders'].put;
+  assert.deepEqual(replace.requestBody, {
+    content: { 'application/json': { schema: { type: 'object', properties: { total: { type: 'number' }, tags: { type: 'array', items: { type: 'string' } } } }, example: { total: 1.5, tags: ['a'] } } },
+  });
+  assert.deepEqual(replace.responses['200'], { description: 'OK' });
+});
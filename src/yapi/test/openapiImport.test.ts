@@ -0,0 +1,172 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { convertOpenApiDocument, readOpenApiFile } from '../src/openapiImport.js';
+
+const dir = mkdtempSync(join(tmpdir(), 'yapi-openapi-'));
+
+function file(name: string, content: string): string {
+  const path = join(dir, name);
+  writeFileSync(path, content);
+  return path;
+}
+
+const openapi3 = {
+  openapi: '3.0.3',
+  info: { title: 'Shop', version: 2 },
+  paths: {
+    '/api/orders/{id}': {
+      parameters: [{ $ref: '#/components/parameters/OrderId' }],
+      get: {
+        summary: 'Get order',
+        tags: ['Orders'],
+        parameters: [
+          { name: 'expand', in: 'query', schema: { type: 'string', enum: ['items'] }, examples: { one: { value: 'items' } } },
+          { name: 'Content-Type', in: 'header', schema: { type: 'string' } },
+          { name: 'X-Trace', in: 'header', required: true, schema: { type: 'string', default: 'abc' } },
+        ],
+        responses: {
+          404: { description: 'Missing' },
+          201: { $ref: '#/components/responses/Order' },
+          200: { $ref: '#/components/responses/Order' },
+        },
+      },
+      trace: { responses: {} },
+    },
+    '/api/orders': {
+      post: {
+        operationId: 'createOrder',
+        requestBody: { content: { 'text/plain': { example: 'x' }, 'application/json': { schema: { $ref: '#/components/schemas/NewOrder' } } } },
+        responses: { default: { content: { 'application/xml': { example: '<order/>' } } } },
+      },
+    },
+    '/api/avatars': {
+      put: {
+        requestBody: {
+          content: {
+            'multipart/form-data': {
+              schema: { type: 'object', required: ['file'], properties: { file: { type: 'string', format: 'binary' }, caption: { type: 'string', example: 'me' } } },
+            },
+          },
+        },
+        responses: {},
+      },
+    },
+  },
+  components: {
+    parameters: { OrderId: { name: 'id', in: 'path', required: true, schema: { type: 'integer' }, example: 7 } },
+    responses: { Order: { content: { 'application/json': { schema: { $ref: '#/components/schemas/Order' } } } } },
+    schemas: {
+      Base: { type: 'object', required: ['id'], properties: { id: { type: 'integer' } } },
+      Order: {
+        allOf: [{ $ref: '#/components/schemas/Base' }, { type: 'object', properties: { note: { type: ['string', 'null'] }, parent: { $ref: '#/components/schemas/Order' } } }],
+      },
+      NewOrder: { type: 'object', nullable: true, properties: { items: { type: 'array', items: { $ref: '#/components/schemas/Missing' } } } },
+    },
+  },
+};
+
+test('converts OpenAPI 3 operations to YAPI interface fields', () => {
+  const warnings: string[] = [];
+  const [getOrder, createOrder, uploadAvatar] = convertOpenApiDocument(structuredClone(openapi3), '/api', warnings);
+
+  assert.equal(getOrder.category, 'Orders');
+  assert.equal(getOrder.fields.title, 'Get order');
+  assert.equal(getOrder.fields.path, '/orders/{id}');
+  assert.deepEqual(getOrder.fields.req_params, [{ name: 'id', desc: undefined, example: '7' }]);
+  assert.deepEqual(getOrder.fields.req_query, [{ name: 'expand', required: '0', desc: undefined, example: 'items' }]);
+  // Content-Type comes from the body, not from header parameters
+  assert.deepEqual(getOrder.fields.req_headers, [{ name: 'X-Trace', required: '1', desc: undefined, example: 'abc' }]);
+  // The lowest 2xx response; allOf merged, nullable types reduced, recursion cut
+  assert.equal(getOrder.fields.res_body_type, 'json');
+  assert.deepEqual(getOrder.fields.res_body, {
+    type: 'object',
+    required: ['id'],
+    properties: {
+      id: { type: 'integer' },
+      note: { type: 'string' },
+      parent: { type: 'object', description: 'Recursive reference to Order' },
+    },
+  });
+
+  assert.equal(createOrder.category, '公共分类');
+  assert.equal(createOrder.fields.title, 'createOrder');
+  assert.equal(createOrder.fields.req_body_type, 'json');
+  assert.deepEqual(createOrder.fields.req_body_other, { type: 'object', properties: { items: { type: 'array', items: {} } } });
+  assert.deepEqual(createOrder.fields.req_headers, [{ name: 'Content-Type', required: '1', value: 'application/json' }]);
+  assert.equal(createOrder.fields.res_body_type, 'xml');
+  assert.equal(createOrder.fields.res_body, '<order/>');
+
+  assert.equal(uploadAvatar.fields.req_body_type, 'form');
+  assert.deepEqual(uploadAvatar.fields.req_body_form, [
+    { name: 'file', type: 'file', required: '1', desc: undefined, example: undefined },
+    { name: 'caption', type: 'text', required: '0', desc: undefined, example: 'me' },
+  ]);
+  assert.equal(uploadAvatar.fields.req_headers?.[0].value, 'multipart/form-data');
+
+  assert.deepEqual(warnings, [
+    'Skipped TRACE /api/orders/{id}: YAPI does not support the method.',
+    "Reference '#/components/schemas/Missing' does not resolve.",
+  ]);
+});
+
+test('converts Swagger 2 body, form and response definitions', () => {
+  const [createUser, uploadAvatar] = convertOpenApiDocument({
+    swagger: '2.0',
+    paths: {
+      '/users': {
+        post: {
+          tags: ['Users'],
+          parameters: [{ name: 'user', in: 'body', schema: { $ref: '#/definitions/User' } }, { name: 'page', in: 'query', type: 'integer', 'x-example': 1 }],
+          responses: { 200: { schema: { $ref: '#/definitions/User' } } },
+        },
+      },
+      '/users/{uid}/avatar': {
+        put: {
+          parameters: [{ name: 'uid', in: 'path', type: 'string' }, { name: 'file', in: 'formData', type: 'file', required: true }],
+          responses: {},
+        },
+      },
+    },
+    definitions: { User: { type: 'object', properties: { name: { type: 'string' } } } },
+  }, '', []);
+
+  assert.equal(createUser.category, 'Users');
+  assert.deepEqual(createUser.fields.req_body_other, { type: 'object', properties: { name: { type: 'string' } } });
+  assert.deepEqual(createUser.fields.req_query, [{ name: 'page', required: '0', desc: undefined, example: '1' }]);
+  assert.deepEqual(createUser.fields.res_body, { type: 'object', properties: { name: { type: 'string' } } });
+  assert.deepEqual(uploadAvatar.fields.req_body_form, [{ name: 'file', type: 'file', required: '1', desc: undefined, example: undefined }]);
+  assert.equal(uploadAvatar.fields.req_headers?.[0].value, 'multipart/form-data');
+});
+
+test('ignores values of the wrong type instead of failing', () => {
+  const [operation] = convertOpenApiDocument({
+    openapi: '3.1.0',
+    paths: { '/ping': { get: { summary: 42, description: ['x'], parameters: 'none', tags: 'Ops', responses: [] } } },
+  }, '', []);
+  assert.equal(operation.fields.title, 'GET /ping');
+  assert.equal(operation.fields.desc, undefined);
+  assert.deepEqual(operation.fields.req_query, []);
+  assert.equal(operation.category, '公共分类');
+});
+
+test('reads JSON and YAML files', async () => {
+  assert.equal((await readOpenApiFile(file('spec.json', JSON.stringify(openapi3)))).openapi, '3.0.3');
+  assert.equal((await readOpenApiFile(file('spec.yaml', 'swagger: "2.0"\npaths: {}\n'))).swagger, '2.0');
+});
+
+test('rejects files that are not specs without quoting their content', async () => {
+  await assert.rejects(readOpenApiFile(file('passwd', 'root:x:0:0:root:/root:/bin/bash\n')), (error: Error) => {
+    assert.doesNotMatch(error.message, /root:x/);
+    return true;
+  });
+  await assert.rejects(readOpenApiFile(file('broken.json', '{"secret": "s3cr3t",')), (error: Error) => {
+    assert.match(error.message, /not valid JSON or YAML/);
+    assert.doesNotMatch(error.message, /s3cr3t/);
+    return true;
+  });
+  await assert.rejects(readOpenApiFile(file('broken.yaml', 'openapi: 3.0.0\npaths: [secret\n')), /not valid JSON or YAML \(line \d+, column \d+\)/);
+  await assert.rejects(readOpenApiFile(file('nopaths.yaml', 'openapi: 3.0.0\n')), /has no 'paths'/);
+});
@@ -0,0 +1,79 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateRequestSnippets } from '../src/requestSnippets.js';
+import { YapiInterfaceDetail, YapiProject } from '../src/schemas.js';
+import { YapiService } from '../src/yapiService.js';
+
+// Details as returned by getInterfaceDetails, i.e. with parsed bodies
+function detail(fields: Record<string, unknown>): YapiInterfaceDetail {
+  return { _id: 7, method: 'post', path: '/orders/{id}/items/:sku', title: 'Add item', catid: 1, project_id: 9, uid: 1, add_time: 0, up_time: 0, ...fields } as YapiInterfaceDetail;
+}
+
+// Only what the snippets read from the service
+function service(interfaceDetail: YapiInterfaceDetail, env: YapiProject['env'] = [{ name: 'dev', domain: 'http://dev.example.com/' }, { name: 'prod', domain: 'https://example.com' }]): YapiService {
+  return {
+    getProjectInfo: async () => ({ _id: 9, name: 'Shop', uid: 1, group_id: 1, add_time: 0, up_time: 0, basepath: 'api/', env }),
+    getInterfaceDetails: async () => interfaceDetail,
+  } as unknown as YapiService;
+}
+
+const addItem = detail({
+  req_params: [{ name: 'id', example: '7' }],
+  req_query: [{ name: 'dry run', example: 'a&b', required: '0' }, { name: 'tenant', required: '1' }, { name: 'debug', required: '0' }],
+  req_headers: [{ name: 'Content-Type', value: 'application/json' }, { name: 'X-Token', required: '1' }],
+  req_body_type: 'json',
+  req_body_is_json_schema: true,
+  req_body_other: { type: 'object', properties: { qty: { type: 'integer', minimum: 1 }, note: { type: 'string', example: "it's" }, gift: { type: 'boolean' } } },
+});
+
+test('fills in documented examples and lists the placeholders', async () => {
+  const result = await generateRequestSnippets(service(addItem), 7, { languages: ['curl', 'fetch', 'axios', 'python'] });
+  assert.deepEqual(result.interface, { id: 7, method: 'POST', path: '/orders/{id}/items/:sku', title: 'Add item' });
+  assert.equal(result.url, 'http://dev.example.com/api/orders/7/items/<sku>?dry%20run=a%26b&tenant=<tenant>');
+  assert.deepEqual(result.notes, [
+    "Using env 'dev'; other envs: prod.",
+    "Path parameter 'sku' has no example; replace <sku>.",
+    "Required header 'X-Token' has no example; replace <X-Token>.",
+    "Required query parameter 'tenant' has no example; replace <tenant>.",
+  ]);
+
+  assert.equal(result.snippets.curl, [
+    `curl -X POST '${result.url}'`,
+    `-H 'Content-Type: application/json'`,
+    `-H 'X-Token: <X-Token>'`,
+    `--data-raw '{\n  "qty": 1,\n  "note": "it'\\''s",\n  "gift": true\n}'`,
+  ].join(' \\\n  '));
+  assert.match(result.snippets.fetch!, /^const response = await fetch\('http:\/\/dev\.example\.com\/api\/orders\/7\/items\/<sku>\?dry%20run=a%26b&tenant=<tenant>', \{\n  method: 'POST',\n/);
+  assert.match(result.snippets.fetch!, /  body: JSON\.stringify\(\{\n    qty: 1,\n    note: 'it\\'s',\n    gift: true,\n  \}\),\n/);
+  assert.match(result.snippets.axios!, /  url: 'http:\/\/dev\.example\.com\/api\/orders\/7\/items\/<sku>',\n  params: \{\n    'dry run': 'a&b',\n    tenant: '<tenant>',\n  \},\n/);
+  assert.match(result.snippets.python!, /    json=\{\n        'qty': 1,\n        'note': 'it\\'s',\n        'gift': True,\n    \},\n/);
+});
+
+test('picks the env or domain the caller names', async () => {
+  assert.equal((await generateRequestSnippets(service(addItem), 7, { languages: [], env: 'prod' })).url.split('?')[0], 'https://example.com/api/orders/7/items/<sku>');
+  assert.equal((await generateRequestSnippets(service(addItem), 7, { languages: [], domain: 'http://localhost:3000/' })).url.split('?')[0], 'http://localhost:3000/api/orders/7/items/<sku>');
+  await assert.rejects(generateRequestSnippets(service(addItem), 7, { languages: [], env: 'qa' }), /Unknown env 'qa'\. Project envs: dev, prod\./);
+
+  const noEnv = await generateRequestSnippets(service(detail({ method: 'GET', path: '/ping' }), []), 7, { languages: ['curl'] });
+  assert.equal(noEnv.snippets.curl, "curl 'http://localhost:8080/api/ping'");
+  assert.deepEqual(noEnv.notes, ['The project has no env; replace http://localhost:8080 with the real domain.']);
+});
+
+test('sends form bodies as URL-encoded fields or multipart uploads', async () => {
+  const form = detail({
+    path: '/avatars',
+    req_headers: [{ name: 'content-type', value: 'multipart/form-data' }],
+    req_body_type: 'form',
+    req_body_form: [{ name: 'caption', type: 'text', example: 'me' }, { name: 'file', type: 'file', required: '1' }],
+  });
+  const upload = await generateRequestSnippets(service(form, [{ name: 'dev', domain: 'http://dev.example.com' }]), 7, { languages: ['curl', 'python'] });
+  // The client sets the multipart Content-Type with its boundary
+  assert.equal(upload.snippets.curl, "curl -X POST 'http://dev.example.com/api/avatars' \\\n  -F 'caption=me' \\\n  -F 'file=@/path/to/file'");
+  assert.match(upload.snippets.python!, /    files=\{\n        'file': open\('\/path\/to\/file', 'rb'\),\n    \},\n/);
+  assert.deepEqual(upload.notes, ['Replace the file path(s) for: file.']);
+
+  const fields = detail({ path: '/login', req_body_type: 'form', req_body_form: [{ name: 'user', type: 'text', example: 'a b' }] });
+  const login = await generateRequestSnippets(service(fields, [{ name: 'dev', domain: 'http://dev.example.com' }]), 7, { languages: ['curl', 'fetch'] });
+  assert.equal(login.snippets.curl, "curl -X POST 'http://dev.example.com/api/login' \\\n  -H 'Content-Type: application/x-www-form-urlencoded' \\\n  --data-urlencode 'user=a b'");
+  assert.match(login.snippets.fetch!, /  body: new URLSearchParams\(\{\n    user: 'a b',\n  \}\),\n/);
+});
@@ -0,0 +1,49 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { once } from 'node:events';
+import { AddressInfo } from 'node:net';
+import { Server as McpServer } from '@modelcontextprotocol/sdk/server/index.js';
+import { YapiProjectRegistry } from '../src/projectRegistry.js';
+import { runStreamableHttpServer } from '../src/transports/streamableHttp.js';
+
+// Only what the transport reads from the registry; checking a session token takes a while
+const sessionProjects = {
+  resolve: () => ({
+    alias: 'default',
+    service: { getProjectInfo: () => new Promise(resolve => setTimeout(() => resolve({ _id: 9 }), 100)) },
+  }),
+  getDefaultAlias: () => 'default',
+};
+const projects = {
+  list: () => [],
+  withToken: () => sessionProjects,
+} as unknown as YapiProjectRegistry;
+
+const { httpServer, closeSessions } = runStreamableHttpServer(
+  () => new McpServer({ name: 'test', version: '0.0.0' }, { capabilities: {} }),
+  projects,
+  0,
+  { maxSessions: 1 }
+);
+await once(httpServer, 'listening');
+after(async () => {
+  await closeSessions();
+  httpServer.close();
+});
+const endpoint = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}/mcp`;
+
+async function initialize(): Promise<number> {
+  const response = await fetch(endpoint, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', accept: 'application/json, text/event-stream', 'x-yapi-token': 'session-token' },
+    body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'initialize', params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '0.0.0' } } }),
+  });
+  await response.text();
+  return response.status;
+}
+
+test('counts sessions still checking their token against the session limit', async () => {
+  const statuses = await Promise.all([initialize(), initialize()]);
+  assert.deepEqual(statuses.sort(), [200, 503]);
+  assert.equal(await initialize(), 503);
+});
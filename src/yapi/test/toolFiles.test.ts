@@ -0,0 +1,49 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdirSync, mkdtempSync, symlinkSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { loadFilesDir, resolveToolFile } from '../src/toolFiles.js';
+import { ConfigurationError } from '../src/errors.js';
+
+const root = mkdtempSync(join(tmpdir(), 'yapi-files-'));
+const outside = mkdtempSync(join(tmpdir(), 'yapi-outside-'));
+mkdirSync(join(root, 'snapshots'));
+writeFileSync(join(root, 'snapshots', 'v1.json'), '{}');
+writeFileSync(join(outside, 'secret.json'), '{}');
+symlinkSync(join(outside, 'secret.json'), join(root, 'link.json'));
+symlinkSync(join(outside, 'missing.json'), join(root, 'dangling.json'));
+symlinkSync(outside, join(root, 'linked-dir'));
+const filesDir = loadFilesDir(root);
+
+test('resolves relative paths inside the files directory', async () => {
+  assert.equal(await resolveToolFile(filesDir, 'snapshots/v1.json', 'path', 'read'), join(filesDir, 'snapshots', 'v1.json'));
+  assert.equal(await resolveToolFile(filesDir, './snapshots/v2.json', 'path', 'write'), join(filesDir, 'snapshots', 'v2.json'));
+});
+
+test('refuses file access without a files directory', async () => {
+  await assert.rejects(resolveToolFile(undefined, 'v1.json', 'path', 'read'), /YAPI_FILES_DIR/);
+});
+
+test('rejects absolute paths and .. segments', async () => {
+  for (const file of ['/etc/passwd', join(filesDir, 'snapshots', 'v1.json'), '../secret.json', 'snapshots/../../secret.json', 'snapshots\\..\\..\\secret.json', 'C:\\secret.json']) {
+    await assert.rejects(resolveToolFile(filesDir, file, 'base_path', 'read'), /Invalid base_path .*relative to the files directory/, file);
+  }
+});
+
+test('rejects symlinks leading out of the files directory', async () => {
+  await assert.rejects(resolveToolFile(filesDir, 'link.json', 'path', 'read'), /outside the files directory/);
+  await assert.rejects(resolveToolFile(filesDir, 'link.json', 'path', 'write'), /outside the files directory/);
+  await assert.rejects(resolveToolFile(filesDir, 'linked-dir/new.json', 'path', 'write'), /outside the files directory/);
+  await assert.rejects(resolveToolFile(filesDir, 'dangling.json', 'path', 'write'), /not found/);
+});
+
+test('reports missing files and directories', async () => {
+  await assert.rejects(resolveToolFile(filesDir, 'snapshots/v3.json', 'path', 'read'), /not found/);
+  await assert.rejects(resolveToolFile(filesDir, 'missing/v1.json', 'path', 'write'), /not found/);
+});
+
+test('checks the configured directory', () => {
+  assert.throws(() => loadFilesDir(join(root, 'missing')), ConfigurationError);
+  assert.throws(() => loadFilesDir(join(root, 'snapshots', 'v1.json')), /not a directory/);
+});
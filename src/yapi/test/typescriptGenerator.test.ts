@@ -0,0 +1,78 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import ts from 'typescript';
+import { generateTypeScriptTypes, JsonSchema } from '../src/typescriptGenerator.js';
+import { YapiInterfaceDetail } from '../src/schemas.js';
+
+// Details as returned by getInterfaceDetails, i.e. with parsed bodies
+function detail(fields: Record<string, unknown>): YapiInterfaceDetail {
+  return { _id: 7, method: 'post', path: '/orders/{id}', title: 'Create order', catid: 1, project_id: 9, uid: 1, add_time: 0, up_time: 0, ...fields } as YapiInterfaceDetail;
+}
+
+function responseOf(schema: JsonSchema): string {
+  return generateTypeScriptTypes(detail({ res_body_type: 'json', res_body_is_json_schema: true, res_body: schema }), 'Order');
+}
+
+// Type-checks the generated declarations on their own, without the repo's lib and type settings
+function compile(source: string): string[] {
+  const options: ts.CompilerOptions = { strict: true, noEmit: true, target: ts.ScriptTarget.ES2022, types: [] };
+  const host = ts.createCompilerHost(options);
+  const getSourceFile = host.getSourceFile;
+  host.getSourceFile = (fileName, languageVersion, ...rest) => fileName === 'types.ts'
+    ? ts.createSourceFile(fileName, source, languageVersion)
+    : getSourceFile(fileName, languageVersion, ...rest);
+  const program = ts.createProgram(['types.ts'], options, host);
+  return ts.getPreEmitDiagnostics(program).map(diagnostic => ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'));
+}
+
+const order: JsonSchema = {
+  type: 'object',
+  required: ['id'],
+  properties: {
+    id: { type: 'integer', description: 'Order id' },
+    'line-items': { type: 'array', items: { type: 'object', properties: { sku: { type: 'string' } } } },
+    status: { type: 'string', enum: ['new', 'paid'] },
+    meta: { type: 'object', description: 'Closing }\nbrace', additionalProperties: { type: 'string' } },
+  },
+};
+
+test('declares objects as interfaces', () => {
+  const output = responseOf(order);
+  assert.match(output, /\/\*\* Response body \*\/\nexport interface OrderResponse \{\n/);
+  assert.match(output, /  \/\*\* Order id \*\/\n  id: number;/);
+  assert.match(output, /  "line-items"\?: Array<\{\n    sku\?: string;\n  \}>;/);
+  assert.match(output, /  status\?: "new" \| "paid";/);
+});
+
+test('declares nullable objects, allOf and oneOf as type aliases', () => {
+  assert.match(responseOf({ ...order, type: ['object', 'null'] }), /export type OrderResponse = \{\n[^]*\n\} \| null;\n$/);
+  assert.match(responseOf({ allOf: [order, { type: 'object', properties: { note: { type: 'string' } } }] }), /export type OrderResponse = \{\n[^]*\n\} & \{\n  note\?: string;\n\};\n$/);
+  assert.match(responseOf({ oneOf: [order, { type: 'string' }] }), /export type OrderResponse = \{\n[^]*\n\} \| string;\n$/);
+  assert.match(responseOf({ type: 'array', items: order }), /export type OrderResponse = Array<\{\n/);
+});
+
+test('generates declarations that compile', () => {
+  const bodies: JsonSchema[] = [
+    order,
+    { ...order, type: ['object', 'null'] },
+    { allOf: [order, { type: 'object', properties: { note: { type: 'string' } } }] },
+    { anyOf: [order, { type: 'null' }] },
+    { type: 'array', items: [{ type: 'string' }, order] },
+    { type: 'object' },
+  ];
+  const source = bodies.map((schema, index) => generateTypeScriptTypes(detail({
+    req_params: [{ name: 'id', example: '7' }],
+    req_query: [{ name: 'page-size', required: '0', desc: 'Rows per page */ not the end' }],
+    req_headers: [{ name: 'X-Token', required: '1' }],
+    req_body_type: 'form',
+    req_body_form: [{ name: 'file', type: 'file', required: '1' }],
+    res_body_type: 'json',
+    res_body_is_json_schema: true,
+    res_body: schema,
+  }), `Order${index}`)).join('\n') + generateTypeScriptTypes(detail({
+    req_body_type: 'json',
+    req_body_other: { id: 1, items: [{ sku: 'A-1' }], owner: null },
+    res_body: 'OK',
+  }), 'Sample');
+  assert.deepEqual(compile(source), []);
+});
@@ -0,0 +1,93 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { YapiError } from '../src/errors.js';
+import { YapiService } from '../src/yapiService.js';
+
+const project = { _id: 9, name: 'Shop', uid: 1, group_id: 1, add_time: 0, up_time: 0 };
+
+// Each request takes the next scripted reply; the last one repeats
+let replies: Array<(res: ServerResponse) => void> = [];
+let requests = 0;
+const yapi = createServer((_req, res) => {
+  replies[Math.min(requests++, replies.length - 1)](res);
+});
+await new Promise<void>(resolve => yapi.listen(0, '127.0.0.1', resolve));
+after(() => {
+  yapi.closeAllConnections();
+  yapi.close();
+});
+const baseUrl = `http://127.0.0.1:${(yapi.address() as AddressInfo).port}`;
+
+function json(status: number, body: unknown): (res: ServerResponse) => void {
+  return res => res.writeHead(status, { 'content-type': 'application/json' }).end(JSON.stringify(body));
+}
+
+function script(...next: Array<(res: ServerResponse) => void>): void {
+  replies = next;
+  requests = 0;
+}
+
+function service(retries = 2, timeoutMs = 1000): YapiService {
+  return new YapiService(baseUrl, 'token', { retries, retryBaseDelayMs: 1, timeoutMs });
+}
+
+test('retries GET requests failing with 5xx, 429 or network errors', async () => {
+  script(json(503, { errmsg: 'busy' }), res => res.destroy(), json(200, { errcode: 0, errmsg: 'success', data: project }));
+  assert.equal((await service().getProjectInfo()).name, 'Shop');
+  assert.equal(requests, 3);
+
+  script(json(429, {}));
+  await assert.rejects(service(1).getProjectInfo(), (error: YapiError) => {
+    assert.equal(error.status, 429);
+    assert.equal(error.attempts, 2);
+    assert.equal(typeof error.elapsedMs, 'number');
+    return true;
+  });
+  assert.equal(requests, 2);
+});
+
+test('does not retry YAPI business errors', async () => {
+  script(json(200, { errcode: 40011, errmsg: 'token invalid' }));
+  await assert.rejects(service().getProjectInfo(), (error: YapiError) => {
+    assert.equal(error.errcode, 40011);
+    assert.equal(error.attempts, 1);
+    return true;
+  });
+  assert.equal(requests, 1);
+});
+
+test('does not retry writes, which YAPI may already have applied', async () => {
+  script(json(502, {}), json(200, { errcode: 0, errmsg: 'success', data: {} }));
+  await assert.rejects(service().updateInterface({ id: 11, title: 'Renamed' }), (error: YapiError) => error.status === 502);
+  assert.equal(requests, 1);
+});
+
+test('times out each attempt, including reading the body', async () => {
+  script(res => {
+    res.writeHead(200, { 'content-type': 'application/json' });
+    res.write('{"errcode": 0,');
+  });
+  await assert.rejects(service(1, 50).getProjectInfo(), (error: YapiError) => {
+    assert.match(error.message, /timed out after 50ms/);
+    assert.equal(error.attempts, 2);
+    return true;
+  });
+  assert.equal(requests, 2);
+});
+
+test('reports error responses whatever their body', async () => {
+  script(json(500, ['unexpected']));
+  await assert.rejects(service(0).getProjectInfo(), (error: YapiError) => {
+    assert.equal(error.message, 'Internal Server Error');
+    assert.equal(error.errcode, undefined);
+    return true;
+  });
+  script(json(400, { errcode: 40022, errmsg: 'bad request' }));
+  await assert.rejects(service(0).getProjectInfo(), (error: YapiError) => error.errcode === 40022 && error.message === 'bad request');
+  script(json(200, null));
+  await assert.rejects(service(0).getProjectInfo(), /YAPI response validation failed for \/project\/get/);
+  script(json(200, { errcode: 1, errmsg: '' }));
+  await assert.rejects(service(0).getProjectInfo(), /YAPI operation failed with code 1/);
+});